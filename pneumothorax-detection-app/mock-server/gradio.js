@@ -0,0 +1,416 @@
+/**
+ * Local stand-in for the PneumoPredictor Gradio Space
+ *
+ * Implements the routes the Gradio backend uses (config, upload, call/predict,
+ * the SSE result stream and file downloads) with scripted outcomes, so the
+ * app can be developed without waiting on the live Space.
+ *
+ *   npm run mock-server -- --port=7860 --scenario=positive
+ *
+ * Point the Gradio backend in Settings at http://<your-machine>:7860.
+ *
+ * --scenario takes a comma-separated list that is played in order, one entry
+ * per predict call, and repeats the last entry once exhausted (e.g.
+ * `server-error,server-error,positive` exercises the retry policy). The
+ * list can be replaced while running:
+ *
+ *   curl -X POST localhost:7860/__mock/scenario -d '{"scenario":"negative"}'
+ */
+
+const http = require("node:http");
+const fs = require("node:fs");
+const path = require("node:path");
+
+const SAMPLES_DIRECTORY = path.join(__dirname, "..", "assets", "samples");
+
+const DISCLAIMER = "_Served by the local mock server, not a real model._";
+
+const SCENARIOS = {
+  // Canned prediction from a bundled sample
+  positive: {
+    sample: "positive-right",
+    diagnosis: `## 🔴 Pneumothorax Detected\n\n**Confidence:** 94.2%\n\n**Location:** Right hemithorax\n\n${DISCLAIMER}`,
+  },
+  negative: {
+    sample: "negative-1",
+    diagnosis: `## 🟢 No Pneumothorax Detected\n\n**Confidence:** 96.8%\n\n${DISCLAIMER}`,
+  },
+  // Queue estimations and progress updates before the positive result
+  "slow-queue": {
+    sample: "positive-right",
+    diagnosis: `## 🔴 Pneumothorax Detected\n\n**Confidence:** 94.2%\n\n**Location:** Right hemithorax\n\n${DISCLAIMER}`,
+    queuePositions: 4,
+    progressSteps: 5,
+    stepMs: 1500,
+  },
+  // call/predict answers 500, which the app retries
+  "server-error": { status: 500 },
+  // The result stream completes with a payload that is not JSON
+  "malformed-sse": { malformed: true },
+  // The prediction succeeds but its files 404, as after a Space restart
+  "expired-files": {
+    sample: "positive-right",
+    diagnosis: `## 🔴 Pneumothorax Detected\n\n**Confidence:** 94.2%\n\n**Location:** Right hemithorax\n\n${DISCLAIMER}`,
+    expireFiles: true,
+  },
+};
+
+function parseArgs(argv) {
+  const args = {};
+  for (const arg of argv) {
+    const match = arg.match(/^--([^=]+)=(.*)$/);
+    if (match) args[match[1]] = match[2];
+  }
+  return args;
+}
+
+function parseScenarioList(value) {
+  const names = String(value)
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean);
+  const unknown = names.filter((name) => !SCENARIOS[name]);
+  if (!names.length || unknown.length) {
+    throw new Error(
+      `Unknown scenario ${unknown.join(", ") || "(empty)"}; expected one of ${Object.keys(SCENARIOS).join(", ")}`,
+    );
+  }
+  return names;
+}
+
+function delay(ms) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    const chunks = [];
+    req.on("data", (chunk) => chunks.push(chunk));
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+    req.on("error", reject);
+  });
+}
+
+/**
+ * File parts of a multipart/form-data body
+ */
+function parseMultipartFiles(body, contentType) {
+  const boundary = /boundary=(?:"([^"]+)"|([^;]+))/.exec(contentType || "");
+  if (!boundary) return [];
+  const delimiter = Buffer.from(`--${boundary[1] || boundary[2]}`);
+
+  const files = [];
+  let start = body.indexOf(delimiter);
+  while (start !== -1) {
+    const next = body.indexOf(delimiter, start + delimiter.length);
+    if (next === -1) break;
+
+    const part = body.subarray(start + delimiter.length + 2, next - 2);
+    const headerEnd = part.indexOf("\r\n\r\n");
+    if (headerEnd !== -1) {
+      const headers = part.subarray(0, headerEnd).toString("utf8");
+      const filename = /filename="([^"]*)"/.exec(headers);
+      const type = /content-type:\s*([^\r\n]+)/i.exec(headers);
+      if (filename) {
+        files.push({
+          name: filename[1] || "upload.png",
+          mimeType: type ? type[1].trim() : "application/octet-stream",
+          bytes: part.subarray(headerEnd + 4),
+        });
+      }
+    }
+    start = next;
+  }
+  return files;
+}
+
+function sendJson(res, status, payload) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(payload));
+}
+
+/**
+ * stepMs replaces the pacing of the slow scenarios (e.g. in tests)
+ */
+function createMockServer({
+  scenarios = ["positive"],
+  log = console.log,
+  stepMs,
+} = {}) {
+  let playlist = [...scenarios];
+  let playIndex = 0;
+  let nextId = 1;
+  // Uploaded and generated files by Gradio path
+  const files = new Map();
+  // Pending predict calls by event id
+  const events = new Map();
+
+  const nextScenario = () => {
+    const name = playlist[Math.min(playIndex, playlist.length - 1)];
+    playIndex += 1;
+    return name;
+  };
+
+  const storeFile = (name, mimeType, bytes) => {
+    const filePath = `/tmp/gradio/mock-${nextId++}/${name}`;
+    files.set(filePath, { mimeType, bytes });
+    return filePath;
+  };
+
+  const fileData = (origin, filePath) => ({
+    path: filePath,
+    url: `${origin}/gradio_api/file=${filePath}`,
+    size: files.get(filePath)?.bytes.length ?? null,
+    orig_name: path.basename(filePath),
+    mime_type: files.get(filePath)?.mimeType ?? null,
+    is_stream: false,
+    meta: { _type: "gradio.FileData" },
+  });
+
+  const readInput = (input) => {
+    if (typeof input === "string" && input.startsWith("data:")) {
+      const [header, data] = input.split(",");
+      const mimeType = header.slice(5).split(";")[0] || "image/png";
+      return storeFile("xray.png", mimeType, Buffer.from(data, "base64"));
+    }
+    if (input && typeof input.path === "string" && files.has(input.path)) {
+      return input.path;
+    }
+    return null;
+  };
+
+  const buildOutput = (origin, scenario, inputPath) => {
+    const sample = (suffix) =>
+      fs.readFileSync(
+        path.join(SAMPLES_DIRECTORY, `${scenario.sample}${suffix}.png`),
+      );
+    const maskPath = storeFile("mask.png", "image/png", sample("-mask"));
+    // Negative samples have no overlay of their own
+    const overlayPath = fs.existsSync(
+      path.join(SAMPLES_DIRECTORY, `${scenario.sample}-overlay.png`),
+    )
+      ? storeFile("overlay.png", "image/png", sample("-overlay"))
+      : storeFile(
+          "overlay.png",
+          files.get(inputPath).mimeType,
+          files.get(inputPath).bytes,
+        );
+
+    const output = [
+      fileData(origin, inputPath),
+      fileData(origin, maskPath),
+      fileData(origin, overlayPath),
+      scenario.diagnosis,
+    ];
+    if (scenario.expireFiles) {
+      files.delete(inputPath);
+      files.delete(maskPath);
+      files.delete(overlayPath);
+    }
+    return output;
+  };
+
+  const writeEvent = (res, event, data) => {
+    res.write(`event: ${event}\ndata: ${data}\n\n`);
+  };
+
+  const streamResult = async (req, res, eventId) => {
+    const pending = events.get(eventId);
+    if (!pending) {
+      sendJson(res, 404, { detail: "Event not found" });
+      return;
+    }
+    events.delete(eventId);
+
+    const { scenario, inputPath, origin } = pending;
+    const pace = stepMs ?? scenario.stepMs;
+    let closed = false;
+    req.on("close", () => {
+      closed = true;
+    });
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+    });
+
+    for (let rank = (scenario.queuePositions ?? 0) - 1; rank >= 0; rank--) {
+      if (closed) return;
+      writeEvent(
+        res,
+        "message",
+        JSON.stringify({
+          msg: "estimation",
+          rank,
+          queue_size: scenario.queuePositions,
+          rank_eta: ((rank + 1) * pace) / 1000,
+        }),
+      );
+      writeEvent(res, "heartbeat", "null");
+      await delay(pace);
+    }
+
+    writeEvent(res, "generating", "null");
+    for (let index = 0; index < (scenario.progressSteps ?? 0); index++) {
+      if (closed) return;
+      writeEvent(
+        res,
+        "message",
+        JSON.stringify({
+          msg: "progress",
+          progress_data: [
+            {
+              index,
+              length: scenario.progressSteps,
+              unit: "steps",
+              desc: "Segmenting",
+            },
+          ],
+        }),
+      );
+      await delay(pace);
+    }
+    if (closed) return;
+
+    if (scenario.malformed) {
+      writeEvent(res, "complete", "{not json");
+    } else {
+      writeEvent(
+        res,
+        "complete",
+        JSON.stringify(buildOutput(origin, scenario, inputPath)),
+      );
+    }
+    res.end();
+  };
+
+  const handle = async (req, res) => {
+    const url = new URL(req.url, `http://${req.headers.host}`);
+    const origin = `http://${req.headers.host}`;
+    log(`${req.method} ${url.pathname}`);
+
+    if (req.method === "GET" && url.pathname === "/config") {
+      sendJson(res, 200, { title: "pneumopredictor-mock", version: "mock" });
+      return;
+    }
+
+    if (url.pathname === "/__mock/scenario") {
+      if (req.method === "POST") {
+        const body = (await readBody(req)).toString("utf8");
+        try {
+          playlist = parseScenarioList(JSON.parse(body || "{}").scenario);
+        } catch (error) {
+          sendJson(res, 400, { error: error.message });
+          return;
+        }
+        playIndex = 0;
+      }
+      sendJson(res, 200, { scenario: playlist, played: playIndex });
+      return;
+    }
+
+    if (req.method === "POST" && url.pathname === "/gradio_api/upload") {
+      const uploaded = parseMultipartFiles(
+        await readBody(req),
+        req.headers["content-type"],
+      );
+      if (!uploaded.length) {
+        sendJson(res, 422, { detail: "No files in upload" });
+        return;
+      }
+      sendJson(
+        res,
+        200,
+        uploaded.map((file) => storeFile(file.name, file.mimeType, file.bytes)),
+      );
+      return;
+    }
+
+    if (req.method === "POST" && url.pathname === "/gradio_api/call/predict") {
+      const name = nextScenario();
+      const scenario = SCENARIOS[name];
+      log(`  scenario: ${name}`);
+      if (scenario.status) {
+        sendJson(res, scenario.status, { detail: "Simulated server error" });
+        return;
+      }
+
+      let body;
+      try {
+        body = JSON.parse((await readBody(req)).toString("utf8"));
+      } catch {
+        sendJson(res, 422, { detail: "Body is not JSON" });
+        return;
+      }
+      const inputPath = readInput(Array.isArray(body.data) && body.data[0]);
+      if (!inputPath) {
+        sendJson(res, 422, { detail: "Expected an uploaded file or data URL" });
+        return;
+      }
+
+      const eventId = `mock-event-${nextId++}`;
+      events.set(eventId, { scenario, inputPath, origin });
+      sendJson(res, 200, { event_id: eventId });
+      return;
+    }
+
+    const streamMatch = /^\/gradio_api\/call\/predict\/([^/]+)$/.exec(
+      url.pathname,
+    );
+    if (req.method === "GET" && streamMatch) {
+      await streamResult(req, res, streamMatch[1]);
+      return;
+    }
+
+    if (req.method === "GET" && url.pathname.startsWith("/gradio_api/file=")) {
+      const file = files.get(
+        decodeURIComponent(url.pathname.slice("/gradio_api/file=".length)),
+      );
+      if (!file) {
+        sendJson(res, 404, { detail: "File not found" });
+        return;
+      }
+      res.writeHead(200, {
+        "Content-Type": file.mimeType,
+        "Content-Length": file.bytes.length,
+      });
+      res.end(file.bytes);
+      return;
+    }
+
+    sendJson(res, 404, { detail: "Not Found" });
+  };
+
+  return http.createServer((req, res) => {
+    // Expo web runs on another origin
+    res.setHeader("Access-Control-Allow-Origin", "*");
+    res.setHeader("Access-Control-Allow-Headers", "*");
+    // One request per connection: streams end early when the client stops
+    // reading, and a pooled socket the server has closed fails the next call
+    res.setHeader("Connection", "close");
+    if (req.method === "OPTIONS") {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    handle(req, res).catch((error) => {
+      console.error(error);
+      if (!res.headersSent) sendJson(res, 500, { detail: String(error) });
+      else res.end();
+    });
+  });
+}
+
+module.exports = { createMockServer, SCENARIOS };
+
+if (require.main === module) {
+  const args = parseArgs(process.argv.slice(2));
+  const port = Number(args.port || process.env.PORT || 7860);
+  const scenarios = parseScenarioList(args.scenario || "positive");
+
+  createMockServer({ scenarios }).listen(port, () => {
+    console.log(`Mock Gradio server on http://localhost:${port}`);
+    console.log(`Scenarios: ${scenarios.join(", ")}`);
+  });
+}
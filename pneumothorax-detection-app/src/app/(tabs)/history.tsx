@@ -11,31 +11,71 @@ import {
   FlatList,
   RefreshControl,
   Alert,
+  ActivityIndicator,
 } from "react-native";
 import { useRouter } from "expo-router";
 import { Ionicons } from "@expo/vector-icons";
 import { useTheme } from "../../context/ThemeContext";
 import { useAnalysis } from "../../context/AnalysisContext";
+import { useAnalysisQueue } from "../../context/AnalysisQueueContext";
 import HistoryCard from "../../components/HistoryCard";
+import PendingJobCard from "../../components/PendingJobCard";
+import { formatDuration } from "../../services/stageTimings";
 import { HistoryItem, DetectionResult } from "../../types";
 
 export default function HistoryScreen() {
   const { theme } = useTheme();
-  const { history, isLoading, removeFromHistory, loadHistory } = useAnalysis();
+  const {
+    history,
+    historyStats,
+    hasMoreHistory,
+    isLoading,
+    removeFromHistory,
+    loadHistory,
+    loadMoreHistory,
+  } = useAnalysis();
+  const { jobs, isOnline, retryJob, cancelJob } = useAnalysisQueue();
   const router = useRouter();
 
   // Handle item press - navigate to result view
   const handleItemPress = useCallback(
     (item: HistoryItem) => {
+      if (item.status === "error") {
+        router.push({
+          pathname: "/failure",
+          params: {
+            imageUri: item.imageUri,
+            error: JSON.stringify(
+              item.error ?? {
+                kind: "model_error",
+                message: "Analysis failed.",
+              },
+            ),
+            saved: "true",
+            ...(item.dicom ? { dicom: JSON.stringify(item.dicom) } : {}),
+          },
+        });
+        return;
+      }
+
       // Convert HistoryItem back to DetectionResult for result screen
       const result: DetectionResult = {
         id: item.id,
         imageUri: item.imageUri,
         timestamp: new Date(item.timestamp),
-        status: item.detectionsCount > 0 ? "detected" : "not_detected",
+        status:
+          item.status ??
+          (item.detectionsCount > 0 ? "detected" : "not_detected"),
         boundingBoxes: item.boundingBoxes,
         averageConfidence: item.averageConfidence,
         processingTime: 0,
+        report: item.report,
+        preprocessed: item.preprocessed,
+        dicom: item.dicom,
+        notes: item.notes,
+        ensemble: item.ensemble,
+        provenance: item.provenance,
+        timings: item.timings,
       };
 
       router.push({
@@ -74,6 +114,10 @@ export default function HistoryScreen() {
     [removeFromHistory],
   );
 
+  // Entries analyzed from the same image (older ones from before hashing have
+  // none), counted over the whole history rather than the loaded pages
+  const { total, duplicateHashes, timingSummary } = historyStats;
+
   // Render individual history item
   const renderItem = useCallback(
     ({ item }: { item: HistoryItem }) => (
@@ -82,14 +126,69 @@ export default function HistoryScreen() {
         thumbnailUri={item.thumbnailUri}
         date={new Date(item.timestamp)}
         detectionsCount={item.detectionsCount}
+        status={item.status}
         onPress={() => handleItemPress(item)}
         onDelete={() => handleDelete(item)}
         apiResponse={item.apiResponse}
+        isDuplicate={duplicateHashes.has(item.preprocessed?.contentHash ?? "")}
       />
     ),
-    [handleItemPress, handleDelete],
+    [handleItemPress, handleDelete, duplicateHashes],
   );
 
+  // Render queued analyses above the history list
+  const renderPendingSection = () => {
+    if (jobs.length === 0) return null;
+
+    return (
+      <View accessibilityLabel={`${jobs.length} pending analyses`}>
+        <View style={styles.sectionHeader}>
+          <Text
+            style={[styles.sectionTitle, { color: theme.colors.textSecondary }]}
+            accessibilityRole="header"
+          >
+            Pending
+          </Text>
+          {!isOnline && (
+            <View style={styles.offlineBadge}>
+              <Ionicons
+                name="cloud-offline-outline"
+                size={14}
+                color={theme.colors.warning}
+              />
+              <Text
+                style={[styles.offlineText, { color: theme.colors.warning }]}
+              >
+                Offline
+              </Text>
+            </View>
+          )}
+        </View>
+        {jobs.map((job) => (
+          <PendingJobCard
+            key={job.id}
+            job={job}
+            isOnline={isOnline}
+            onRetry={() => retryJob(job.id)}
+            onCancel={() => cancelJob(job.id)}
+          />
+        ))}
+        {history.length > 0 && (
+          <Text
+            style={[
+              styles.sectionTitle,
+              styles.completedTitle,
+              { color: theme.colors.textSecondary },
+            ]}
+            accessibilityRole="header"
+          >
+            Completed
+          </Text>
+        )}
+      </View>
+    );
+  };
+
   // Render empty state
   const renderEmptyState = () => (
     <View
@@ -113,6 +212,16 @@ export default function HistoryScreen() {
     </View>
   );
 
+  // Shown while older pages remain to be loaded
+  const renderFooter = () =>
+    hasMoreHistory ? (
+      <ActivityIndicator
+        style={styles.footer}
+        color={theme.colors.primary}
+        accessibilityLabel="Loading older analyses"
+      />
+    ) : null;
+
   // Key extractor for FlatList
   const keyExtractor = useCallback((item: HistoryItem) => item.id, []);
 
@@ -126,12 +235,23 @@ export default function HistoryScreen() {
         <Text style={[styles.title, { color: theme.colors.text }]}>
           Analysis History
         </Text>
-        {history.length > 0 && (
+        {total > 0 && (
           <Text
             style={[styles.count, { color: theme.colors.textSecondary }]}
-            accessibilityLabel={`${history.length} ${history.length !== 1 ? "analyses" : "analysis"} in history`}
+            accessibilityLabel={`${total} ${total !== 1 ? "analyses" : "analysis"} in history`}
+          >
+            {total} analysis{total !== 1 ? "es" : ""}
+          </Text>
+        )}
+        {timingSummary && (
+          <Text
+            style={[styles.timing, { color: theme.colors.textSecondary }]}
+            accessibilityLabel={`Median time over ${timingSummary.count} timed analyses: network ${formatDuration(timingSummary.networkMs)}, queue ${formatDuration(timingSummary.queueMs)}, model ${formatDuration(timingSummary.inferenceMs)}, device ${formatDuration(timingSummary.deviceMs)}`}
           >
-            {history.length} analysis{history.length !== 1 ? "es" : ""}
+            Typical: network {formatDuration(timingSummary.networkMs)} • queue{" "}
+            {formatDuration(timingSummary.queueMs)} • model{" "}
+            {formatDuration(timingSummary.inferenceMs)} • device{" "}
+            {formatDuration(timingSummary.deviceMs)}
           </Text>
         )}
       </View>
@@ -143,9 +263,13 @@ export default function HistoryScreen() {
         keyExtractor={keyExtractor}
         contentContainerStyle={[
           styles.listContent,
-          history.length === 0 && styles.emptyListContent,
+          history.length === 0 && jobs.length === 0 && styles.emptyListContent,
         ]}
-        ListEmptyComponent={renderEmptyState}
+        ListHeaderComponent={renderPendingSection}
+        ListEmptyComponent={jobs.length === 0 ? renderEmptyState : null}
+        ListFooterComponent={renderFooter}
+        onEndReached={loadMoreHistory}
+        onEndReachedThreshold={0.5}
         refreshControl={
           <RefreshControl
             refreshing={isLoading}
@@ -156,7 +280,7 @@ export default function HistoryScreen() {
           />
         }
         showsVerticalScrollIndicator={false}
-        accessibilityLabel={`History list with ${history.length} items`}
+        accessibilityLabel={`History list with ${total} items`}
       />
     </View>
   );
@@ -179,9 +303,42 @@ const styles = StyleSheet.create({
     fontSize: 14,
     marginTop: 4,
   },
+  timing: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  sectionHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 16,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: "600",
+    textTransform: "uppercase",
+    letterSpacing: 0.5,
+    marginVertical: 8,
+  },
+  completedTitle: {
+    paddingHorizontal: 16,
+    marginTop: 16,
+  },
+  offlineBadge: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+  },
+  offlineText: {
+    fontSize: 12,
+    fontWeight: "600",
+  },
   listContent: {
     paddingVertical: 8,
   },
+  footer: {
+    paddingVertical: 16,
+  },
   emptyListContent: {
     flex: 1,
     justifyContent: "center",
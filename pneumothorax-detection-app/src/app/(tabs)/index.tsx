@@ -1,13 +1,27 @@
-import { View, Text, StyleSheet, Image, ScrollView } from "react-native";
+import {
+  View,
+  Text,
+  StyleSheet,
+  Image,
+  ScrollView,
+  Pressable,
+  Alert,
+} from "react-native";
 import { useRouter } from "expo-router";
 import * as ImagePicker from "expo-image-picker";
+import * as DocumentPicker from "expo-document-picker";
 import { Ionicons } from "@expo/vector-icons";
 import { useTheme } from "../../context/ThemeContext";
+import { useBackend } from "../../context/BackendContext";
 import Button from "../../components/ui/Button";
+import { DEMO_SAMPLES, getDemoSampleImage } from "../../services/demoSamples";
+
+const MAX_BATCH_SIZE = 50;
 
 export default function HomeScreen() {
   const { theme } = useTheme();
   const router = useRouter();
+  const { demoMode } = useBackend();
 
   const handleUploadImage = async () => {
     // Request permission to access media library
@@ -18,13 +32,26 @@ export default function HomeScreen() {
       return;
     }
 
-    // Open image picker
+    // Open image picker; picking several images starts a batch analysis
     const result = await ImagePicker.launchImageLibraryAsync({
       mediaTypes: ["images"],
       allowsEditing: false,
+      allowsMultipleSelection: true,
+      selectionLimit: MAX_BATCH_SIZE,
+      orderedSelection: true,
       quality: 1,
     });
 
+    if (!result.canceled && result.assets.length > 1) {
+      router.push({
+        pathname: "/batch",
+        params: {
+          imageUris: JSON.stringify(result.assets.map((asset) => asset.uri)),
+        },
+      });
+      return;
+    }
+
     if (!result.canceled && result.assets[0]) {
       router.push({
         pathname: "/preview",
@@ -36,6 +63,37 @@ export default function HomeScreen() {
     }
   };
 
+  const handleImportDicom = async () => {
+    // DICOM has no reliable MIME type across platforms, so accept any file
+    const result = await DocumentPicker.getDocumentAsync({
+      type: "*/*",
+      copyToCacheDirectory: true,
+    });
+
+    if (!result.canceled && result.assets[0]) {
+      router.push({
+        pathname: "/dicom",
+        params: {
+          fileUri: result.assets[0].uri,
+          fileName: result.assets[0].name,
+        },
+      });
+    }
+  };
+
+  const handleOpenSample = async (sampleId: string) => {
+    try {
+      const imageUri = await getDemoSampleImage(sampleId);
+      router.push({
+        pathname: "/preview",
+        params: { imageUri, source: "sample" },
+      });
+    } catch (error) {
+      console.error("Failed to open demo sample:", error);
+      Alert.alert("Error", "Could not open the sample image.");
+    }
+  };
+
   const handleScanImage = () => {
     router.push("/scan");
   };
@@ -100,7 +158,7 @@ export default function HomeScreen() {
           icon="cloud-upload-outline"
           style={styles.primaryButton}
           testID="upload-button"
-          accessibilityHint="Opens your photo gallery to select an X-ray or CT scan image"
+          accessibilityHint="Opens your photo gallery to select one or more X-ray or CT scan images"
         />
         <Button
           title="Scan with Camera"
@@ -111,8 +169,79 @@ export default function HomeScreen() {
           testID="scan-button"
           accessibilityHint="Opens the camera to capture an X-ray or CT scan image"
         />
+        <Button
+          title="Import DICOM"
+          onPress={handleImportDicom}
+          variant="outline"
+          icon="document-outline"
+          style={styles.secondaryButton}
+          testID="dicom-button"
+          accessibilityHint="Opens a file picker to import a DICOM (.dcm) file"
+        />
       </View>
 
+      {/* Demo Sample Cases */}
+      {demoMode && (
+        <View style={styles.sampleSection} accessibilityLabel="Sample cases">
+          <Text
+            style={[styles.sampleHeading, { color: theme.colors.text }]}
+            accessibilityRole="header"
+          >
+            Demo Sample Cases
+          </Text>
+          {DEMO_SAMPLES.map((sample) => (
+            <Pressable
+              key={sample.id}
+              style={[
+                styles.sampleRow,
+                {
+                  backgroundColor: theme.colors.surface,
+                  borderColor: theme.colors.border,
+                },
+              ]}
+              onPress={() => handleOpenSample(sample.id)}
+              accessibilityRole="button"
+              accessibilityLabel={`${sample.title}, ${sample.description}`}
+              accessibilityHint="Opens this sample film for analysis"
+            >
+              <Ionicons
+                name={
+                  sample.expectedVerdict === "positive"
+                    ? "alert-circle-outline"
+                    : "checkmark-circle-outline"
+                }
+                size={24}
+                color={
+                  sample.expectedVerdict === "positive"
+                    ? theme.colors.error
+                    : theme.colors.success
+                }
+              />
+              <View style={styles.sampleInfo}>
+                <Text
+                  style={[styles.sampleTitle, { color: theme.colors.text }]}
+                >
+                  {sample.title}
+                </Text>
+                <Text
+                  style={[
+                    styles.sampleDescription,
+                    { color: theme.colors.textSecondary },
+                  ]}
+                >
+                  {sample.description}
+                </Text>
+              </View>
+              <Ionicons
+                name="chevron-forward"
+                size={20}
+                color={theme.colors.textSecondary}
+              />
+            </Pressable>
+          ))}
+        </View>
+      )}
+
       {/* Info Section */}
       <View style={styles.infoSection} accessibilityLabel="App features">
         <View style={styles.infoItem} accessibilityLabel="Secure and private">
@@ -221,6 +350,35 @@ const styles = StyleSheet.create({
   secondaryButton: {
     width: "100%",
   },
+  sampleSection: {
+    width: "100%",
+    gap: 8,
+    marginBottom: 32,
+  },
+  sampleHeading: {
+    fontSize: 18,
+    fontWeight: "600",
+    marginBottom: 4,
+  },
+  sampleRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  sampleInfo: {
+    flex: 1,
+  },
+  sampleTitle: {
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  sampleDescription: {
+    fontSize: 13,
+    marginTop: 2,
+  },
   infoSection: {
     flexDirection: "row",
     justifyContent: "space-around",
@@ -1,27 +1,161 @@
-import React from "react";
-import { View, Text, StyleSheet, ScrollView, Switch } from "react-native";
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  Switch,
+  Pressable,
+  TextInput,
+} from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { useTheme } from "../../context/ThemeContext";
+import { useBackend } from "../../context/BackendContext";
 import Card from "../../components/ui/Card";
-import Constants from "expo-constants";
+import { Ionicons } from "@expo/vector-icons";
+import {
+  BACKEND_TYPE_LABELS,
+  SELECTABLE_BACKEND_TYPES,
+} from "../../services/backends";
+import { ENSEMBLE_STRATEGY_LABELS } from "../../services/ensemble";
+import { APP_VERSION, MEDICAL_DISCLAIMER } from "../../constants";
+import { BackendConfig, BackendType, EnsembleStrategy } from "../../types";
 
-const APP_VERSION = Constants.expoConfig?.version || "1.0.0";
+// Ensemble models must be remote; the mock would only echo the image
+const ADDITIONAL_BACKEND_TYPES: BackendType[] = ["gradio", "rest"];
 
-const MEDICAL_DISCLAIMER = `This application is intended for educational and informational purposes only. It is NOT a substitute for professional medical advice, diagnosis, or treatment.
+interface AdditionalModelRowProps {
+  index: number;
+  config: BackendConfig;
+  onChange: (config: BackendConfig) => void;
+  onRemove: () => void;
+}
 
-The pneumothorax detection feature uses artificial intelligence to analyze chest X-ray and CT scan images. While the technology aims to assist in identifying potential pneumothorax conditions, it should NOT be used as the sole basis for medical decisions.
+/**
+ * Editable entry in the ensemble model list
+ */
+function AdditionalModelRow({
+  index,
+  config,
+  onChange,
+  onRemove,
+}: AdditionalModelRowProps) {
+  const { theme } = useTheme();
+  const [urlDraft, setUrlDraft] = useState(config.baseUrl);
 
-Important considerations:
-• Always consult a qualified healthcare professional for proper diagnosis
-• AI-based detection may produce false positives or false negatives
-• Results should be verified by a licensed radiologist or physician
-• Do not delay seeking medical attention based on app results
-• This app is not FDA-approved for clinical diagnosis
+  const handleUrlSubmit = () => {
+    const baseUrl = urlDraft.trim();
+    if (baseUrl !== config.baseUrl) {
+      onChange({ ...config, baseUrl });
+    }
+  };
 
-By using this application, you acknowledge that you understand these limitations and agree to use the results responsibly.`;
+  return (
+    <View style={styles.modelRow}>
+      <View style={styles.modelHeader}>
+        <Text style={[styles.settingLabel, { color: theme.colors.text }]}>
+          Model {index + 2}
+        </Text>
+        <Pressable
+          onPress={onRemove}
+          accessibilityRole="button"
+          accessibilityLabel={`Remove model ${index + 2}`}
+        >
+          <Ionicons name="trash-outline" size={20} color={theme.colors.error} />
+        </Pressable>
+      </View>
+      <View
+        style={[
+          styles.segmentContainer,
+          { backgroundColor: theme.colors.surfaceVariant },
+        ]}
+        accessibilityRole="radiogroup"
+      >
+        {ADDITIONAL_BACKEND_TYPES.map((type) => {
+          const selected = config.type === type;
+          return (
+            <Pressable
+              key={type}
+              style={[
+                styles.segment,
+                selected && { backgroundColor: theme.colors.primary },
+              ]}
+              onPress={() => onChange({ ...config, type })}
+              accessibilityRole="radio"
+              accessibilityState={{ selected }}
+              accessibilityLabel={BACKEND_TYPE_LABELS[type]}
+            >
+              <Text
+                style={[
+                  styles.segmentText,
+                  { color: selected ? "#fff" : theme.colors.text },
+                ]}
+              >
+                {BACKEND_TYPE_LABELS[type]}
+              </Text>
+            </Pressable>
+          );
+        })}
+      </View>
+      <TextInput
+        value={urlDraft}
+        onChangeText={setUrlDraft}
+        onBlur={handleUrlSubmit}
+        onSubmitEditing={handleUrlSubmit}
+        autoCapitalize="none"
+        autoCorrect={false}
+        keyboardType="url"
+        placeholder="https://"
+        placeholderTextColor={theme.colors.textSecondary}
+        style={[
+          styles.textInput,
+          {
+            color: theme.colors.text,
+            borderColor: theme.colors.border,
+          },
+        ]}
+        accessibilityLabel={`Model ${index + 2} endpoint URL`}
+      />
+    </View>
+  );
+}
 
 export default function SettingsScreen() {
   const { theme, themeMode, toggleTheme } = useTheme();
+  const {
+    backendConfig,
+    setBackendConfig,
+    resetBackendConfig,
+    ensembleConfig,
+    setEnsembleConfig,
+    demoMode,
+    setDemoMode,
+  } = useBackend();
+  const [endpointDraft, setEndpointDraft] = useState(backendConfig.baseUrl);
+
+  useEffect(() => {
+    setEndpointDraft(backendConfig.baseUrl);
+  }, [backendConfig.baseUrl]);
+
+  const handleBackendTypeChange = (type: BackendType) => {
+    setBackendConfig({ ...backendConfig, type });
+  };
+
+  const updateAdditionalBackends = (
+    update: (configs: BackendConfig[]) => BackendConfig[],
+  ) => {
+    setEnsembleConfig({
+      ...ensembleConfig,
+      additionalBackends: update(ensembleConfig.additionalBackends),
+    });
+  };
+
+  const handleEndpointSubmit = () => {
+    const baseUrl = endpointDraft.trim();
+    if (baseUrl !== backendConfig.baseUrl) {
+      setBackendConfig({ ...backendConfig, baseUrl });
+    }
+  };
 
   return (
     <SafeAreaView
@@ -76,6 +210,249 @@ export default function SettingsScreen() {
           </View>
         </Card>
 
+        {/* Demo Mode Section */}
+        <Card style={styles.card} variant="default">
+          <View style={styles.settingRow}>
+            <View style={styles.settingInfo}>
+              <Text style={[styles.settingLabel, { color: theme.colors.text }]}>
+                Demo Mode
+              </Text>
+              <Text
+                style={[
+                  styles.settingDescription,
+                  { color: theme.colors.textSecondary },
+                ]}
+              >
+                Analyze bundled sample films with canned results. Works without
+                a network; the backend below is not used.
+              </Text>
+            </View>
+            <Switch
+              value={demoMode}
+              onValueChange={setDemoMode}
+              trackColor={{
+                false: theme.colors.border,
+                true: theme.colors.primaryLight,
+              }}
+              thumbColor={
+                demoMode ? theme.colors.primary : theme.colors.surface
+              }
+              ios_backgroundColor={theme.colors.border}
+              accessibilityLabel={`Demo mode ${demoMode ? "enabled" : "disabled"}`}
+              accessibilityHint="Double tap to toggle demo mode"
+              accessibilityRole="switch"
+            />
+          </View>
+        </Card>
+
+        {/* Detection Backend Section */}
+        <Text
+          style={[styles.sectionTitle, { color: theme.colors.textSecondary }]}
+          accessibilityRole="header"
+        >
+          Detection Backend
+        </Text>
+        <Card style={styles.card} variant="default">
+          <View
+            style={[
+              styles.segmentContainer,
+              { backgroundColor: theme.colors.surfaceVariant },
+            ]}
+            accessibilityRole="radiogroup"
+          >
+            {SELECTABLE_BACKEND_TYPES.map((type) => {
+              const selected = backendConfig.type === type;
+              return (
+                <Pressable
+                  key={type}
+                  style={[
+                    styles.segment,
+                    selected && { backgroundColor: theme.colors.primary },
+                  ]}
+                  onPress={() => handleBackendTypeChange(type)}
+                  accessibilityRole="radio"
+                  accessibilityState={{ selected }}
+                  accessibilityLabel={BACKEND_TYPE_LABELS[type]}
+                >
+                  <Text
+                    style={[
+                      styles.segmentText,
+                      { color: selected ? "#fff" : theme.colors.text },
+                    ]}
+                  >
+                    {BACKEND_TYPE_LABELS[type]}
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </View>
+
+          {backendConfig.type !== "mock" && (
+            <>
+              <Text
+                style={[
+                  styles.fieldLabel,
+                  { color: theme.colors.textSecondary },
+                ]}
+              >
+                Endpoint URL
+              </Text>
+              <TextInput
+                value={endpointDraft}
+                onChangeText={setEndpointDraft}
+                onBlur={handleEndpointSubmit}
+                onSubmitEditing={handleEndpointSubmit}
+                autoCapitalize="none"
+                autoCorrect={false}
+                keyboardType="url"
+                placeholder="https://"
+                placeholderTextColor={theme.colors.textSecondary}
+                style={[
+                  styles.textInput,
+                  {
+                    color: theme.colors.text,
+                    borderColor: theme.colors.border,
+                  },
+                ]}
+                accessibilityLabel="Detection endpoint URL"
+              />
+            </>
+          )}
+
+          <Pressable
+            onPress={resetBackendConfig}
+            style={styles.resetLink}
+            accessibilityRole="button"
+            accessibilityHint="Restores the default Hugging Face Space"
+          >
+            <Text style={[styles.resetText, { color: theme.colors.primary }]}>
+              Reset to default
+            </Text>
+          </Pressable>
+        </Card>
+
+        {/* Ensemble Section */}
+        <Text
+          style={[styles.sectionTitle, { color: theme.colors.textSecondary }]}
+          accessibilityRole="header"
+        >
+          Second Opinion
+        </Text>
+        <Card style={styles.card} variant="default">
+          <View style={styles.settingRow}>
+            <View style={styles.settingInfo}>
+              <Text style={[styles.settingLabel, { color: theme.colors.text }]}>
+                Ensemble Analysis
+              </Text>
+              <Text
+                style={[
+                  styles.settingDescription,
+                  { color: theme.colors.textSecondary },
+                ]}
+              >
+                Also send each image to the models below and combine the
+                verdicts
+              </Text>
+            </View>
+            <Switch
+              value={ensembleConfig.enabled}
+              onValueChange={(enabled) =>
+                setEnsembleConfig({ ...ensembleConfig, enabled })
+              }
+              trackColor={{
+                false: theme.colors.border,
+                true: theme.colors.primaryLight,
+              }}
+              thumbColor={
+                ensembleConfig.enabled
+                  ? theme.colors.primary
+                  : theme.colors.surface
+              }
+              ios_backgroundColor={theme.colors.border}
+              accessibilityLabel={`Ensemble analysis ${ensembleConfig.enabled ? "enabled" : "disabled"}`}
+              accessibilityRole="switch"
+            />
+          </View>
+
+          {ensembleConfig.enabled && (
+            <>
+              <Text
+                style={[
+                  styles.fieldLabel,
+                  { color: theme.colors.textSecondary },
+                ]}
+              >
+                Combine by
+              </Text>
+              <View accessibilityRole="radiogroup">
+                {(
+                  Object.keys(ENSEMBLE_STRATEGY_LABELS) as EnsembleStrategy[]
+                ).map((strategy) => {
+                  const selected = ensembleConfig.strategy === strategy;
+                  return (
+                    <Pressable
+                      key={strategy}
+                      style={styles.radioRow}
+                      onPress={() =>
+                        setEnsembleConfig({ ...ensembleConfig, strategy })
+                      }
+                      accessibilityRole="radio"
+                      accessibilityState={{ selected }}
+                    >
+                      <Ionicons
+                        name={selected ? "radio-button-on" : "radio-button-off"}
+                        size={20}
+                        color={theme.colors.primary}
+                      />
+                      <Text
+                        style={[styles.radioText, { color: theme.colors.text }]}
+                      >
+                        {ENSEMBLE_STRATEGY_LABELS[strategy]}
+                      </Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+
+              {ensembleConfig.additionalBackends.map((config, index) => (
+                <AdditionalModelRow
+                  // Remount when an entry changes so the URL draft follows it
+                  key={`${index}:${config.type}:${config.baseUrl}`}
+                  index={index}
+                  config={config}
+                  onChange={(updated) =>
+                    updateAdditionalBackends((configs) =>
+                      configs.map((c, i) => (i === index ? updated : c)),
+                    )
+                  }
+                  onRemove={() =>
+                    updateAdditionalBackends((configs) =>
+                      configs.filter((_, i) => i !== index),
+                    )
+                  }
+                />
+              ))}
+
+              <Pressable
+                onPress={() =>
+                  updateAdditionalBackends((configs) => [
+                    ...configs,
+                    { type: "gradio", baseUrl: "" },
+                  ])
+                }
+                style={styles.resetLink}
+                accessibilityRole="button"
+              >
+                <Text
+                  style={[styles.resetText, { color: theme.colors.primary }]}
+                >
+                  Add model
+                </Text>
+              </Pressable>
+            </>
+          )}
+        </Card>
+
         {/* Medical Disclaimer Section */}
         <Text
           style={[styles.sectionTitle, { color: theme.colors.textSecondary }]}
@@ -186,6 +563,60 @@ const styles = StyleSheet.create({
     fontSize: 14,
     marginTop: 4,
   },
+  segmentContainer: {
+    flexDirection: "row",
+    borderRadius: 8,
+    padding: 4,
+  },
+  segment: {
+    flex: 1,
+    paddingVertical: 8,
+    paddingHorizontal: 4,
+    borderRadius: 6,
+    alignItems: "center",
+  },
+  segmentText: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  fieldLabel: {
+    fontSize: 14,
+    marginTop: 16,
+  },
+  textInput: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    marginTop: 8,
+  },
+  radioRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 6,
+    gap: 8,
+  },
+  radioText: {
+    fontSize: 14,
+  },
+  modelRow: {
+    marginTop: 16,
+  },
+  modelHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 8,
+  },
+  resetLink: {
+    alignSelf: "flex-start",
+    marginTop: 12,
+  },
+  resetText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
   disclaimerText: {
     fontSize: 14,
     lineHeight: 22,
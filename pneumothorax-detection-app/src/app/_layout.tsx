@@ -4,6 +4,8 @@ import { GestureHandlerRootView } from "react-native-gesture-handler";
 import { StyleSheet } from "react-native";
 import { ThemeProvider, useTheme } from "../context/ThemeContext";
 import { AnalysisProvider } from "../context/AnalysisContext";
+import { BackendProvider } from "../context/BackendContext";
+import { AnalysisQueueProvider } from "../context/AnalysisQueueContext";
 
 function RootNavigator() {
   const { theme, themeMode } = useTheme();
@@ -36,6 +38,22 @@ function RootNavigator() {
             animation: "slide_from_bottom",
           }}
         />
+        <Stack.Screen
+          name="perspective"
+          options={{
+            title: "Straighten Image",
+            presentation: "card",
+            headerShown: false,
+          }}
+        />
+        <Stack.Screen
+          name="dicom"
+          options={{
+            title: "Import DICOM",
+            presentation: "card",
+            headerShown: false,
+          }}
+        />
         <Stack.Screen
           name="preview"
           options={{
@@ -50,10 +68,25 @@ function RootNavigator() {
             title: "Analyzing",
             presentation: "card",
             headerShown: false,
-            gestureEnabled: false,
             animation: "fade",
           }}
         />
+        <Stack.Screen
+          name="batch"
+          options={{
+            title: "Batch Analysis",
+            presentation: "card",
+            headerShown: false,
+          }}
+        />
+        <Stack.Screen
+          name="failure"
+          options={{
+            title: "Analysis Failed",
+            presentation: "card",
+            headerShown: false,
+          }}
+        />
         <Stack.Screen
           name="result"
           options={{
@@ -70,11 +103,15 @@ function RootNavigator() {
 export default function RootLayout() {
   return (
     <ThemeProvider>
-      <AnalysisProvider>
-        <GestureHandlerRootView style={styles.container}>
-          <RootNavigator />
-        </GestureHandlerRootView>
-      </AnalysisProvider>
+      <BackendProvider>
+        <AnalysisProvider>
+          <AnalysisQueueProvider>
+            <GestureHandlerRootView style={styles.container}>
+              <RootNavigator />
+            </GestureHandlerRootView>
+          </AnalysisQueueProvider>
+        </AnalysisProvider>
+      </BackendProvider>
     </ThemeProvider>
   );
 }
@@ -19,16 +19,66 @@ import { useLocalSearchParams, useRouter } from "expo-router";
 import { Ionicons } from "@expo/vector-icons";
 import { useTheme } from "../context/ThemeContext";
 import { useAnalysis } from "../context/AnalysisContext";
+import { useBackend } from "../context/BackendContext";
 import { analyzeImage } from "../services/pneumoDetection";
+import { toAnalysisError } from "../services/analysisErrors";
+import { deletePreprocessedImage } from "../services/preprocessing";
+import { deleteResultImages } from "../services/resultImages";
 import LoadingSpinner from "../components/ui/LoadingSpinner";
+import { AnalysisProgress } from "../types";
+import { isAbortError } from "../utils";
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get("window");
 
+/**
+ * Human-readable status line for the current analysis stage
+ */
+function describeProgress(progress: AnalysisProgress | null): string {
+  if (!progress) return "Please wait while we process your image";
+
+  switch (progress.stage) {
+    case "preprocessing":
+      return "Preparing image...";
+    case "uploading":
+      return "Uploading image...";
+    case "queued": {
+      if (progress.position === null) return "Waiting in queue...";
+      const size = progress.queueSize ? ` of ${progress.queueSize}` : "";
+      const eta = progress.eta ? ` • ~${Math.ceil(progress.eta)}s` : "";
+      return `Queued #${progress.position}${size}${eta}`;
+    }
+    case "processing":
+      if (progress.message) return progress.message;
+      return progress.progress !== null
+        ? `Processing... ${Math.round(progress.progress * 100)}%`
+        : "Processing...";
+    case "postprocessing":
+      return "Reading results...";
+    case "waking": {
+      const elapsed = Math.round(progress.elapsedMs / 1000);
+      return `Model server is starting up... ${elapsed}s`;
+    }
+    case "retrying":
+      return `Retrying in ${Math.ceil(progress.delayMs / 1000)}s...`;
+  }
+}
+
 export default function AnalyzingScreen() {
   const { theme } = useTheme();
   const { addToHistory } = useAnalysis();
+  const { backend, ensemble } = useBackend();
   const router = useRouter();
-  const params = useLocalSearchParams<{ imageUri: string }>();
+  const params = useLocalSearchParams<{
+    imageUri: string;
+    dicom?: string;
+    skipCache?: string;
+  }>();
+  const [progress, setProgress] = useState<AnalysisProgress | null>(null);
+  const [retryInfo, setRetryInfo] = useState<Extract<
+    AnalysisProgress,
+    { stage: "retrying" }
+  > | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   // Animation values
   const pulseAnim = useRef(new Animated.Value(1)).current;
@@ -66,6 +116,8 @@ export default function AnalyzingScreen() {
 
     return () => {
       pulseAnimation.stop();
+      // Leaving the screen by any route cancels the in-flight requests
+      abortControllerRef.current?.abort();
     };
   }, []);
 
@@ -75,11 +127,42 @@ export default function AnalyzingScreen() {
       return;
     }
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
     try {
       // Call pneumothorax detection API
-      const { result, apiResponse } = await analyzeImage(params.imageUri);
+      const { result, apiResponse, fromCache } = await analyzeImage(
+        params.imageUri,
+        {
+          backend,
+          ensemble,
+          onProgress: (update) => {
+            setProgress(update);
+            if (update.stage === "retrying") setRetryInfo(update);
+            // The request went through; the retry note no longer applies
+            if (update.stage === "postprocessing") setRetryInfo(null);
+          },
+          signal: controller.signal,
+          skipCache: params.skipCache === "true",
+        },
+      );
+      if (controller.signal.aborted) {
+        // Cancelled too late to stop it; nothing will save this result.
+        // A cached result's files belong to its history entry.
+        if (!fromCache) {
+          await deleteResultImages(result.id);
+          if (result.preprocessed) {
+            await deletePreprocessedImage(result.preprocessed.uri);
+          }
+        }
+        return;
+      }
+      if (params.dicom) {
+        result.dicom = JSON.parse(params.dicom);
+      }
 
-      // Save to history (Requirement 7.6)
+      // Save to history (Requirement 7.6), a no-op for cached results
       await addToHistory(result, apiResponse);
 
       // Navigate to results on completion (Requirement 4.5)
@@ -89,15 +172,33 @@ export default function AnalyzingScreen() {
           imageUri: params.imageUri,
           results: JSON.stringify(result),
           apiResponse: JSON.stringify(apiResponse),
+          ...(fromCache ? { cached: "true" } : {}),
+          ...(params.dicom ? { dicom: params.dicom } : {}),
         },
       });
     } catch (error) {
+      // Cancelled analyses are discarded; handleCancel already navigated
+      if (isAbortError(error)) return;
       console.error("Analysis failed:", error);
-      // Navigate back on error
-      router.back();
+
+      // Failures go to the failure screen and stay out of history
+      router.replace({
+        pathname: "/failure",
+        params: {
+          imageUri: params.imageUri,
+          error: JSON.stringify(toAnalysisError(error).toFailure()),
+          ...(params.dicom ? { dicom: params.dicom } : {}),
+        },
+      });
     }
   };
 
+  // Abort uploads/polling and return to the preview without saving
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+    router.back();
+  };
+
   return (
     <View
       style={[styles.container, { backgroundColor: theme.colors.background }]}
@@ -152,11 +253,36 @@ export default function AnalyzingScreen() {
 
         <Text
           style={[styles.subtitle, { color: "rgba(255, 255, 255, 0.8)" }]}
-          accessibilityLabel="Please wait while we process your image"
+          testID="analysis-status"
+          accessibilityLiveRegion="polite"
         >
-          Please wait while we process your image
+          {describeProgress(progress)}
         </Text>
 
+        {retryInfo && (
+          <Text
+            style={[styles.retryText, { color: "rgba(255, 255, 255, 0.7)" }]}
+            testID="retry-status"
+          >
+            Attempt {retryInfo.attempt} of {retryInfo.maxAttempts} •{" "}
+            {retryInfo.reason}
+          </Text>
+        )}
+
+        {progress?.stage === "processing" && progress.progress !== null && (
+          <View style={styles.progressTrack}>
+            <View
+              style={[
+                styles.progressFill,
+                {
+                  width: `${Math.round(progress.progress * 100)}%`,
+                  backgroundColor: theme.colors.primary,
+                },
+              ]}
+            />
+          </View>
+        )}
+
         {/* Progress dots animation */}
         <View
           style={styles.dotsContainer}
@@ -164,6 +290,18 @@ export default function AnalyzingScreen() {
         >
           <AnimatedDots />
         </View>
+
+        <Pressable
+          style={styles.cancelButton}
+          onPress={handleCancel}
+          testID="cancel-analysis-button"
+          accessibilityRole="button"
+          accessibilityLabel="Cancel analysis"
+          accessibilityHint="Stops the analysis and returns to the image preview"
+        >
+          <Ionicons name="close-circle-outline" size={20} color="#FFFFFF" />
+          <Text style={styles.cancelText}>Cancel</Text>
+        </Pressable>
       </Animated.View>
     </View>
   );
@@ -252,9 +390,41 @@ const styles = StyleSheet.create({
     marginTop: 8,
     textAlign: "center",
   },
+  retryText: {
+    fontSize: 12,
+    marginTop: 6,
+    textAlign: "center",
+  },
+  progressTrack: {
+    width: 200,
+    height: 4,
+    borderRadius: 2,
+    marginTop: 16,
+    overflow: "hidden",
+    backgroundColor: "rgba(255, 255, 255, 0.3)",
+  },
+  progressFill: {
+    height: "100%",
+  },
   dotsContainer: {
     marginTop: 24,
   },
+  cancelButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    marginTop: 32,
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+    borderRadius: 24,
+    borderWidth: 1,
+    borderColor: "rgba(255, 255, 255, 0.6)",
+  },
+  cancelText: {
+    color: "#FFFFFF",
+    fontSize: 16,
+    fontWeight: "600",
+  },
   dots: {
     flexDirection: "row",
     gap: 8,
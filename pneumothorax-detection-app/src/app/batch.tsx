@@ -0,0 +1,513 @@
+/**
+ * Batch Screen
+ * Analyzes several gallery images with bounded concurrency and
+ * summarizes the outcome of each one
+ */
+
+import React, { useEffect, useRef, useState, useCallback } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  Image,
+  Pressable,
+  ActivityIndicator,
+} from "react-native";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import { useTheme } from "../context/ThemeContext";
+import { useAnalysis } from "../context/AnalysisContext";
+import { useBackend } from "../context/BackendContext";
+import { Button, Header } from "../components/ui";
+import { analyzeImage } from "../services/pneumoDetection";
+import { toAnalysisError } from "../services/analysisErrors";
+import { runBatch } from "../services/batchRunner";
+import { BatchItem } from "../types";
+import { isAbortError } from "../utils";
+
+// Keep the shared Space from being flooded by one device
+const BATCH_CONCURRENCY = 2;
+
+export default function BatchScreen() {
+  const { theme } = useTheme();
+  const { addToHistory } = useAnalysis();
+  const { backend, ensemble } = useBackend();
+  const router = useRouter();
+  const params = useLocalSearchParams<{ imageUris: string }>();
+
+  const [items, setItems] = useState<BatchItem[]>(() => {
+    const uris: string[] = params.imageUris ? JSON.parse(params.imageUris) : [];
+    return uris.map((imageUri, index) => ({
+      index,
+      imageUri,
+      state: "pending",
+    }));
+  });
+  const [running, setRunning] = useState(true);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const updateItem = useCallback((index: number, patch: Partial<BatchItem>) => {
+    setItems((current) =>
+      current.map((item) =>
+        item.index === index ? { ...item, ...patch } : item,
+      ),
+    );
+  }, []);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    runBatch(
+      items,
+      async (item) => {
+        updateItem(item.index, { state: "running" });
+        try {
+          const { result, apiResponse, fromCache } = await analyzeImage(
+            item.imageUri,
+            { backend, ensemble, signal: controller.signal },
+          );
+          if (controller.signal.aborted) return;
+          await addToHistory(result, apiResponse);
+          updateItem(item.index, {
+            state: "done",
+            result,
+            apiResponse,
+            fromCache,
+          });
+        } catch (error) {
+          if (isAbortError(error)) {
+            updateItem(item.index, { state: "pending" });
+            throw error;
+          }
+          updateItem(item.index, {
+            state: "failed",
+            error: toAnalysisError(error).toFailure(),
+          });
+        }
+      },
+      { concurrency: BATCH_CONCURRENCY, signal: controller.signal },
+    ).finally(() => setRunning(false));
+
+    return () => {
+      controller.abort();
+    };
+  }, []);
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handleDone = () => {
+    router.replace("/history");
+  };
+
+  const handleRowPress = (item: BatchItem) => {
+    if (item.state === "done" && item.result) {
+      router.push({
+        pathname: "/result",
+        params: {
+          imageUri: item.imageUri,
+          results: JSON.stringify(item.result),
+          apiResponse: JSON.stringify(item.apiResponse),
+        },
+      });
+    } else if (item.state === "failed" && item.error) {
+      router.push({
+        pathname: "/failure",
+        params: {
+          imageUri: item.imageUri,
+          error: JSON.stringify(item.error),
+        },
+      });
+    }
+  };
+
+  const completed = items.filter(
+    (item) => item.state === "done" || item.state === "failed",
+  ).length;
+  const positive = items.filter(
+    (item) => item.result?.status === "detected",
+  ).length;
+  const negative = items.filter(
+    (item) => item.result?.status === "not_detected",
+  ).length;
+  const inconclusive = items.filter(
+    (item) => item.result?.status === "inconclusive",
+  ).length;
+  const failed = items.filter((item) => item.state === "failed").length;
+  const progress = items.length ? completed / items.length : 0;
+
+  const getRowStatus = (
+    item: BatchItem,
+  ): { label: string; color: string; icon: keyof typeof Ionicons.glyphMap } => {
+    if (item.state === "failed") {
+      return {
+        label: "Failed",
+        color: theme.colors.error,
+        icon: "alert-circle",
+      };
+    }
+    if (item.state === "pending") {
+      return {
+        label: running ? "Waiting" : "Not analyzed",
+        color: theme.colors.textSecondary,
+        icon: "time-outline",
+      };
+    }
+    if (item.state === "running" || !item.result) {
+      return {
+        label: "Analyzing",
+        color: theme.colors.primary,
+        icon: "sync-outline",
+      };
+    }
+    switch (item.result.status) {
+      case "detected":
+        return {
+          label: "Positive",
+          color: theme.colors.warning,
+          icon: "warning",
+        };
+      case "not_detected":
+        return {
+          label: "Negative",
+          color: theme.colors.success,
+          icon: "checkmark-circle",
+        };
+      default:
+        return {
+          label: "Inconclusive",
+          color: theme.colors.textSecondary,
+          icon: "help-circle",
+        };
+    }
+  };
+
+  const renderRow = ({ item }: { item: BatchItem }) => {
+    const status = getRowStatus(item);
+    // Repeat images reuse the earlier result instead of a new history entry
+    const label = item.fromCache ? `${status.label} (cached)` : status.label;
+    const probability = item.result?.report?.probability;
+    const openable = item.state === "done" || item.state === "failed";
+
+    return (
+      <Pressable
+        onPress={() => handleRowPress(item)}
+        disabled={!openable}
+        style={[styles.row, { borderBottomColor: theme.colors.border }]}
+        accessibilityRole="button"
+        accessibilityLabel={`Image ${item.index + 1}: ${label}`}
+        accessibilityHint={openable ? "Opens the analysis details" : undefined}
+      >
+        <Text style={[styles.indexCell, { color: theme.colors.textSecondary }]}>
+          {item.index + 1}
+        </Text>
+        <Image
+          source={{ uri: item.imageUri }}
+          style={[
+            styles.thumbnail,
+            { backgroundColor: theme.colors.surfaceVariant },
+          ]}
+          resizeMode="cover"
+        />
+        <View style={styles.statusCell}>
+          {item.state === "running" ? (
+            <ActivityIndicator size="small" color={status.color} />
+          ) : (
+            <Ionicons name={status.icon} size={16} color={status.color} />
+          )}
+          <Text style={[styles.statusText, { color: status.color }]}>
+            {label}
+          </Text>
+        </View>
+        <Text style={[styles.probabilityCell, { color: theme.colors.text }]}>
+          {probability !== undefined && probability !== null
+            ? `${Math.round(probability * 100)}%`
+            : "—"}
+        </Text>
+        <Ionicons
+          name="chevron-forward"
+          size={16}
+          color={openable ? theme.colors.textSecondary : "transparent"}
+        />
+      </Pressable>
+    );
+  };
+
+  const renderSummary = () => (
+    <View style={styles.summary}>
+      <Text style={[styles.progressLabel, { color: theme.colors.text }]}>
+        {running
+          ? `Analyzing ${completed} of ${items.length}...`
+          : `Finished ${completed} of ${items.length}`}
+      </Text>
+      <View
+        style={[
+          styles.progressTrack,
+          { backgroundColor: theme.colors.surfaceVariant },
+        ]}
+      >
+        <View
+          style={[
+            styles.progressFill,
+            {
+              width: `${Math.round(progress * 100)}%`,
+              backgroundColor: theme.colors.primary,
+            },
+          ]}
+        />
+      </View>
+
+      <View style={styles.counts}>
+        <SummaryCount
+          label="Positive"
+          value={positive}
+          color={theme.colors.warning}
+        />
+        <SummaryCount
+          label="Negative"
+          value={negative}
+          color={theme.colors.success}
+        />
+        <SummaryCount
+          label="Failed"
+          value={failed}
+          color={theme.colors.error}
+        />
+        {inconclusive > 0 && (
+          <SummaryCount
+            label="Inconclusive"
+            value={inconclusive}
+            color={theme.colors.textSecondary}
+          />
+        )}
+      </View>
+
+      <View
+        style={[styles.tableHeader, { borderBottomColor: theme.colors.border }]}
+      >
+        <Text style={[styles.indexCell, { color: theme.colors.textSecondary }]}>
+          #
+        </Text>
+        <Text
+          style={[
+            styles.headerText,
+            styles.imageHeader,
+            { color: theme.colors.textSecondary },
+          ]}
+        >
+          Image
+        </Text>
+        <Text
+          style={[
+            styles.headerText,
+            styles.statusCell,
+            { color: theme.colors.textSecondary },
+          ]}
+        >
+          Result
+        </Text>
+        <Text
+          style={[
+            styles.headerText,
+            styles.probabilityCell,
+            { color: theme.colors.textSecondary },
+          ]}
+        >
+          Prob.
+        </Text>
+        <View style={styles.chevronSpacer} />
+      </View>
+    </View>
+  );
+
+  return (
+    <View
+      style={[styles.container, { backgroundColor: theme.colors.background }]}
+      testID="batch-screen"
+    >
+      <Header
+        title="Batch Analysis"
+        subtitle={`${items.length} images`}
+        leftIcon="close"
+        onLeftPress={handleDone}
+        leftAccessibilityLabel="Close batch analysis"
+      />
+
+      <FlatList
+        data={items}
+        renderItem={renderRow}
+        keyExtractor={(item) => String(item.index)}
+        ListHeaderComponent={renderSummary}
+        contentContainerStyle={styles.listContent}
+      />
+
+      <View
+        style={[
+          styles.buttonContainer,
+          {
+            backgroundColor: theme.colors.surface,
+            borderTopColor: theme.colors.border,
+          },
+        ]}
+      >
+        {running ? (
+          <Button
+            title="Stop"
+            onPress={handleStop}
+            variant="outline"
+            icon="stop-circle-outline"
+            style={styles.button}
+            testID="stop-batch-button"
+            accessibilityHint="Stops analyzing the remaining images"
+          />
+        ) : (
+          <Button
+            title="View History"
+            onPress={handleDone}
+            variant="primary"
+            icon="folder-open-outline"
+            style={styles.button}
+            testID="batch-done-button"
+          />
+        )}
+      </View>
+    </View>
+  );
+}
+
+function SummaryCount({
+  label,
+  value,
+  color,
+}: {
+  label: string;
+  value: number;
+  color: string;
+}) {
+  const { theme } = useTheme();
+
+  return (
+    <View
+      style={[styles.count, { backgroundColor: color + "20" }]}
+      accessibilityLabel={`${value} ${label}`}
+    >
+      <Text style={[styles.countValue, { color }]}>{value}</Text>
+      <Text style={[styles.countLabel, { color: theme.colors.textSecondary }]}>
+        {label}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  listContent: {
+    paddingBottom: 120,
+  },
+  summary: {
+    padding: 16,
+  },
+  progressLabel: {
+    fontSize: 16,
+    fontWeight: "600",
+    marginBottom: 8,
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: 3,
+    overflow: "hidden",
+  },
+  progressFill: {
+    height: "100%",
+  },
+  counts: {
+    flexDirection: "row",
+    gap: 8,
+    marginTop: 16,
+    marginBottom: 16,
+  },
+  count: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: 10,
+    borderRadius: 8,
+  },
+  countValue: {
+    fontSize: 20,
+    fontWeight: "700",
+  },
+  countLabel: {
+    fontSize: 11,
+    marginTop: 2,
+  },
+  tableHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingBottom: 8,
+    borderBottomWidth: 1,
+    marginHorizontal: -16,
+    paddingHorizontal: 16,
+  },
+  headerText: {
+    fontSize: 12,
+    fontWeight: "600",
+    textTransform: "uppercase",
+  },
+  imageHeader: {
+    width: 44,
+    marginRight: 12,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+  },
+  indexCell: {
+    width: 28,
+    fontSize: 13,
+  },
+  thumbnail: {
+    width: 44,
+    height: 44,
+    borderRadius: 6,
+    marginRight: 12,
+  },
+  statusCell: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  statusText: {
+    fontSize: 14,
+    fontWeight: "500",
+  },
+  probabilityCell: {
+    width: 52,
+    fontSize: 14,
+    textAlign: "right",
+    marginRight: 8,
+  },
+  chevronSpacer: {
+    width: 16,
+  },
+  buttonContainer: {
+    position: "absolute",
+    bottom: 0,
+    left: 0,
+    right: 0,
+    padding: 16,
+    paddingBottom: 32,
+    borderTopWidth: 1,
+  },
+  button: {
+    width: "100%",
+  },
+});
@@ -30,7 +30,7 @@ interface CropRegion {
 export default function CropScreen() {
   const { theme } = useTheme();
   const router = useRouter();
-  const params = useLocalSearchParams<{ imageUri: string }>();
+  const params = useLocalSearchParams<{ imageUri: string; dicom?: string }>();
 
   const [imageSize, setImageSize] = useState({ width: 0, height: 0 });
   const [containerSize, setContainerSize] = useState({ width: 0, height: 0 });
@@ -224,7 +224,11 @@ export default function CropScreen() {
 
       router.replace({
         pathname: "/preview",
-        params: { imageUri: croppedUri, source: "cropped" },
+        params: {
+          imageUri: croppedUri,
+          source: "cropped",
+          ...(params.dicom ? { dicom: params.dicom } : {}),
+        },
       });
     } catch (error) {
       console.error("Crop failed:", error);
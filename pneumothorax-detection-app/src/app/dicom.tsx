@@ -0,0 +1,491 @@
+/**
+ * DICOM Import Screen
+ * Renders an imported DICOM file with an adjustable window/level before
+ * handing a PNG to the preview screen
+ */
+
+import React, { useState, useEffect } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  Image,
+  ScrollView,
+  Pressable,
+  ActivityIndicator,
+} from "react-native";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import { useTheme } from "../context/ThemeContext";
+import Button from "../components/ui/Button";
+import Header from "../components/ui/Header";
+import {
+  DicomImage,
+  DicomParseError,
+  defaultWindow,
+  fullRangeWindow,
+  loadDicomImage,
+  renderDicomToPng,
+} from "../services/dicom";
+import { WindowLevel } from "../types";
+
+// Previews are rendered small so adjusting the window stays responsive
+const PREVIEW_SIZE = 512;
+
+interface WindowPreset {
+  label: string;
+  window: WindowLevel;
+}
+
+/**
+ * Format a DICOM DA value (YYYYMMDD) for display
+ */
+function formatStudyDate(value?: string): string | undefined {
+  if (!value || !/^\d{8}$/.test(value)) return value;
+  return `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}`;
+}
+
+export default function DicomImportScreen() {
+  const { theme } = useTheme();
+  const router = useRouter();
+  const params = useLocalSearchParams<{ fileUri: string; fileName: string }>();
+
+  const [image, setImage] = useState<DicomImage | null>(null);
+  const [windowLevel, setWindowLevel] = useState<WindowLevel | null>(null);
+  const [previewUri, setPreviewUri] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [converting, setConverting] = useState(false);
+
+  useEffect(() => {
+    if (!params.fileUri) {
+      setError("No file selected");
+      return;
+    }
+
+    loadDicomImage(params.fileUri)
+      .then((loaded) => {
+        setImage(loaded);
+        setWindowLevel(defaultWindow(loaded));
+      })
+      .catch((err) => {
+        console.error("DICOM import failed:", err);
+        setError(
+          err instanceof DicomParseError
+            ? err.message
+            : "The file could not be read as DICOM.",
+        );
+      });
+  }, [params.fileUri]);
+
+  useEffect(() => {
+    if (!image || !windowLevel) return;
+    let cancelled = false;
+
+    renderDicomToPng(image, windowLevel, PREVIEW_SIZE)
+      .then((uri) => {
+        if (!cancelled) setPreviewUri(uri);
+      })
+      .catch((err) => console.warn("Failed to render DICOM preview:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [image, windowLevel]);
+
+  const presets: WindowPreset[] = image
+    ? [
+        ...(image.storedWindow
+          ? [{ label: "Stored", window: image.storedWindow }]
+          : []),
+        { label: "Full range", window: fullRangeWindow(image) },
+      ]
+    : [];
+
+  // Steps scale with the image's value range so 8 and 16 bit feel the same
+  const step = image
+    ? Math.max(1, Math.round((image.maxValue - image.minValue) / 40))
+    : 1;
+
+  const adjustWindow = (centerDelta: number, widthDelta: number) => {
+    if (!windowLevel) return;
+    setWindowLevel({
+      center: windowLevel.center + centerDelta,
+      width: Math.max(1, windowLevel.width + widthDelta),
+    });
+  };
+
+  const handleContinue = async () => {
+    if (!image || !windowLevel) return;
+    setConverting(true);
+
+    try {
+      const imageUri = await renderDicomToPng(image, windowLevel);
+      router.replace({
+        pathname: "/preview",
+        params: {
+          imageUri,
+          source: "dicom",
+          dicom: JSON.stringify({ ...image.metadata, window: windowLevel }),
+        },
+      });
+    } catch (err) {
+      console.error("DICOM conversion failed:", err);
+      setError("The image could not be converted.");
+      setConverting(false);
+    }
+  };
+
+  const renderStepper = (
+    label: string,
+    value: number,
+    onDecrease: () => void,
+    onIncrease: () => void,
+  ) => (
+    <View style={styles.stepperRow}>
+      <Text style={[styles.stepperLabel, { color: theme.colors.text }]}>
+        {label}
+      </Text>
+      <Pressable
+        onPress={onDecrease}
+        style={[styles.stepperButton, { borderColor: theme.colors.border }]}
+        accessibilityRole="button"
+        accessibilityLabel={`Decrease window ${label.toLowerCase()}`}
+      >
+        <Ionicons name="remove" size={18} color={theme.colors.primary} />
+      </Pressable>
+      <Text style={[styles.stepperValue, { color: theme.colors.text }]}>
+        {Math.round(value)}
+      </Text>
+      <Pressable
+        onPress={onIncrease}
+        style={[styles.stepperButton, { borderColor: theme.colors.border }]}
+        accessibilityRole="button"
+        accessibilityLabel={`Increase window ${label.toLowerCase()}`}
+      >
+        <Ionicons name="add" size={18} color={theme.colors.primary} />
+      </Pressable>
+    </View>
+  );
+
+  const metadataRows = image
+    ? [
+        { label: "Modality", value: image.metadata.modality },
+        {
+          label: "Study Date",
+          value: formatStudyDate(image.metadata.studyDate),
+        },
+        { label: "View", value: image.metadata.viewPosition },
+        { label: "Body Part", value: image.metadata.bodyPartExamined },
+        { label: "Size", value: `${image.width}×${image.height}` },
+      ].filter((row) => row.value)
+    : [];
+
+  if (error) {
+    return (
+      <View
+        style={[styles.container, { backgroundColor: theme.colors.background }]}
+      >
+        <Header
+          title="Import DICOM"
+          leftIcon="arrow-back"
+          onLeftPress={() => router.back()}
+        />
+        <View style={styles.centered}>
+          <Ionicons
+            name="alert-circle-outline"
+            size={64}
+            color={theme.colors.error}
+          />
+          <Text style={[styles.errorTitle, { color: theme.colors.error }]}>
+            Cannot Import File
+          </Text>
+          <Text
+            style={[styles.errorMessage, { color: theme.colors.textSecondary }]}
+          >
+            {error}
+          </Text>
+          <Button
+            title="Go Back"
+            onPress={() => router.back()}
+            variant="primary"
+            icon="arrow-back"
+          />
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View
+      style={[styles.container, { backgroundColor: theme.colors.background }]}
+      testID="dicom-screen"
+    >
+      <Header
+        title="Import DICOM"
+        subtitle={params.fileName}
+        leftIcon="arrow-back"
+        onLeftPress={() => router.back()}
+      />
+
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+      >
+        <View
+          style={[
+            styles.imageContainer,
+            {
+              backgroundColor: "#000",
+              borderColor: theme.colors.border,
+            },
+          ]}
+        >
+          {previewUri ? (
+            <Image
+              source={{ uri: previewUri }}
+              style={styles.previewImage}
+              resizeMode="contain"
+              accessibilityLabel="DICOM image preview"
+            />
+          ) : (
+            <ActivityIndicator size="large" color={theme.colors.primary} />
+          )}
+        </View>
+
+        {image && windowLevel && (
+          <View
+            style={[
+              styles.card,
+              {
+                backgroundColor: theme.colors.surface,
+                borderColor: theme.colors.border,
+              },
+            ]}
+          >
+            <Text style={[styles.cardTitle, { color: theme.colors.text }]}>
+              Window / Level
+            </Text>
+            <View style={styles.presetRow}>
+              {presets.map((preset) => {
+                const active =
+                  preset.window.center === windowLevel.center &&
+                  preset.window.width === windowLevel.width;
+                return (
+                  <Pressable
+                    key={preset.label}
+                    onPress={() => setWindowLevel(preset.window)}
+                    style={[
+                      styles.preset,
+                      {
+                        borderColor: theme.colors.primary,
+                        backgroundColor: active
+                          ? theme.colors.primary
+                          : "transparent",
+                      },
+                    ]}
+                    accessibilityRole="button"
+                    accessibilityState={{ selected: active }}
+                  >
+                    <Text
+                      style={[
+                        styles.presetText,
+                        { color: active ? "#fff" : theme.colors.primary },
+                      ]}
+                    >
+                      {preset.label}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+            {renderStepper(
+              "Center",
+              windowLevel.center,
+              () => adjustWindow(-step, 0),
+              () => adjustWindow(step, 0),
+            )}
+            {renderStepper(
+              "Width",
+              windowLevel.width,
+              () => adjustWindow(0, -step * 2),
+              () => adjustWindow(0, step * 2),
+            )}
+          </View>
+        )}
+
+        {metadataRows.length > 0 && (
+          <View
+            style={[
+              styles.card,
+              {
+                backgroundColor: theme.colors.surface,
+                borderColor: theme.colors.border,
+              },
+            ]}
+          >
+            {metadataRows.map((row) => (
+              <View key={row.label} style={styles.metadataRow}>
+                <Text
+                  style={[
+                    styles.metadataLabel,
+                    { color: theme.colors.textSecondary },
+                  ]}
+                >
+                  {row.label}
+                </Text>
+                <Text
+                  style={[styles.metadataValue, { color: theme.colors.text }]}
+                >
+                  {row.value}
+                </Text>
+              </View>
+            ))}
+          </View>
+        )}
+      </ScrollView>
+
+      <View
+        style={[
+          styles.buttonContainer,
+          {
+            backgroundColor: theme.colors.surface,
+            borderTopColor: theme.colors.border,
+          },
+        ]}
+      >
+        <Button
+          title="Cancel"
+          onPress={() => router.back()}
+          variant="outline"
+          icon="close-outline"
+          style={styles.button}
+        />
+        <Button
+          title="Continue"
+          onPress={handleContinue}
+          variant="primary"
+          icon="arrow-forward-outline"
+          loading={converting}
+          disabled={!image}
+          style={styles.button}
+          testID="dicom-continue-button"
+          accessibilityHint="Converts the image with the chosen window and opens the preview"
+        />
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 24,
+    paddingBottom: 120,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 24,
+    gap: 12,
+  },
+  errorTitle: {
+    fontSize: 20,
+    fontWeight: "600",
+    marginTop: 8,
+  },
+  errorMessage: {
+    fontSize: 14,
+    textAlign: "center",
+    marginBottom: 16,
+  },
+  imageContainer: {
+    width: "100%",
+    aspectRatio: 1,
+    borderRadius: 12,
+    borderWidth: 1,
+    overflow: "hidden",
+    marginBottom: 20,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  previewImage: {
+    width: "100%",
+    height: "100%",
+  },
+  card: {
+    borderRadius: 12,
+    borderWidth: 1,
+    padding: 16,
+    marginBottom: 16,
+    gap: 12,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  presetRow: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  preset: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  presetText: {
+    fontSize: 13,
+    fontWeight: "500",
+  },
+  stepperRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+  },
+  stepperLabel: {
+    flex: 1,
+    fontSize: 14,
+  },
+  stepperButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    borderWidth: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  stepperValue: {
+    minWidth: 64,
+    textAlign: "center",
+    fontSize: 15,
+    fontWeight: "500",
+  },
+  metadataRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  metadataLabel: {
+    fontSize: 13,
+  },
+  metadataValue: {
+    fontSize: 13,
+    fontWeight: "500",
+  },
+  buttonContainer: {
+    position: "absolute",
+    bottom: 0,
+    left: 0,
+    right: 0,
+    flexDirection: "row",
+    padding: 16,
+    paddingBottom: 32,
+    gap: 12,
+    borderTopWidth: 1,
+  },
+  button: {
+    flex: 1,
+  },
+});
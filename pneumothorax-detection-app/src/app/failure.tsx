@@ -0,0 +1,333 @@
+/**
+ * Failure Screen
+ * Explains why an analysis failed and offers recovery actions
+ * matched to the kind of failure
+ */
+
+import React, { useState } from "react";
+import { View, Text, StyleSheet, ScrollView, Image, Alert } from "react-native";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import { useTheme } from "../context/ThemeContext";
+import { useAnalysis } from "../context/AnalysisContext";
+import { useAnalysisQueue } from "../context/AnalysisQueueContext";
+import { Button, Card, Header } from "../components/ui";
+import { createFailedResult } from "../services/pneumoDetection";
+import { AnalysisErrorKind, AnalysisFailure } from "../types";
+
+type RecoveryAction =
+  "retry" | "queue" | "recrop" | "changeEndpoint" | "newImage";
+
+interface FailureCopy {
+  title: string;
+  icon: React.ComponentProps<typeof Ionicons>["name"];
+  hint: string;
+  actions: RecoveryAction[];
+}
+
+const FAILURE_COPY: Record<AnalysisErrorKind, FailureCopy> = {
+  network: {
+    title: "Connection Problem",
+    icon: "cloud-offline-outline",
+    hint: "Check your connection and try again, or switch to another detection endpoint.",
+    actions: ["retry", "queue", "changeEndpoint"],
+  },
+  upload_rejected: {
+    title: "Image Rejected",
+    icon: "close-circle-outline",
+    hint: "The server refused this image. Cropping it to the chest region or using a different endpoint may help.",
+    actions: ["recrop", "retry", "changeEndpoint"],
+  },
+  model_error: {
+    title: "Model Error",
+    icon: "bug-outline",
+    hint: "The model failed while processing the image. This is often temporary.",
+    actions: ["retry", "changeEndpoint"],
+  },
+  parse_error: {
+    title: "Unexpected Response",
+    icon: "document-text-outline",
+    hint: "The server answered in a format the app does not understand. The endpoint may be running a different model.",
+    actions: ["retry", "changeEndpoint"],
+  },
+  invalid_image: {
+    title: "Unreadable Image",
+    icon: "image-outline",
+    hint: "The image could not be opened. Try cropping it again or choose a different image.",
+    actions: ["recrop", "newImage"],
+  },
+};
+
+export default function FailureScreen() {
+  const { theme } = useTheme();
+  const { addToHistory } = useAnalysis();
+  const { enqueue } = useAnalysisQueue();
+  const router = useRouter();
+  const params = useLocalSearchParams<{
+    imageUri: string;
+    error: string;
+    saved?: string;
+    dicom?: string;
+  }>();
+
+  const imageUri = params.imageUri || "";
+  const failure: AnalysisFailure = params.error
+    ? JSON.parse(params.error)
+    : { kind: "model_error", message: "Analysis failed." };
+  const copy = FAILURE_COPY[failure.kind] ?? FAILURE_COPY.model_error;
+
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(params.saved === "true");
+
+  const handleRetry = () => {
+    router.replace({
+      pathname: "/analyzing",
+      params: { imageUri, ...(params.dicom ? { dicom: params.dicom } : {}) },
+    });
+  };
+
+  const handleQueue = async () => {
+    try {
+      await enqueue(imageUri);
+      router.replace("/history");
+    } catch (error) {
+      console.error("Failed to queue analysis:", error);
+      Alert.alert("Error", "Could not save the image for later analysis.");
+    }
+  };
+
+  const handleRecrop = () => {
+    router.replace({
+      pathname: "/crop",
+      params: { imageUri, ...(params.dicom ? { dicom: params.dicom } : {}) },
+    });
+  };
+
+  const handleChangeEndpoint = () => {
+    router.push("/settings");
+  };
+
+  const handleNewImage = () => {
+    router.replace("/(tabs)");
+  };
+
+  const handleSaveToHistory = async () => {
+    setSaving(true);
+    try {
+      const result = createFailedResult(imageUri, failure);
+      if (params.dicom) {
+        result.dicom = JSON.parse(params.dicom);
+      }
+      await addToHistory(result);
+      setSaved(true);
+    } catch (error) {
+      console.error("Failed to save failure to history:", error);
+      Alert.alert("Error", "Could not save this analysis to history.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderAction = (action: RecoveryAction, index: number) => {
+    const variant = index === 0 ? "primary" : "outline";
+    switch (action) {
+      case "retry":
+        return (
+          <Button
+            key={action}
+            title="Try Again"
+            onPress={handleRetry}
+            variant={variant}
+            icon="refresh-outline"
+            testID="retry-button"
+            accessibilityHint="Runs the analysis again on the same image"
+          />
+        );
+      case "queue":
+        return (
+          <Button
+            key={action}
+            title="Analyze When Online"
+            onPress={handleQueue}
+            variant={variant}
+            icon="time-outline"
+            testID="queue-button"
+            accessibilityHint="Queues the image and analyzes it automatically once connected"
+          />
+        );
+      case "recrop":
+        return (
+          <Button
+            key={action}
+            title="Crop Again"
+            onPress={handleRecrop}
+            variant={variant}
+            icon="crop-outline"
+            testID="recrop-button"
+            accessibilityHint="Opens the crop tool for this image"
+          />
+        );
+      case "changeEndpoint":
+        return (
+          <Button
+            key={action}
+            title="Change Endpoint"
+            onPress={handleChangeEndpoint}
+            variant={variant}
+            icon="server-outline"
+            testID="change-endpoint-button"
+            accessibilityHint="Opens settings to choose another detection backend"
+          />
+        );
+      case "newImage":
+        return (
+          <Button
+            key={action}
+            title="Choose Another Image"
+            onPress={handleNewImage}
+            variant={variant}
+            icon="images-outline"
+            testID="new-image-button"
+            accessibilityHint="Returns to the home screen"
+          />
+        );
+    }
+  };
+
+  return (
+    <View
+      style={[styles.container, { backgroundColor: theme.colors.background }]}
+      testID="failure-screen"
+    >
+      <Header
+        title="Analysis Failed"
+        leftIcon="close"
+        onLeftPress={handleNewImage}
+        leftAccessibilityLabel="Close and return home"
+      />
+
+      <ScrollView
+        contentContainerStyle={styles.content}
+        showsVerticalScrollIndicator={false}
+      >
+        <View style={styles.iconContainer}>
+          <Ionicons name={copy.icon} size={64} color={theme.colors.error} />
+        </View>
+
+        <Text
+          style={[styles.title, { color: theme.colors.text }]}
+          accessibilityRole="header"
+        >
+          {copy.title}
+        </Text>
+        <Text style={[styles.message, { color: theme.colors.text }]}>
+          {failure.message}
+        </Text>
+        <Text style={[styles.hint, { color: theme.colors.textSecondary }]}>
+          {copy.hint}
+        </Text>
+
+        {imageUri ? (
+          <Image
+            source={{ uri: imageUri }}
+            style={[
+              styles.thumbnail,
+              { backgroundColor: theme.colors.surfaceVariant },
+            ]}
+            resizeMode="contain"
+            accessibilityLabel="Image that failed to analyze"
+          />
+        ) : null}
+
+        {failure.detail ? (
+          <Card style={styles.detailCard} variant="default">
+            <Text
+              style={[
+                styles.detailLabel,
+                { color: theme.colors.textSecondary },
+              ]}
+            >
+              Details
+            </Text>
+            <Text
+              style={[styles.detailText, { color: theme.colors.text }]}
+              selectable
+            >
+              {failure.detail}
+            </Text>
+          </Card>
+        ) : null}
+
+        <View style={styles.actions}>
+          {copy.actions.map(renderAction)}
+          <Button
+            title={saved ? "Saved to History" : "Save to History"}
+            onPress={handleSaveToHistory}
+            variant="outline"
+            icon={saved ? "checkmark-outline" : "bookmark-outline"}
+            loading={saving}
+            disabled={saved}
+            testID="save-failure-button"
+            accessibilityHint="Keeps a record of this failed analysis in history"
+          />
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 24,
+    paddingBottom: 40,
+    alignItems: "stretch",
+  },
+  iconContainer: {
+    alignItems: "center",
+    marginTop: 16,
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: "600",
+    textAlign: "center",
+  },
+  message: {
+    fontSize: 16,
+    textAlign: "center",
+    marginTop: 8,
+  },
+  hint: {
+    fontSize: 14,
+    lineHeight: 20,
+    textAlign: "center",
+    marginTop: 8,
+  },
+  thumbnail: {
+    width: 120,
+    height: 120,
+    borderRadius: 8,
+    alignSelf: "center",
+    marginTop: 24,
+  },
+  detailCard: {
+    marginTop: 24,
+  },
+  detailLabel: {
+    fontSize: 12,
+    fontWeight: "600",
+    textTransform: "uppercase",
+    marginBottom: 4,
+  },
+  detailText: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  actions: {
+    marginTop: 24,
+    gap: 12,
+  },
+});
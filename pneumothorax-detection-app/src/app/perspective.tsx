@@ -0,0 +1,368 @@
+/**
+ * Perspective Screen
+ * Straightens photographed films and monitors before preview
+ */
+
+import React, { useState, useRef, useEffect } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  Image,
+  ActivityIndicator,
+  GestureResponderEvent,
+  LayoutChangeEvent,
+} from "react-native";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import { useTheme } from "../context/ThemeContext";
+import Button from "../components/ui/Button";
+import Header from "../components/ui/Header";
+import {
+  correctPerspective,
+  defaultQuad,
+  detectQuad,
+  isConvexQuad,
+} from "../services/perspective";
+import { Point, Quad } from "../types";
+
+const HANDLE_SIZE = 28;
+
+interface DisplayRect {
+  width: number;
+  height: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+export default function PerspectiveScreen() {
+  const { theme } = useTheme();
+  const router = useRouter();
+  const params = useLocalSearchParams<{ imageUri: string; source: string }>();
+  const imageUri = params.imageUri || "";
+
+  const [imageSize, setImageSize] = useState({ width: 0, height: 0 });
+  const [containerSize, setContainerSize] = useState({ width: 0, height: 0 });
+  const [quad, setQuad] = useState<Quad>(defaultQuad());
+  const [detectedQuad, setDetectedQuad] = useState<Quad | null>(null);
+  const [detecting, setDetecting] = useState(true);
+  const [applying, setApplying] = useState(false);
+  const [activeCorner, setActiveCorner] = useState<number | null>(null);
+  const startPos = useRef({ pageX: 0, pageY: 0, point: { x: 0, y: 0 } });
+
+  useEffect(() => {
+    if (!imageUri) return;
+    let cancelled = false;
+
+    Image.getSize(
+      imageUri,
+      (width, height) => {
+        if (!cancelled) setImageSize({ width, height });
+      },
+      (error) => console.error("Failed to get image size:", error),
+    );
+
+    detectQuad(imageUri)
+      .then((found) => {
+        if (cancelled || !found) return;
+        setDetectedQuad(found);
+        setQuad(found);
+      })
+      .catch((error) => {
+        console.warn("Edge detection failed:", error);
+      })
+      .finally(() => {
+        if (!cancelled) setDetecting(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [imageUri]);
+
+  // Area the image occupies inside the container with resizeMode="contain"
+  const display: DisplayRect = (() => {
+    if (
+      !imageSize.width ||
+      !imageSize.height ||
+      !containerSize.width ||
+      !containerSize.height
+    ) {
+      return { width: 0, height: 0, offsetX: 0, offsetY: 0 };
+    }
+    const imageAspect = imageSize.width / imageSize.height;
+    const containerAspect = containerSize.width / containerSize.height;
+    if (imageAspect > containerAspect) {
+      const height = containerSize.width / imageAspect;
+      return {
+        width: containerSize.width,
+        height,
+        offsetX: 0,
+        offsetY: (containerSize.height - height) / 2,
+      };
+    }
+    const width = containerSize.height * imageAspect;
+    return {
+      width,
+      height: containerSize.height,
+      offsetX: (containerSize.width - width) / 2,
+      offsetY: 0,
+    };
+  })();
+
+  const toScreen = (point: Point) => ({
+    x: display.offsetX + point.x * display.width,
+    y: display.offsetY + point.y * display.height,
+  });
+
+  const handleContainerLayout = (event: LayoutChangeEvent) => {
+    const { width, height } = event.nativeEvent.layout;
+    setContainerSize({ width, height });
+  };
+
+  const handleTouchStart = (corner: number) => (e: GestureResponderEvent) => {
+    startPos.current = {
+      pageX: e.nativeEvent.pageX,
+      pageY: e.nativeEvent.pageY,
+      point: quad[corner],
+    };
+    setActiveCorner(corner);
+  };
+
+  const handleTouchMove = (e: GestureResponderEvent) => {
+    if (activeCorner === null || !display.width) return;
+
+    const dx = (e.nativeEvent.pageX - startPos.current.pageX) / display.width;
+    const dy = (e.nativeEvent.pageY - startPos.current.pageY) / display.height;
+    const point = {
+      x: Math.min(1, Math.max(0, startPos.current.point.x + dx)),
+      y: Math.min(1, Math.max(0, startPos.current.point.y + dy)),
+    };
+
+    const next = [...quad] as Quad;
+    next[activeCorner] = point;
+    // Ignore moves that would fold the quad over itself
+    if (isConvexQuad(next)) {
+      setQuad(next);
+    }
+  };
+
+  const handleTouchEnd = () => {
+    setActiveCorner(null);
+  };
+
+  const goToPreview = (uri: string) => {
+    router.replace({
+      pathname: "/preview",
+      params: { imageUri: uri, source: params.source || "camera" },
+    });
+  };
+
+  const handleSkip = () => {
+    goToPreview(imageUri);
+  };
+
+  const handleReset = () => {
+    setQuad(detectedQuad ?? defaultQuad());
+  };
+
+  const handleApply = async () => {
+    if (!imageUri) return;
+    setApplying(true);
+
+    try {
+      const correctedUri = await correctPerspective(imageUri, quad);
+      goToPreview(correctedUri);
+    } catch (error) {
+      console.error("Perspective correction failed:", error);
+      setApplying(false);
+    }
+  };
+
+  const renderEdge = (from: Point, to: Point, index: number) => {
+    const a = toScreen(from);
+    const b = toScreen(to);
+    const length = Math.hypot(b.x - a.x, b.y - a.y);
+    const angle = Math.atan2(b.y - a.y, b.x - a.x);
+
+    return (
+      <View
+        key={`edge-${index}`}
+        pointerEvents="none"
+        style={[
+          styles.edge,
+          {
+            left: (a.x + b.x) / 2 - length / 2,
+            top: (a.y + b.y) / 2 - 1,
+            width: length,
+            backgroundColor: theme.colors.primary,
+            transform: [{ rotate: `${angle}rad` }],
+          },
+        ]}
+      />
+    );
+  };
+
+  return (
+    <View
+      style={[styles.container, { backgroundColor: theme.colors.background }]}
+      testID="perspective-screen"
+    >
+      <Header
+        title="Straighten Image"
+        leftIcon="arrow-back"
+        onLeftPress={() => router.back()}
+      />
+
+      <View style={styles.imageContainer} onLayout={handleContainerLayout}>
+        {imageUri !== "" && (
+          <Image
+            source={{ uri: imageUri }}
+            style={styles.image}
+            resizeMode="contain"
+          />
+        )}
+
+        {display.width > 0 && (
+          <>
+            {quad.map((point, index) =>
+              renderEdge(point, quad[(index + 1) % 4], index),
+            )}
+            {quad.map((point, index) => {
+              const { x, y } = toScreen(point);
+              return (
+                <View
+                  key={`corner-${index}`}
+                  style={[
+                    styles.handle,
+                    {
+                      left: x - HANDLE_SIZE / 2,
+                      top: y - HANDLE_SIZE / 2,
+                      borderColor: theme.colors.primary,
+                      backgroundColor:
+                        activeCorner === index
+                          ? theme.colors.primary
+                          : "rgba(255,255,255,0.6)",
+                    },
+                  ]}
+                  onTouchStart={handleTouchStart(index)}
+                  onTouchMove={handleTouchMove}
+                  onTouchEnd={handleTouchEnd}
+                  accessibilityLabel={`Corner ${index + 1}`}
+                />
+              );
+            })}
+          </>
+        )}
+
+        {detecting && (
+          <View style={styles.detectingBadge} pointerEvents="none">
+            <ActivityIndicator size="small" color="#fff" />
+            <Text style={styles.detectingText}>Detecting edges...</Text>
+          </View>
+        )}
+      </View>
+
+      <View style={styles.instructions}>
+        <Ionicons
+          name="scan-outline"
+          size={20}
+          color={theme.colors.textSecondary}
+        />
+        <Text
+          style={[
+            styles.instructionsText,
+            { color: theme.colors.textSecondary },
+          ]}
+        >
+          {!detecting && !detectedQuad
+            ? "Edges not found. Drag the corners onto the film or screen"
+            : "Drag the corners onto the edges of the film or screen"}
+        </Text>
+      </View>
+
+      <View
+        style={[
+          styles.buttonContainer,
+          {
+            backgroundColor: theme.colors.surface,
+            borderTopColor: theme.colors.border,
+          },
+        ]}
+      >
+        <Button
+          title="Skip"
+          onPress={handleSkip}
+          variant="outline"
+          icon="play-skip-forward-outline"
+          style={styles.button}
+          testID="skip-perspective-button"
+          accessibilityHint="Continues with the photo as captured"
+        />
+        <Button
+          title="Reset"
+          onPress={handleReset}
+          variant="outline"
+          icon="refresh-outline"
+          disabled={detecting}
+          style={styles.button}
+          accessibilityHint="Restores the automatically detected corners"
+        />
+        <Button
+          title="Apply"
+          onPress={handleApply}
+          variant="primary"
+          icon="checkmark-outline"
+          loading={applying}
+          disabled={detecting}
+          style={styles.button}
+          testID="apply-perspective-button"
+          accessibilityHint="Straightens the image to the selected corners"
+        />
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  imageContainer: { flex: 1, position: "relative" },
+  image: { width: "100%", height: "100%" },
+  edge: { position: "absolute", height: 2 },
+  handle: {
+    position: "absolute",
+    width: HANDLE_SIZE,
+    height: HANDLE_SIZE,
+    borderRadius: HANDLE_SIZE / 2,
+    borderWidth: 3,
+  },
+  detectingBadge: {
+    position: "absolute",
+    top: 16,
+    alignSelf: "center",
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: "rgba(0, 0, 0, 0.6)",
+  },
+  detectingText: { color: "#fff", fontSize: 13 },
+  instructions: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    padding: 16,
+  },
+  instructionsText: { fontSize: 14 },
+  buttonContainer: {
+    flexDirection: "row",
+    padding: 16,
+    paddingBottom: 32,
+    gap: 12,
+    borderTopWidth: 1,
+  },
+  button: { flex: 1 },
+});
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useCallback } from "react";
 import {
   View,
   Text,
@@ -9,12 +9,17 @@ import {
   Alert,
   Platform,
 } from "react-native";
-import { useLocalSearchParams, useRouter } from "expo-router";
+import { useLocalSearchParams, useRouter, useFocusEffect } from "expo-router";
 import { Ionicons } from "@expo/vector-icons";
 import * as FileSystem from "expo-file-system/legacy";
 import { useTheme } from "../context/ThemeContext";
+import { useAnalysisQueue } from "../context/AnalysisQueueContext";
+import { useBackend } from "../context/BackendContext";
 import Button from "../components/ui/Button";
 import Header from "../components/ui/Header";
+import QualityCard from "../components/QualityCard";
+import { assessImageQuality } from "../services/imageQuality";
+import { DicomMetadata, QualityReport } from "../types";
 
 const { width: screenWidth } = Dimensions.get("window");
 const imagePreviewSize = screenWidth - 48;
@@ -30,13 +35,24 @@ const isWeb = Platform.OS === "web";
 export default function PreviewScreen() {
   const { theme } = useTheme();
   const router = useRouter();
-  const params = useLocalSearchParams<{ imageUri: string; source: string }>();
+  const { isOnline, enqueue } = useAnalysisQueue();
+  const { backend } = useBackend();
+  const params = useLocalSearchParams<{
+    imageUri: string;
+    source: string;
+    dicom?: string;
+  }>();
+  const dicom: DicomMetadata | null = params.dicom
+    ? JSON.parse(params.dicom)
+    : null;
 
   const [imageUri, setImageUri] = useState<string>(params.imageUri || "");
   const [imageInfo, setImageInfo] = useState<ImageInfo | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [analyzing, setAnalyzing] = useState(false);
+  const [quality, setQuality] = useState<QualityReport | null>(null);
+  const [assessing, setAssessing] = useState(false);
 
   useEffect(() => {
     if (params.imageUri) {
@@ -50,6 +66,40 @@ export default function PreviewScreen() {
     }
   }, [imageUri]);
 
+  // Check photographed images on device before anything is uploaded
+  useEffect(() => {
+    // DICOM renders are digital originals, not photos of a film
+    if (!imageUri || params.dicom) return;
+    let cancelled = false;
+
+    setQuality(null);
+    setAssessing(true);
+    assessImageQuality(imageUri)
+      .then((report) => {
+        if (!cancelled) setQuality(report);
+      })
+      .catch((err) => {
+        // An image we cannot measure is left to the backend to judge
+        console.warn("Image quality assessment failed:", err);
+      })
+      .finally(() => {
+        if (!cancelled) setAssessing(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [imageUri, params.dicom]);
+
+  const qualityBlocked = quality?.verdict === "fail";
+
+  // Re-enable Analyze when returning from a cancelled analysis
+  useFocusEffect(
+    useCallback(() => {
+      setAnalyzing(false);
+    }, []),
+  );
+
   const loadImageInfo = async () => {
     if (!imageUri) {
       setError("No image selected");
@@ -137,13 +187,34 @@ export default function PreviewScreen() {
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i];
   };
 
-  const handleAnalyze = () => {
-    if (!imageUri) return;
+  const handleAnalyze = async () => {
+    if (!imageUri || qualityBlocked) return;
 
     setAnalyzing(true);
+
+    // Without connectivity, park the analysis until the network returns
+    if (!isOnline && !backend.offline) {
+      try {
+        await enqueue(imageUri, dicom ?? undefined);
+        Alert.alert(
+          "Queued for Analysis",
+          "You are offline. This image will be analyzed automatically when the connection returns.",
+        );
+        router.replace("/history");
+      } catch (err) {
+        console.error("Failed to queue analysis:", err);
+        Alert.alert("Error", "Could not save the image for later analysis.");
+        setAnalyzing(false);
+      }
+      return;
+    }
+
     router.push({
       pathname: "/analyzing",
-      params: { imageUri: imageUri },
+      params: {
+        imageUri: imageUri,
+        ...(params.dicom ? { dicom: params.dicom } : {}),
+      },
     });
   };
 
@@ -151,7 +222,10 @@ export default function PreviewScreen() {
     if (!imageUri) return;
     router.push({
       pathname: "/crop",
-      params: { imageUri: imageUri },
+      params: {
+        imageUri: imageUri,
+        ...(params.dicom ? { dicom: params.dicom } : {}),
+      },
     });
   };
 
@@ -340,12 +414,56 @@ export default function PreviewScreen() {
               <Text style={[styles.infoValue, { color: theme.colors.text }]}>
                 {params.source === "camera"
                   ? "Camera Capture"
-                  : "Photo Gallery"}
+                  : params.source === "sample"
+                    ? "Demo Sample"
+                    : dicom
+                      ? "DICOM Import"
+                      : "Photo Gallery"}
               </Text>
             </View>
           </View>
+
+          {dicom && (
+            <>
+              <View
+                style={[
+                  styles.divider,
+                  { backgroundColor: theme.colors.border },
+                ]}
+              />
+              <View style={styles.infoRow}>
+                <Ionicons
+                  name="medical-outline"
+                  size={20}
+                  color={theme.colors.primary}
+                />
+                <View style={styles.infoTextContainer}>
+                  <Text
+                    style={[
+                      styles.infoLabel,
+                      { color: theme.colors.textSecondary },
+                    ]}
+                  >
+                    Study
+                  </Text>
+                  <Text
+                    style={[styles.infoValue, { color: theme.colors.text }]}
+                  >
+                    {[dicom.modality, dicom.viewPosition, dicom.studyDate]
+                      .filter(Boolean)
+                      .join(" • ") || "No study details"}
+                  </Text>
+                </View>
+              </View>
+            </>
+          )}
         </View>
 
+        {/* Quality Assessment */}
+        {(assessing || quality) && (
+          <QualityCard report={quality} assessing={assessing} />
+        )}
+
         {/* Instructions */}
         <View style={styles.instructionsContainer}>
           <Ionicons
@@ -359,7 +477,11 @@ export default function PreviewScreen() {
               { color: theme.colors.textSecondary },
             ]}
           >
-            Tap "Crop" to select a region, or "Analyze" to detect pneumothorax.
+            {qualityBlocked
+              ? params.source === "camera"
+                ? "Retake the photo or crop out the problem area before analyzing."
+                : "Choose a clearer image or crop out the problem area before analyzing."
+              : 'Tap "Crop" to select a region, or "Analyze" to detect pneumothorax.'}
           </Text>
         </View>
       </ScrollView>
@@ -398,6 +520,7 @@ export default function PreviewScreen() {
           variant="primary"
           icon="scan-outline"
           loading={analyzing}
+          disabled={qualityBlocked}
           style={styles.analyzeButton}
           testID="analyze-button"
           accessibilityHint="Starts AI analysis to detect pneumothorax in the image"
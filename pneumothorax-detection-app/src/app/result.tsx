@@ -15,16 +15,50 @@ import {
   Share,
   Image,
   Pressable,
+  TextInput,
 } from "react-native";
 import { useLocalSearchParams, useRouter } from "expo-router";
 import { Ionicons } from "@expo/vector-icons";
 import * as MediaLibrary from "expo-media-library";
 import { useTheme } from "../context/ThemeContext";
+import { useBackend } from "../context/BackendContext";
+import { useAnalysis } from "../context/AnalysisContext";
 import { Card, Button } from "../components/ui";
-import { DetectionResult, PneumoAPIResponse } from "../types";
+import ImageOverlay from "../components/ImageOverlay";
+import { exportSecondaryCapture } from "../services/dicom";
+import { shareExportFiles } from "../services/exportFiles";
+import { exportFhirBundle } from "../services/fhir";
+import { exportPdfReport } from "../services/pdfReport";
+import { ENSEMBLE_STRATEGY_LABELS } from "../services/ensemble";
+import { formatBytes, formatDuration } from "../services/stageTimings";
+import { Theme } from "../constants/theme";
+import {
+  DetectionResult,
+  DiagnosisVerdict,
+  PneumoAPIResponse,
+  PreprocessingStep,
+} from "../types";
 
 const { width: SCREEN_WIDTH } = Dimensions.get("window");
 
+const VERDICT_LABELS: Record<DiagnosisVerdict, string> = {
+  positive: "Pneumothorax detected",
+  negative: "No pneumothorax",
+  unparseable: "Inconclusive",
+};
+
+const STEP_LABELS: Record<PreprocessingStep["type"], string> = {
+  grayscale: "grayscale",
+  normalizeContrast: "contrast normalized",
+  letterbox: "letterboxed",
+};
+
+const VERDICT_COLORS: Record<DiagnosisVerdict, (theme: Theme) => string> = {
+  positive: (theme) => theme.colors.error,
+  negative: (theme) => theme.colors.success,
+  unparseable: (theme) => theme.colors.textSecondary,
+};
+
 export default function ResultScreen() {
   const { theme } = useTheme();
   const router = useRouter();
@@ -32,6 +66,8 @@ export default function ResultScreen() {
     imageUri: string;
     results: string;
     apiResponse: string;
+    cached?: string;
+    dicom?: string;
   }>();
 
   // Parse results from params
@@ -45,9 +81,24 @@ export default function ResultScreen() {
 
   const [saving, setSaving] = useState(false);
   const [sharing, setSharing] = useState(false);
-  const [activeTab, setActiveTab] = useState<"original" | "mask" | "overlay">(
-    "overlay",
+  const { backend } = useBackend();
+  const [exporting, setExporting] = useState(false);
+  const [exportingFhir, setExportingFhir] = useState(false);
+  const [includeMask, setIncludeMask] = useState(false);
+  const [exportingPdf, setExportingPdf] = useState(false);
+  const [showDetails, setShowDetails] = useState(false);
+  const { history, updateNotes } = useAnalysis();
+  const savedItem = history.find((item) => item.id === results?.id);
+  // Notes may have been edited since the result was serialized (e.g. cached)
+  const [notes, setNotes] = useState(
+    () => savedItem?.notes ?? results?.notes ?? "",
   );
+  // Set by the history migration when the server had already discarded them
+  const unavailableImages = savedItem?.unavailableImages ?? [];
+  const [activeTab, setActiveTab] = useState<
+    "original" | "input" | "mask" | "overlay"
+  >("overlay");
+  const modelInput = results?.preprocessed;
 
   // Format timestamp
   const formatTimestamp = (date: Date | string): string => {
@@ -61,6 +112,21 @@ export default function ResultScreen() {
     });
   };
 
+  // Label/value line in the technical details section
+  const renderDetailRow = (label: string, value: string) => (
+    <View key={label} style={styles.detailRow}>
+      <Text style={[styles.detailLabel, { color: theme.colors.textSecondary }]}>
+        {label}
+      </Text>
+      <Text
+        style={[styles.detailValue, { color: theme.colors.text }]}
+        selectable
+      >
+        {value}
+      </Text>
+    </View>
+  );
+
   // Handle save to gallery
   const handleSave = async () => {
     setSaving(true);
@@ -129,6 +195,94 @@ export default function ResultScreen() {
     }
   };
 
+  // Export overlay (and mask) as DICOM Secondary Capture for PACS
+  const handleExportDicom = async () => {
+    if (!results || !apiResponse) return;
+    setExporting(true);
+
+    try {
+      const files = await exportSecondaryCapture(results, apiResponse, {
+        includeMask,
+      });
+      await shareExportFiles(files, {
+        dialogTitle: "Export DICOM",
+        UTI: "org.nema.dicom",
+      });
+    } catch (error) {
+      console.error("DICOM export error:", error);
+      Alert.alert("Export Failed", "Could not create the DICOM file.");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  // Export a FHIR Bundle for EHR integration
+  const handleExportFhir = async () => {
+    if (!results || !apiResponse) return;
+    setExportingFhir(true);
+
+    try {
+      const file = await exportFhirBundle(results, apiResponse, backend);
+      await shareExportFiles([file], {
+        dialogTitle: "Export FHIR",
+        UTI: "public.json",
+      });
+    } catch (error) {
+      console.error("FHIR export error:", error);
+      Alert.alert("Export Failed", "Could not create the FHIR bundle.");
+    } finally {
+      setExportingFhir(false);
+    }
+  };
+
+  // Persist clinician notes on the history entry
+  const handleNotesBlur = async () => {
+    if (!results || notes === (results.notes ?? "")) return;
+
+    try {
+      await updateNotes(results.id, notes);
+    } catch (error) {
+      console.error("Notes save error:", error);
+      Alert.alert("Error", "Failed to save notes. Please try again.");
+    }
+  };
+
+  // Export a PDF report for sharing with colleagues or printing
+  const handleExportPdf = async () => {
+    if (!results || !apiResponse) return;
+    setExportingPdf(true);
+
+    try {
+      const file = await exportPdfReport({
+        result: results,
+        apiResponse,
+        backend,
+        notes,
+      });
+      await shareExportFiles([file], {
+        dialogTitle: "Share Report",
+        UTI: "com.adobe.pdf",
+      });
+    } catch (error) {
+      console.error("PDF export error:", error);
+      Alert.alert("Export Failed", "Could not create the PDF report.");
+    } finally {
+      setExportingPdf(false);
+    }
+  };
+
+  // Run the model again on an image that matched a cached result
+  const handleAnalyzeAgain = () => {
+    router.replace({
+      pathname: "/analyzing",
+      params: {
+        imageUri,
+        skipCache: "true",
+        ...(params.dicom ? { dicom: params.dicom } : {}),
+      },
+    });
+  };
+
   // Handle new analysis
   const handleNewAnalysis = () => {
     router.replace("/(tabs)");
@@ -152,12 +306,57 @@ export default function ResultScreen() {
         >
           {formatTimestamp(results?.timestamp || new Date())}
         </Text>
+        {results?.dicom && (
+          <Text
+            style={[styles.timestamp, { color: theme.colors.textSecondary }]}
+          >
+            {[
+              "DICOM",
+              results.dicom.modality,
+              results.dicom.viewPosition,
+              results.dicom.studyDate,
+            ]
+              .filter(Boolean)
+              .join(" • ")}
+          </Text>
+        )}
       </View>
 
+      {/* Cached result notice */}
+      {params.cached === "true" && (
+        <Card style={styles.diagnosisCard} variant="default">
+          <View style={styles.diagnosisHeader}>
+            <Ionicons
+              name="copy-outline"
+              size={20}
+              color={theme.colors.primary}
+            />
+            <Text style={[styles.diagnosisTitle, { color: theme.colors.text }]}>
+              Previously Analyzed
+            </Text>
+          </View>
+          <Text
+            style={[styles.cachedText, { color: theme.colors.textSecondary }]}
+          >
+            This image was already analyzed with the current model, so the saved
+            result is shown instead of uploading it again.
+          </Text>
+          <Button
+            title="Analyze Again Anyway"
+            onPress={handleAnalyzeAgain}
+            variant="outline"
+            icon="refresh-outline"
+            accessibilityHint="Sends the image to the model again and saves a new result"
+          />
+        </Card>
+      )}
+
       {/* Image with Overlays */}
       <View style={styles.imageSection}>
         {/* Tab selector for different views */}
-        {apiResponse && (apiResponse.maskImage || apiResponse.overlayImage) && (
+        {(modelInput ||
+          (apiResponse &&
+            (apiResponse.maskImage || apiResponse.overlayImage))) && (
           <View
             style={[
               styles.tabContainer,
@@ -185,6 +384,30 @@ export default function ResultScreen() {
                 Original
               </Text>
             </Pressable>
+            {modelInput && (
+              <Pressable
+                style={[
+                  styles.tab,
+                  activeTab === "input" && {
+                    backgroundColor: theme.colors.primary,
+                  },
+                ]}
+                onPress={() => setActiveTab("input")}
+                accessibilityLabel="Model input"
+                accessibilityHint="Shows the preprocessed image sent to the model"
+              >
+                <Text
+                  style={[
+                    styles.tabText,
+                    {
+                      color: activeTab === "input" ? "#fff" : theme.colors.text,
+                    },
+                  ]}
+                >
+                  Input
+                </Text>
+              </Pressable>
+            )}
             <Pressable
               style={[
                 styles.tab,
@@ -248,25 +471,78 @@ export default function ResultScreen() {
                 resizeMode="contain"
               />
             )}
-            {activeTab === "mask" && apiResponse?.maskImage && (
+            {unavailableImages.length > 0 && (
+              <Text
+                style={[styles.zoomHint, { color: theme.colors.textSecondary }]}
+              >
+                Some images from this analysis are no longer available; the
+                original photo is shown instead.
+              </Text>
+            )}
+            {activeTab === "input" && modelInput && (
               <Image
-                source={{ uri: apiResponse.maskImage }}
+                source={{ uri: modelInput.uri }}
                 style={styles.resultImage}
                 resizeMode="contain"
               />
             )}
-            {activeTab === "overlay" && (
+            {activeTab === "mask" && apiResponse?.maskImage && (
               <Image
-                source={{ uri: apiResponse?.overlayImage || imageUri }}
+                source={{ uri: apiResponse.maskImage }}
                 style={styles.resultImage}
                 resizeMode="contain"
               />
             )}
+            {activeTab === "mask" &&
+              !apiResponse?.maskImage &&
+              unavailableImages.includes("maskImage") && (
+                <View style={styles.unavailable}>
+                  <Ionicons
+                    name="cloud-offline-outline"
+                    size={32}
+                    color={theme.colors.textSecondary}
+                  />
+                  <Text
+                    style={[
+                      styles.unavailableText,
+                      { color: theme.colors.textSecondary },
+                    ]}
+                  >
+                    The mask expired on the server before it could be saved.
+                  </Text>
+                </View>
+              )}
+            {activeTab === "overlay" &&
+              (results && results.boundingBoxes.length > 0 ? (
+                <ImageOverlay
+                  imageUri={apiResponse?.overlayImage || imageUri}
+                  boundingBoxes={results.boundingBoxes}
+                />
+              ) : (
+                <Image
+                  source={{ uri: apiResponse?.overlayImage || imageUri }}
+                  style={styles.resultImage}
+                  resizeMode="contain"
+                />
+              ))}
           </View>
         </ScrollView>
 
+        {activeTab === "input" && modelInput && (
+          <Text
+            style={[styles.zoomHint, { color: theme.colors.textSecondary }]}
+          >
+            {`${modelInput.width}×${modelInput.height} from ${modelInput.sourceWidth}×${modelInput.sourceHeight} • ${
+              modelInput.config.steps
+                .map((step) => STEP_LABELS[step.type])
+                .join(", ") || "scaled only"
+            }`}
+          </Text>
+        )}
         <Text style={[styles.zoomHint, { color: theme.colors.textSecondary }]}>
-          Pinch to zoom • Switch tabs to view different visualizations
+          {results && results.boundingBoxes.length > 0
+            ? "Tap a highlighted region for details • Switch tabs to view different visualizations"
+            : "Pinch to zoom • Switch tabs to view different visualizations"}
         </Text>
       </View>
 
@@ -279,12 +555,296 @@ export default function ResultScreen() {
               AI Diagnosis
             </Text>
           </View>
+          {results?.report && (
+            <View style={styles.verdictRow}>
+              <View
+                style={[
+                  styles.verdictBadge,
+                  {
+                    backgroundColor:
+                      VERDICT_COLORS[results.report.verdict](theme) + "20",
+                  },
+                ]}
+              >
+                <Text
+                  style={[
+                    styles.verdictText,
+                    { color: VERDICT_COLORS[results.report.verdict](theme) },
+                  ]}
+                >
+                  {VERDICT_LABELS[results.report.verdict]}
+                </Text>
+              </View>
+              {results.report.probability !== null && (
+                <Text
+                  style={[
+                    styles.verdictDetail,
+                    { color: theme.colors.textSecondary },
+                  ]}
+                >
+                  {(results.report.probability * 100).toFixed(1)}% probability
+                </Text>
+              )}
+              {results.report.side && (
+                <Text
+                  style={[
+                    styles.verdictDetail,
+                    { color: theme.colors.textSecondary },
+                  ]}
+                >
+                  {results.report.side}
+                </Text>
+              )}
+            </View>
+          )}
           <Text style={[styles.diagnosisText, { color: theme.colors.text }]}>
             {apiResponse.diagnosis}
           </Text>
         </Card>
       )}
 
+      {/* Per-model results of an ensemble analysis */}
+      {results?.ensemble && (
+        <Card style={styles.diagnosisCard} variant="default">
+          <View style={styles.diagnosisHeader}>
+            <Ionicons name="people" size={20} color={theme.colors.primary} />
+            <Text style={[styles.diagnosisTitle, { color: theme.colors.text }]}>
+              Model Opinions
+            </Text>
+          </View>
+          <Text
+            style={[styles.cachedText, { color: theme.colors.textSecondary }]}
+          >
+            {`Combined by ${ENSEMBLE_STRATEGY_LABELS[results.ensemble.strategy].toLowerCase()}`}
+          </Text>
+          {results.ensemble.disagreement && (
+            <View
+              style={[
+                styles.disagreementBanner,
+                { backgroundColor: theme.colors.warning + "20" },
+              ]}
+              accessibilityRole="alert"
+            >
+              <Ionicons name="warning" size={18} color={theme.colors.warning} />
+              <Text
+                style={[styles.disagreementText, { color: theme.colors.text }]}
+              >
+                The models disagree. Review each result before relying on the
+                combined verdict.
+              </Text>
+            </View>
+          )}
+          {results.ensemble.opinions.map((opinion, index) => {
+            const verdict = opinion.report?.verdict;
+            const color =
+              opinion.status === "error" || !verdict
+                ? theme.colors.error
+                : VERDICT_COLORS[verdict](theme);
+            const maskUri =
+              opinion.apiResponse?.maskImage ||
+              opinion.apiResponse?.overlayImage;
+            return (
+              <View
+                key={index}
+                style={[
+                  styles.opinionRow,
+                  { borderTopColor: theme.colors.border },
+                ]}
+                accessibilityLabel={`${opinion.label}: ${
+                  opinion.status === "error" || !verdict
+                    ? "failed"
+                    : VERDICT_LABELS[verdict]
+                }`}
+              >
+                <View
+                  style={[
+                    styles.opinionMask,
+                    { backgroundColor: theme.colors.surfaceVariant },
+                  ]}
+                >
+                  {maskUri ? (
+                    <Image
+                      source={{ uri: maskUri }}
+                      style={styles.resultImage}
+                      resizeMode="cover"
+                    />
+                  ) : null}
+                </View>
+                <View style={styles.opinionInfo}>
+                  <Text
+                    style={[styles.opinionLabel, { color: theme.colors.text }]}
+                  >
+                    {opinion.label}
+                  </Text>
+                  <Text
+                    style={[
+                      styles.opinionEndpoint,
+                      { color: theme.colors.textSecondary },
+                    ]}
+                    numberOfLines={1}
+                  >
+                    {opinion.endpoint}
+                  </Text>
+                  <Text style={[styles.verdictText, { color }]}>
+                    {opinion.status === "error" || !verdict
+                      ? (opinion.error?.message ?? "Analysis failed")
+                      : `${VERDICT_LABELS[verdict]}${
+                          opinion.report?.probability != null
+                            ? ` • ${(opinion.report.probability * 100).toFixed(1)}%`
+                            : ""
+                        }`}
+                  </Text>
+                </View>
+              </View>
+            );
+          })}
+        </Card>
+      )}
+
+      {/* Clinician Notes */}
+      {results && (
+        <Card style={styles.diagnosisCard} variant="default">
+          <View style={styles.diagnosisHeader}>
+            <Ionicons
+              name="create-outline"
+              size={20}
+              color={theme.colors.primary}
+            />
+            <Text style={[styles.diagnosisTitle, { color: theme.colors.text }]}>
+              Clinician Notes
+            </Text>
+          </View>
+          <TextInput
+            value={notes}
+            onChangeText={setNotes}
+            onBlur={handleNotesBlur}
+            multiline
+            placeholder="Add notes to include in the PDF report"
+            placeholderTextColor={theme.colors.textSecondary}
+            style={[
+              styles.notesInput,
+              {
+                color: theme.colors.text,
+                borderColor: theme.colors.border,
+              },
+            ]}
+            accessibilityLabel="Clinician notes"
+          />
+        </Card>
+      )}
+
+      {/* Technical Details */}
+      {results && (
+        <Card style={styles.diagnosisCard} variant="default">
+          <Pressable
+            style={styles.detailsHeader}
+            onPress={() => setShowDetails(!showDetails)}
+            accessibilityRole="button"
+            accessibilityState={{ expanded: showDetails }}
+            accessibilityLabel="Technical details"
+          >
+            <Ionicons
+              name="information-circle-outline"
+              size={20}
+              color={theme.colors.primary}
+            />
+            <Text style={[styles.diagnosisTitle, { color: theme.colors.text }]}>
+              Technical Details
+            </Text>
+            <Ionicons
+              name={showDetails ? "chevron-up" : "chevron-down"}
+              size={20}
+              color={theme.colors.textSecondary}
+              style={styles.detailsChevron}
+            />
+          </Pressable>
+          {showDetails &&
+            (results.provenance ? (
+              <>
+                {renderDetailRow("Result ID", results.id)}
+                {renderDetailRow(
+                  "Analyzed",
+                  formatTimestamp(results.provenance.analyzedAt),
+                )}
+                {renderDetailRow(
+                  "App",
+                  `${results.provenance.appVersion} (${results.provenance.platform})`,
+                )}
+                {results.provenance.models.map((model, index) => (
+                  <View
+                    key={index}
+                    style={[
+                      styles.detailGroup,
+                      { borderTopColor: theme.colors.border },
+                    ]}
+                  >
+                    {renderDetailRow(
+                      "Backend",
+                      `${model.label} (${model.backendType})`,
+                    )}
+                    {renderDetailRow("Endpoint", model.endpoint)}
+                    {renderDetailRow(
+                      "Model",
+                      model.modelName ?? "Not reported",
+                    )}
+                    {renderDetailRow(
+                      "Version",
+                      model.modelVersion ?? "Not reported",
+                    )}
+                    {renderDetailRow(
+                      "Preprocessing",
+                      `${model.preprocessing.targetSize}px • ${
+                        model.preprocessing.steps
+                          .map((step) => STEP_LABELS[step.type])
+                          .join(", ") || "scaled only"
+                      }`,
+                    )}
+                  </View>
+                ))}
+              </>
+            ) : (
+              <Text
+                style={[
+                  styles.cachedText,
+                  { color: theme.colors.textSecondary },
+                ]}
+              >
+                Model details were not recorded for this analysis.
+              </Text>
+            ))}
+          {showDetails && results.timings && (
+            <View
+              style={[
+                styles.detailGroup,
+                { borderTopColor: theme.colors.border },
+              ]}
+              accessibilityLabel="Timing by stage"
+            >
+              {renderDetailRow(
+                "Preprocess",
+                formatDuration(results.timings.preprocessMs),
+              )}
+              {renderDetailRow(
+                "Upload",
+                `${formatDuration(results.timings.uploadMs)} • ${formatBytes(results.timings.uploadBytes)}`,
+              )}
+              {renderDetailRow(
+                "Queue",
+                formatDuration(results.timings.queueMs),
+              )}
+              {renderDetailRow(
+                "Inference",
+                formatDuration(results.timings.inferenceMs),
+              )}
+              {renderDetailRow(
+                "Download",
+                `${formatDuration(results.timings.downloadMs)} • ${formatBytes(results.timings.downloadBytes)}`,
+              )}
+            </View>
+          )}
+        </Card>
+      )}
+
       {/* Medical Disclaimer Banner */}
       <View
         style={[
@@ -325,6 +885,55 @@ export default function ResultScreen() {
           style={styles.actionButton}
           accessibilityHint="Opens share options to send analysis results"
         />
+        {results && apiResponse && (
+          <>
+            <Button
+              title="Export PDF"
+              onPress={handleExportPdf}
+              variant="outline"
+              icon="document-text-outline"
+              loading={exportingPdf}
+              style={styles.actionButton}
+              accessibilityHint="Creates a PDF report with images, findings and notes"
+            />
+            {apiResponse.maskImage ? (
+              <Pressable
+                style={styles.optionRow}
+                onPress={() => setIncludeMask(!includeMask)}
+                accessibilityRole="checkbox"
+                accessibilityState={{ checked: includeMask }}
+                accessibilityLabel="Include mask in DICOM export"
+              >
+                <Ionicons
+                  name={includeMask ? "checkbox" : "square-outline"}
+                  size={20}
+                  color={theme.colors.primary}
+                />
+                <Text style={[styles.optionText, { color: theme.colors.text }]}>
+                  Include mask in DICOM export
+                </Text>
+              </Pressable>
+            ) : null}
+            <Button
+              title="Export DICOM"
+              onPress={handleExportDicom}
+              variant="outline"
+              icon="document-attach-outline"
+              loading={exporting}
+              style={styles.actionButton}
+              accessibilityHint="Creates a DICOM Secondary Capture of the overlay that can be sent to PACS"
+            />
+            <Button
+              title="Export FHIR"
+              onPress={handleExportFhir}
+              variant="outline"
+              icon="code-download-outline"
+              loading={exportingFhir}
+              style={styles.actionButton}
+              accessibilityHint="Creates a FHIR DiagnosticReport bundle for EHR integration"
+            />
+          </>
+        )}
         <Button
           title="New Analysis"
           onPress={handleNewAnalysis}
@@ -391,6 +1000,17 @@ const styles = StyleSheet.create({
     width: "100%",
     height: "100%",
   },
+  unavailable: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    padding: 24,
+  },
+  unavailableText: {
+    fontSize: 14,
+    textAlign: "center",
+    marginTop: 8,
+  },
   zoomHint: {
     fontSize: 12,
     textAlign: "center",
@@ -409,10 +1029,105 @@ const styles = StyleSheet.create({
     fontWeight: "600",
     marginLeft: 8,
   },
+  verdictRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    alignItems: "center",
+    gap: 8,
+    marginBottom: 8,
+  },
+  verdictBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  verdictText: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  verdictDetail: {
+    fontSize: 13,
+    textTransform: "capitalize",
+  },
   diagnosisText: {
     fontSize: 14,
     lineHeight: 22,
   },
+  cachedText: {
+    fontSize: 14,
+    lineHeight: 20,
+    marginBottom: 12,
+  },
+  disagreementBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: 10,
+    borderRadius: 8,
+    marginBottom: 8,
+    gap: 8,
+  },
+  disagreementText: {
+    flex: 1,
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  opinionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 10,
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
+  opinionMask: {
+    width: 56,
+    height: 56,
+    borderRadius: 6,
+    overflow: "hidden",
+  },
+  opinionInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  opinionLabel: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  opinionEndpoint: {
+    fontSize: 12,
+    marginBottom: 2,
+  },
+  detailsHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  detailsChevron: {
+    marginLeft: "auto",
+  },
+  detailGroup: {
+    borderTopWidth: StyleSheet.hairlineWidth,
+    marginTop: 8,
+    paddingTop: 4,
+  },
+  detailRow: {
+    flexDirection: "row",
+    paddingVertical: 4,
+    gap: 12,
+  },
+  detailLabel: {
+    width: 100,
+    fontSize: 13,
+  },
+  detailValue: {
+    flex: 1,
+    fontSize: 13,
+  },
+  notesInput: {
+    minHeight: 88,
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 14,
+    textAlignVertical: "top",
+  },
   disclaimerBanner: {
     flexDirection: "row",
     padding: 12,
@@ -431,4 +1146,12 @@ const styles = StyleSheet.create({
   actionButton: {
     marginBottom: 0,
   },
+  optionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  optionText: {
+    fontSize: 14,
+  },
 });
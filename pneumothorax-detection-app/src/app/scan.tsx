@@ -158,7 +158,7 @@ export default function ScanScreen() {
     if (capturedImage) {
       setShowPreview(false);
       router.push({
-        pathname: "/preview",
+        pathname: "/perspective",
         params: { imageUri: capturedImage, source: "camera" },
       });
     }
@@ -21,9 +21,11 @@ export default function HistoryCard({
   thumbnailUri,
   date,
   detectionsCount,
+  status,
   onPress,
   onDelete,
   apiResponse,
+  isDuplicate = false,
 }: HistoryCardProps) {
   const { theme } = useTheme();
 
@@ -59,12 +61,37 @@ export default function HistoryCard({
     });
   };
 
+  // Summarize the outcome, preferring region counts when the mask had any
+  const getSummary = (): string => {
+    if (detectionsCount > 0) {
+      return `${detectionsCount} detection${detectionsCount !== 1 ? "s" : ""} found`;
+    }
+    if (status === "error") return "Analysis failed";
+    if (status === "detected") return "Pneumothorax detected";
+    if (status === "inconclusive") return "Inconclusive result";
+    return "No pneumothorax detected";
+  };
+
+  const isFailed = status === "error";
+  const isPositive = detectionsCount > 0 || status === "detected";
+  const isInconclusive = !isPositive && status === "inconclusive";
+  const summaryColor = isFailed
+    ? theme.colors.error
+    : isPositive
+      ? theme.colors.warning
+      : isInconclusive
+        ? theme.colors.textSecondary
+        : theme.colors.success;
+  const summaryIcon = isFailed
+    ? "alert-circle"
+    : isPositive
+      ? "warning"
+      : isInconclusive
+        ? "help-circle"
+        : "checkmark-circle";
+
   // Generate accessibility label
-  const accessibilityLabel = `Analysis from ${formatDate(date)}. ${
-    detectionsCount > 0
-      ? `${detectionsCount} detection${detectionsCount !== 1 ? "s" : ""} found`
-      : "No pneumothorax detected"
-  }. Swipe left to delete.`;
+  const accessibilityLabel = `Analysis from ${formatDate(date)}. ${getSummary()}.${isDuplicate ? " Same image as another analysis." : ""} Swipe left to delete.`;
 
   // Render right swipe action (delete)
   const renderRightActions = () => {
@@ -161,41 +188,29 @@ export default function HistoryCard({
             </Text>
 
             <View style={styles.detectionRow}>
-              {detectionsCount > 0 ? (
-                <>
-                  <Ionicons
-                    name="warning"
-                    size={16}
-                    color={theme.colors.warning}
-                  />
-                  <Text
-                    style={[
-                      styles.detectionText,
-                      { color: theme.colors.warning },
-                    ]}
-                  >
-                    {detectionsCount} detection
-                    {detectionsCount !== 1 ? "s" : ""} found
-                  </Text>
-                </>
-              ) : (
-                <>
-                  <Ionicons
-                    name="checkmark-circle"
-                    size={16}
-                    color={theme.colors.success}
-                  />
-                  <Text
-                    style={[
-                      styles.detectionText,
-                      { color: theme.colors.success },
-                    ]}
-                  >
-                    No pneumothorax detected
-                  </Text>
-                </>
-              )}
+              <Ionicons name={summaryIcon} size={16} color={summaryColor} />
+              <Text style={[styles.detectionText, { color: summaryColor }]}>
+                {getSummary()}
+              </Text>
             </View>
+
+            {isDuplicate && (
+              <View style={styles.detectionRow}>
+                <Ionicons
+                  name="copy-outline"
+                  size={14}
+                  color={theme.colors.textSecondary}
+                />
+                <Text
+                  style={[
+                    styles.duplicateText,
+                    { color: theme.colors.textSecondary },
+                  ]}
+                >
+                  Duplicate image
+                </Text>
+              </View>
+            )}
           </View>
 
           {/* Chevron */}
@@ -287,6 +302,11 @@ const styles = StyleSheet.create({
     fontSize: 14,
     marginLeft: 6,
   },
+  duplicateText: {
+    fontSize: 12,
+    marginLeft: 6,
+    marginTop: 2,
+  },
   deleteAction: {
     justifyContent: "center",
     alignItems: "center",
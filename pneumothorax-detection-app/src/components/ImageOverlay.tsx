@@ -1,6 +1,6 @@
 
 
-import React, { useState, useRef, useCallback } from "react";
+import React, { useState, useRef, useCallback, useEffect } from "react";
 import {
   View,
   Image,
@@ -14,21 +14,50 @@ import {
 import { useTheme } from "../context/ThemeContext";
 import { BoundingBox, ImageOverlayProps } from "../types";
 
+interface ImageRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
 interface TooltipState {
   visible: boolean;
   box: BoundingBox | null;
   position: { x: number; y: number };
 }
 
+/**
+ * Where a "contain" image is drawn inside its view
+ * Before the image size is known, the whole view is assumed
+ */
+function containRect(
+  view: { width: number; height: number },
+  image: { width: number; height: number } | null,
+): ImageRect {
+  if (!image || !image.width || !image.height) {
+    return { x: 0, y: 0, ...view };
+  }
+  const scale = Math.min(view.width / image.width, view.height / image.height);
+  const width = image.width * scale;
+  const height = image.height * scale;
+  return {
+    x: (view.width - width) / 2,
+    y: (view.height - height) / 2,
+    width,
+    height,
+  };
+}
+
 function AnimatedBoundingBox({
   box,
-  imageSize,
+  imageRect,
   theme,
   showLabels,
   onPress,
 }: {
   box: BoundingBox;
-  imageSize: { width: number; height: number };
+  imageRect: ImageRect;
   theme: any;
   showLabels: boolean;
   onPress: (box: BoundingBox, event: any) => void;
@@ -54,10 +83,10 @@ function AnimatedBoundingBox({
   }, [scaleAnim]);
 
   // Convert percentage coordinates to pixel positions
-  const left = (box.x / 100) * imageSize.width;
-  const top = (box.y / 100) * imageSize.height;
-  const width = (box.width / 100) * imageSize.width;
-  const height = (box.height / 100) * imageSize.height;
+  const left = imageRect.x + (box.x / 100) * imageRect.width;
+  const top = imageRect.y + (box.y / 100) * imageRect.height;
+  const width = (box.width / 100) * imageRect.width;
+  const height = (box.height / 100) * imageRect.height;
 
   return (
     <Pressable
@@ -103,12 +132,26 @@ export default function ImageOverlay({
 }: ImageOverlayProps) {
   const { theme } = useTheme();
   const [imageSize, setImageSize] = useState({ width: 0, height: 0 });
+  const [naturalSize, setNaturalSize] = useState<{
+    width: number;
+    height: number;
+  } | null>(null);
   const [tooltip, setTooltip] = useState<TooltipState>({
     visible: false,
     box: null,
     position: { x: 0, y: 0 },
   });
 
+  // Boxes are relative to the image, which need not fill the view
+  useEffect(() => {
+    setNaturalSize(null);
+    Image.getSize(
+      imageUri,
+      (width, height) => setNaturalSize({ width, height }),
+      () => setNaturalSize(null),
+    );
+  }, [imageUri]);
+
   const handleImageLayout = (event: any) => {
     const { width, height } = event.nativeEvent.layout;
     setImageSize({ width, height });
@@ -153,7 +196,7 @@ export default function ImageOverlay({
             <AnimatedBoundingBox
               key={box.id}
               box={box}
-              imageSize={imageSize}
+              imageRect={containRect(imageSize, naturalSize)}
               theme={theme}
               showLabels={showLabels}
               onPress={handleBoxPress}
@@ -229,6 +272,23 @@ export default function ImageOverlay({
                   ({Math.round(tooltip.box.x)}%, {Math.round(tooltip.box.y)}%)
                 </Text>
               </View>
+              {tooltip.box.area !== undefined && (
+                <View style={styles.tooltipRow}>
+                  <Text
+                    style={[
+                      styles.tooltipLabel,
+                      { color: theme.colors.textSecondary },
+                    ]}
+                  >
+                    Area:
+                  </Text>
+                  <Text
+                    style={[styles.tooltipValue, { color: theme.colors.text }]}
+                  >
+                    {tooltip.box.area.toFixed(1)}%
+                  </Text>
+                </View>
+              )}
             </View>
           )}
         </Pressable>
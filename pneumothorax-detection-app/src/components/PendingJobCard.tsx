@@ -0,0 +1,175 @@
+import React from "react";
+import {
+  View,
+  Text,
+  Image,
+  StyleSheet,
+  Pressable,
+  ActivityIndicator,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useTheme } from "../context/ThemeContext";
+import { QueuedAnalysis } from "../types";
+
+const THUMBNAIL_SIZE = 56;
+
+export interface PendingJobCardProps {
+  job: QueuedAnalysis;
+  isOnline: boolean;
+  onRetry: () => void;
+  onCancel: () => void;
+}
+
+export default function PendingJobCard({
+  job,
+  isOnline,
+  onRetry,
+  onCancel,
+}: PendingJobCardProps) {
+  const { theme } = useTheme();
+
+  const getStatusText = (): string => {
+    switch (job.status) {
+      case "running":
+        return "Analyzing...";
+      case "failed":
+        return job.lastError?.message ?? "Analysis failed";
+      case "queued":
+      default:
+        if (!isOnline) return "Waiting for connection";
+        if (job.nextAttemptAt && Date.parse(job.nextAttemptAt) > Date.now()) {
+          const retryAt = new Date(job.nextAttemptAt).toLocaleTimeString(
+            "en-US",
+            { hour: "2-digit", minute: "2-digit" },
+          );
+          return `${job.lastError?.message ?? "Server unavailable"} Retrying at ${retryAt}`;
+        }
+        return "Waiting to analyze";
+    }
+  };
+
+  const statusColor =
+    job.status === "failed"
+      ? theme.colors.error
+      : job.status === "running"
+        ? theme.colors.primary
+        : theme.colors.textSecondary;
+
+  const queuedAt = new Date(job.createdAt).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+  return (
+    <View
+      style={[
+        styles.container,
+        {
+          backgroundColor: theme.colors.surface,
+          borderColor: theme.colors.border,
+        },
+      ]}
+      accessibilityLabel={`Pending analysis queued ${queuedAt}. ${getStatusText()}`}
+    >
+      <Image
+        source={{ uri: job.imageUri }}
+        style={[
+          styles.thumbnail,
+          { backgroundColor: theme.colors.surfaceVariant },
+        ]}
+        resizeMode="cover"
+      />
+
+      <View style={styles.content}>
+        <Text style={[styles.date, { color: theme.colors.text }]}>
+          Queued {queuedAt}
+        </Text>
+        <View style={styles.statusRow}>
+          {job.status === "running" && (
+            <ActivityIndicator size="small" color={theme.colors.primary} />
+          )}
+          <Text
+            style={[styles.statusText, { color: statusColor }]}
+            numberOfLines={2}
+          >
+            {getStatusText()}
+          </Text>
+        </View>
+      </View>
+
+      {job.status !== "running" && (
+        <View style={styles.actions}>
+          <Pressable
+            onPress={onRetry}
+            style={styles.actionButton}
+            accessibilityRole="button"
+            accessibilityLabel="Retry pending analysis now"
+          >
+            <Ionicons
+              name="refresh-outline"
+              size={22}
+              color={theme.colors.primary}
+            />
+          </Pressable>
+          <Pressable
+            onPress={onCancel}
+            style={styles.actionButton}
+            accessibilityRole="button"
+            accessibilityLabel="Cancel pending analysis"
+          >
+            <Ionicons
+              name="close-circle-outline"
+              size={22}
+              color={theme.colors.error}
+            />
+          </Pressable>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: 12,
+    marginHorizontal: 16,
+    marginVertical: 6,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderStyle: "dashed",
+  },
+  thumbnail: {
+    width: THUMBNAIL_SIZE,
+    height: THUMBNAIL_SIZE,
+    borderRadius: 8,
+  },
+  content: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  date: {
+    fontSize: 14,
+    fontWeight: "600",
+    marginBottom: 4,
+  },
+  statusRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  statusText: {
+    flex: 1,
+    fontSize: 13,
+  },
+  actions: {
+    flexDirection: "row",
+    gap: 4,
+  },
+  actionButton: {
+    padding: 6,
+  },
+});
@@ -0,0 +1,132 @@
+import React from "react";
+import { View, Text, StyleSheet, ActivityIndicator } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useTheme } from "../context/ThemeContext";
+import { Theme } from "../constants/theme";
+import { QualityCriterion, QualityReport, QualityVerdict } from "../types";
+
+const CRITERION_LABELS: Record<QualityCriterion, string> = {
+  resolution: "Resolution",
+  sharpness: "Sharpness",
+  glare: "Glare",
+  exposure: "Exposure",
+};
+
+const VERDICT_ICONS: Record<QualityVerdict, keyof typeof Ionicons.glyphMap> = {
+  pass: "checkmark-circle",
+  warn: "warning",
+  fail: "close-circle",
+};
+
+const VERDICT_COLORS: Record<QualityVerdict, (theme: Theme) => string> = {
+  pass: (theme) => theme.colors.success,
+  warn: (theme) => theme.colors.warning,
+  fail: (theme) => theme.colors.error,
+};
+
+const SUMMARY: Record<QualityVerdict, string> = {
+  pass: "Image quality looks good",
+  warn: "Image quality may affect the result",
+  fail: "Image quality is too low to analyze",
+};
+
+export interface QualityCardProps {
+  report: QualityReport | null;
+  assessing: boolean;
+}
+
+export default function QualityCard({ report, assessing }: QualityCardProps) {
+  const { theme } = useTheme();
+
+  return (
+    <View
+      style={[
+        styles.container,
+        {
+          backgroundColor: theme.colors.surface,
+          borderColor: report
+            ? VERDICT_COLORS[report.verdict](theme)
+            : theme.colors.border,
+        },
+      ]}
+      accessibilityLabel={
+        report ? SUMMARY[report.verdict] : "Checking image quality"
+      }
+      testID="quality-card"
+    >
+      <View style={styles.header}>
+        {assessing || !report ? (
+          <ActivityIndicator size="small" color={theme.colors.primary} />
+        ) : (
+          <Ionicons
+            name={VERDICT_ICONS[report.verdict]}
+            size={20}
+            color={VERDICT_COLORS[report.verdict](theme)}
+          />
+        )}
+        <Text style={[styles.title, { color: theme.colors.text }]}>
+          {assessing || !report
+            ? "Checking image quality..."
+            : SUMMARY[report.verdict]}
+        </Text>
+      </View>
+
+      {report &&
+        !assessing &&
+        report.checks.map((check) => (
+          <View
+            key={check.criterion}
+            style={styles.row}
+            accessibilityLabel={`${CRITERION_LABELS[check.criterion]}: ${check.message}`}
+          >
+            <Ionicons
+              name={VERDICT_ICONS[check.verdict]}
+              size={16}
+              color={VERDICT_COLORS[check.verdict](theme)}
+            />
+            <Text style={[styles.criterion, { color: theme.colors.text }]}>
+              {CRITERION_LABELS[check.criterion]}
+            </Text>
+            <Text
+              style={[styles.message, { color: theme.colors.textSecondary }]}
+            >
+              {check.message}
+            </Text>
+          </View>
+        ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: 12,
+    borderWidth: 1,
+    padding: 16,
+    marginBottom: 16,
+    gap: 10,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: 8,
+  },
+  criterion: {
+    width: 80,
+    fontSize: 13,
+    fontWeight: "500",
+  },
+  message: {
+    flex: 1,
+    fontSize: 13,
+  },
+});
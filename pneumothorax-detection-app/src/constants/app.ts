@@ -0,0 +1,6 @@
+import Constants from "expo-constants";
+
+/**
+ * Version from app.json, shown in settings and recorded on every result
+ */
+export const APP_VERSION = Constants.expoConfig?.version || "1.0.0";
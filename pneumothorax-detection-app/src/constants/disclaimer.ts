@@ -0,0 +1,15 @@
+/**
+ * Medical disclaimer shown in settings and printed on exported reports
+ */
+export const MEDICAL_DISCLAIMER = `This application is intended for educational and informational purposes only. It is NOT a substitute for professional medical advice, diagnosis, or treatment.
+
+The pneumothorax detection feature uses artificial intelligence to analyze chest X-ray and CT scan images. While the technology aims to assist in identifying potential pneumothorax conditions, it should NOT be used as the sole basis for medical decisions.
+
+Important considerations:
+• Always consult a qualified healthcare professional for proper diagnosis
+• AI-based detection may produce false positives or false negatives
+• Results should be verified by a licensed radiologist or physician
+• Do not delay seeking medical attention based on app results
+• This app is not FDA-approved for clinical diagnosis
+
+By using this application, you acknowledge that you understand these limitations and agree to use the results responsibly.`;
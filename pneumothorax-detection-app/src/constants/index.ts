@@ -1,2 +1,4 @@
 // Constants barrel export
 export * from "./theme";
+export * from "./disclaimer";
+export * from "./app";
@@ -4,25 +4,64 @@ import React, {
   useState,
   useEffect,
   useCallback,
+  useRef,
   ReactNode,
 } from "react";
-import AsyncStorage from "@react-native-async-storage/async-storage";
 import { DetectionResult, HistoryItem, PneumoAPIResponse } from "../types";
+import { openHistoryRepository } from "../services/history";
+import { deletePreprocessedImage } from "../services/preprocessing";
+import {
+  cacheResult,
+  clearResultCache,
+  evictCachedResults,
+  resultCacheKeyFor,
+} from "../services/resultCache";
+import {
+  cleanupOrphanedImages,
+  deleteResultImages,
+  migrateHistoryImages,
+  persistSourceImage,
+  resolveResultImages,
+  resolveStoredImage,
+  toStoredImage,
+  toStoredResultImages,
+} from "../services/resultImages";
+import { summarizeTimings, TimingSummary } from "../services/stageTimings";
 
-const HISTORY_STORAGE_KEY = "@pneumothorax_app_history";
+const HISTORY_PAGE_SIZE = 20;
+
+/**
+ * Figures over the whole history, not just the loaded pages
+ */
+interface HistoryStats {
+  total: number;
+  duplicateHashes: Set<string>; // content hashes analyzed more than once
+  timingSummary: TimingSummary | null;
+}
+
+const EMPTY_STATS: HistoryStats = {
+  total: 0,
+  duplicateHashes: new Set(),
+  timingSummary: null,
+};
 
 interface AnalysisContextValue {
   currentAnalysis: DetectionResult | null;
+  // Newest first; older pages are added by loadMoreHistory
   history: HistoryItem[];
+  historyStats: HistoryStats;
+  hasMoreHistory: boolean;
   isLoading: boolean;
   setCurrentAnalysis: (analysis: DetectionResult | null) => void;
   addToHistory: (
     result: DetectionResult,
     apiResponse?: PneumoAPIResponse,
   ) => Promise<void>;
+  updateNotes: (id: string, notes: string) => Promise<void>;
   removeFromHistory: (id: string) => Promise<void>;
   clearHistory: () => Promise<void>;
   loadHistory: () => Promise<void>;
+  loadMoreHistory: () => Promise<void>;
 }
 
 const AnalysisContext = createContext<AnalysisContextValue | undefined>(
@@ -33,25 +72,86 @@ interface AnalysisProviderProps {
   children: ReactNode;
 }
 
+// Web object URLs are stored as their IndexedDB references
+async function toStoredItem(item: HistoryItem): Promise<HistoryItem> {
+  return {
+    ...(await toStoredResultImages(item)),
+    imageUri: toStoredImage(item.imageUri),
+    thumbnailUri: toStoredImage(item.thumbnailUri),
+  };
+}
+
+async function toDisplayItems(items: HistoryItem[]): Promise<HistoryItem[]> {
+  return Promise.all(
+    items.map(async (item) => ({
+      ...(await resolveResultImages(item)),
+      imageUri: await resolveStoredImage(item.imageUri),
+      thumbnailUri: await resolveStoredImage(item.thumbnailUri),
+    })),
+  );
+}
+
 export function AnalysisProvider({ children }: AnalysisProviderProps) {
   const [currentAnalysis, setCurrentAnalysis] =
     useState<DetectionResult | null>(null);
   const [history, setHistory] = useState<HistoryItem[]>([]);
+  const [historyStats, setHistoryStats] = useState<HistoryStats>(EMPTY_STATS);
+  const [hasMoreHistory, setHasMoreHistory] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
+  // Latest loaded history for writers that outlive a render (e.g. the
+  // offline queue)
+  const historyRef = useRef<HistoryItem[]>([]);
+  const cursorRef = useRef<string | null>(null);
+  const loadingMoreRef = useRef(false);
+  const migratingRef = useRef(false);
 
-  // Load history from AsyncStorage on mount
+  const setLoadedHistory = (items: HistoryItem[]) => {
+    historyRef.current = items;
+    setHistory(items);
+  };
+
+  // Load the first page of history on mount
   useEffect(() => {
-    loadHistory();
+    // Only on launch; a refresh mid-analysis would race new results
+    loadHistory().then(async () => {
+      try {
+        const repository = await openHistoryRepository();
+        await cleanupOrphanedImages(await repository.listIds());
+      } catch (error) {
+        console.warn("Failed to list history for cleanup:", error);
+      }
+    });
   }, []);
 
+  const refreshStats = async () => {
+    try {
+      const repository = await openHistoryRepository();
+      const [total, duplicateHashes, timings] = await Promise.all([
+        repository.count(),
+        repository.duplicateHashes(),
+        repository.listTimings(),
+      ]);
+      setHistoryStats({
+        total,
+        duplicateHashes: new Set(duplicateHashes),
+        timingSummary: summarizeTimings(timings),
+      });
+    } catch (error) {
+      console.warn("Failed to read history stats:", error);
+    }
+  };
+
   const loadHistory = useCallback(async () => {
     try {
       setIsLoading(true);
-      const storedHistory = await AsyncStorage.getItem(HISTORY_STORAGE_KEY);
-      if (storedHistory) {
-        const parsed = JSON.parse(storedHistory) as HistoryItem[];
-        setHistory(parsed);
-      }
+      const repository = await openHistoryRepository();
+      const page = await repository.getPage(HISTORY_PAGE_SIZE);
+      cursorRef.current = page.nextCursor;
+      setHasMoreHistory(page.nextCursor !== null);
+      setLoadedHistory(await toDisplayItems(page.items));
+      refreshStats();
+      // Runs in the background so the list shows immediately
+      migrateImages();
     } catch (error) {
       console.warn("Failed to load history:", error);
     } finally {
@@ -59,24 +159,112 @@ export function AnalysisProvider({ children }: AnalysisProviderProps) {
     }
   }, []);
 
-  const saveHistory = async (newHistory: HistoryItem[]) => {
+  const loadMoreHistory = useCallback(async () => {
+    if (!cursorRef.current || loadingMoreRef.current) return;
+    loadingMoreRef.current = true;
+
     try {
-      await AsyncStorage.setItem(
-        HISTORY_STORAGE_KEY,
-        JSON.stringify(newHistory),
+      const repository = await openHistoryRepository();
+      const page = await repository.getPage(
+        HISTORY_PAGE_SIZE,
+        cursorRef.current,
+      );
+      cursorRef.current = page.nextCursor;
+      setHasMoreHistory(page.nextCursor !== null);
+
+      const loaded = new Set(historyRef.current.map((item) => item.id));
+      const older = await toDisplayItems(
+        page.items.filter((item) => !loaded.has(item.id)),
       );
+      setLoadedHistory([...historyRef.current, ...older]);
+    } catch (error) {
+      console.warn("Failed to load more history:", error);
+    } finally {
+      loadingMoreRef.current = false;
+    }
+  }, []);
+
+  // Save images of entries from older versions, or mark them expired
+  const migrateImages = async () => {
+    // Pull-to-refresh reloads history; one pass at a time is enough
+    if (migratingRef.current) return;
+    migratingRef.current = true;
+
+    try {
+      const repository = await openHistoryRepository();
+      let cursor: string | null = null;
+      do {
+        const page = await repository.getPage(HISTORY_PAGE_SIZE, cursor);
+        cursor = page.nextCursor;
+
+        const changed = await migrateHistoryImages(page.items);
+        if (!changed.length) continue;
+
+        // Items may have been edited or removed while downloading
+        const updates: HistoryItem[] = [];
+        for (const migrated of changed) {
+          const current = await repository.getItem(migrated.id);
+          if (!current) continue;
+          updates.push(
+            await toStoredItem({
+              ...current,
+              imageUri: migrated.imageUri,
+              thumbnailUri: migrated.thumbnailUri,
+              apiResponse: migrated.apiResponse,
+              unavailableImages: migrated.unavailableImages,
+              preprocessed: migrated.preprocessed,
+            }),
+          );
+        }
+        await repository.update(updates);
+
+        const displayed = await toDisplayItems(changed);
+        const byId = new Map(displayed.map((item) => [item.id, item]));
+        setLoadedHistory(
+          historyRef.current.map((item) => {
+            const migrated = byId.get(item.id);
+            return migrated
+              ? {
+                  ...item,
+                  imageUri: migrated.imageUri,
+                  thumbnailUri: migrated.thumbnailUri,
+                  apiResponse: migrated.apiResponse,
+                  unavailableImages: migrated.unavailableImages,
+                  preprocessed: migrated.preprocessed,
+                }
+              : item;
+          }),
+        );
+      } while (cursor);
     } catch (error) {
-      console.warn("Failed to save history:", error);
-      throw error;
+      console.warn("Failed to migrate history images:", error);
+    } finally {
+      migratingRef.current = false;
     }
   };
 
   const addToHistory = useCallback(
     async (result: DetectionResult, apiResponse?: PneumoAPIResponse) => {
+      const repository = await openHistoryRepository();
+      // Cached results are already saved; keep the existing entry and notes
+      if (
+        historyRef.current.some((item) => item.id === result.id) ||
+        (await repository.getItem(result.id))
+      ) {
+        return;
+      }
+
+      let images = { imageUri: result.imageUri, thumbnailUri: result.imageUri };
+      try {
+        images = await persistSourceImage(result.id, result.imageUri);
+      } catch (error) {
+        // Still worth saving; the launch migration retries the copy
+        console.warn("Failed to copy source image:", error);
+      }
+
       const historyItem: HistoryItem = {
         id: result.id,
-        imageUri: result.imageUri,
-        thumbnailUri: result.imageUri,
+        ...images,
         timestamp:
           result.timestamp instanceof Date
             ? result.timestamp.toISOString()
@@ -85,38 +273,102 @@ export function AnalysisProvider({ children }: AnalysisProviderProps) {
         averageConfidence: result.averageConfidence,
         boundingBoxes: result.boundingBoxes,
         apiResponse: apiResponse,
+        status: result.status,
+        report: result.report,
+        error: result.error,
+        preprocessed: result.preprocessed,
+        dicom: result.dicom,
+        notes: result.notes,
+        ensemble: result.ensemble,
+        provenance: result.provenance,
+        timings: result.timings,
       };
 
-      const newHistory = [historyItem, ...history];
-      setHistory(newHistory);
-      await saveHistory(newHistory);
-    },
-    [history],
-  );
+      try {
+        await repository.insert([await toStoredItem(historyItem)]);
+      } catch (error) {
+        console.warn("Failed to save history:", error);
+        throw error;
+      }
+      setLoadedHistory([historyItem, ...historyRef.current]);
+      refreshStats();
 
-  const removeFromHistory = useCallback(
-    async (id: string) => {
-      const newHistory = history.filter((item) => item.id !== id);
-      setHistory(newHistory);
-      await saveHistory(newHistory);
+      // Offered for identical images only once it is safely in history
+      const cacheKey = resultCacheKeyFor(result);
+      if (cacheKey && apiResponse) {
+        try {
+          await cacheResult(cacheKey, result, apiResponse);
+        } catch (error) {
+          // A cache miss next time is harmless
+          console.warn("Failed to cache result:", error);
+        }
+      }
     },
-    [history],
+    [],
   );
 
+  const updateNotes = useCallback(async (id: string, notes: string) => {
+    const repository = await openHistoryRepository();
+    const stored = await repository.getItem(id);
+    if (stored) {
+      await repository.update([{ ...stored, notes }]);
+    }
+    setLoadedHistory(
+      historyRef.current.map((item) =>
+        item.id === id ? { ...item, notes } : item,
+      ),
+    );
+  }, []);
+
+  const removeFromHistory = useCallback(async (id: string) => {
+    const repository = await openHistoryRepository();
+    const removed = await repository.getItem(id);
+    if (removed?.preprocessed) {
+      await deletePreprocessedImage(removed.preprocessed.uri);
+    }
+    await deleteResultImages(id);
+    await repository.remove(id);
+    setLoadedHistory(historyRef.current.filter((item) => item.id !== id));
+    await evictCachedResults([id]);
+    refreshStats();
+  }, []);
+
   const clearHistory = useCallback(async () => {
-    setHistory([]);
-    await AsyncStorage.removeItem(HISTORY_STORAGE_KEY);
+    const repository = await openHistoryRepository();
+    let cursor: string | null = null;
+    do {
+      const page = await repository.getPage(HISTORY_PAGE_SIZE, cursor);
+      cursor = page.nextCursor;
+      await Promise.all(
+        page.items
+          .filter((item) => item.preprocessed)
+          .map((item) => deletePreprocessedImage(item.preprocessed!.uri)),
+      );
+      await Promise.all(page.items.map((item) => deleteResultImages(item.id)));
+    } while (cursor);
+
+    await repository.clear();
+    cursorRef.current = null;
+    setHasMoreHistory(false);
+    setLoadedHistory([]);
+    setHistoryStats(EMPTY_STATS);
+    await clearResultCache();
+    await cleanupOrphanedImages([]);
   }, []);
 
   const value: AnalysisContextValue = {
     currentAnalysis,
     history,
+    historyStats,
+    hasMoreHistory,
     isLoading,
     setCurrentAnalysis,
     addToHistory,
+    updateNotes,
     removeFromHistory,
     clearHistory,
     loadHistory,
+    loadMoreHistory,
   };
 
   return (
@@ -0,0 +1,223 @@
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useCallback,
+  useRef,
+  ReactNode,
+} from "react";
+import NetInfo from "@react-native-community/netinfo";
+import { DicomMetadata, QueuedAnalysis } from "../types";
+import { useAnalysis } from "./AnalysisContext";
+import { useBackend } from "./BackendContext";
+import { analyzeImage } from "../services/pneumoDetection";
+import { toAnalysisError } from "../services/analysisErrors";
+import {
+  createQueuedAnalysis,
+  deleteQueuedImage,
+  isJobDue,
+  loadQueue,
+  saveQueue,
+  scheduleNextAttempt,
+} from "../services/analysisQueue";
+
+interface AnalysisQueueContextValue {
+  jobs: QueuedAnalysis[];
+  isOnline: boolean;
+  enqueue: (imageUri: string, dicom?: DicomMetadata) => Promise<void>;
+  retryJob: (id: string) => void;
+  cancelJob: (id: string) => Promise<void>;
+}
+
+const AnalysisQueueContext = createContext<
+  AnalysisQueueContextValue | undefined
+>(undefined);
+
+interface AnalysisQueueProviderProps {
+  children: ReactNode;
+}
+
+export function AnalysisQueueProvider({
+  children,
+}: AnalysisQueueProviderProps) {
+  const { addToHistory } = useAnalysis();
+  const { backend, ensemble } = useBackend();
+  const [jobs, setJobs] = useState<QueuedAnalysis[]>([]);
+  const [isOnline, setIsOnline] = useState(true);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const processingRef = useRef(false);
+  const wasOnlineRef = useRef(true);
+
+  // Restore persisted jobs on mount
+  useEffect(() => {
+    loadQueue()
+      .then(setJobs)
+      .catch((error) => console.warn("Failed to load queue:", error))
+      .finally(() => setIsLoaded(true));
+  }, []);
+
+  // Track connectivity; an unknown reachability counts as online
+  // Only NetInfo decides this. A failing server is not a lost connection.
+  useEffect(() => {
+    return NetInfo.addEventListener((state) => {
+      setIsOnline(
+        state.isConnected !== false && state.isInternetReachable !== false,
+      );
+    });
+  }, []);
+
+  const updateJobs = useCallback(
+    (update: (current: QueuedAnalysis[]) => QueuedAnalysis[]) => {
+      setJobs((current) => {
+        const next = update(current);
+        saveQueue(next).catch((error) =>
+          console.warn("Failed to save queue:", error),
+        );
+        return next;
+      });
+    },
+    [],
+  );
+
+  const processJob = useCallback(
+    async (job: QueuedAnalysis) => {
+      updateJobs((current) =>
+        current.map((j) =>
+          j.id === job.id
+            ? { ...j, status: "running", attempts: j.attempts + 1 }
+            : j,
+        ),
+      );
+
+      try {
+        const { result, apiResponse } = await analyzeImage(job.imageUri, {
+          backend,
+          ensemble,
+        });
+        if (job.dicom) {
+          result.dicom = job.dicom;
+        }
+        await addToHistory(result, apiResponse);
+        // History keeps its own copy of the image
+        await deleteQueuedImage(job);
+        updateJobs((current) => current.filter((j) => j.id !== job.id));
+      } catch (error) {
+        const failure = toAnalysisError(error).toFailure();
+        // Connectivity, server and timeout failures stay queued and are
+        // resubmitted with backoff
+        updateJobs((current) =>
+          current.map((j) =>
+            j.id !== job.id
+              ? j
+              : failure.kind === "network"
+                ? {
+                    ...j,
+                    status: "queued",
+                    lastError: failure,
+                    nextAttemptAt: scheduleNextAttempt(j.attempts),
+                  }
+                : { ...j, status: "failed", lastError: failure },
+          ),
+        );
+      }
+    },
+    [backend, ensemble, addToHistory, updateJobs],
+  );
+
+  // Reconnecting is a better signal than the backoff timer
+  useEffect(() => {
+    if (isOnline && !wasOnlineRef.current) {
+      updateJobs((current) =>
+        current.map((j) =>
+          j.status === "queued" && j.nextAttemptAt
+            ? { ...j, nextAttemptAt: undefined }
+            : j,
+        ),
+      );
+    }
+    wasOnlineRef.current = isOnline;
+  }, [isOnline, updateJobs]);
+
+  // Work through queued jobs one at a time while online
+  useEffect(() => {
+    if (!isLoaded || !isOnline || processingRef.current) return;
+    const queued = jobs.filter((job) => job.status === "queued");
+    const next = queued.find((job) => isJobDue(job));
+    if (!next) {
+      // Wake up when the earliest backoff ends
+      const waits = queued.map((job) => Date.parse(job.nextAttemptAt!));
+      if (!waits.length) return;
+      const timer = setTimeout(
+        () => setJobs((current) => [...current]),
+        Math.max(0, Math.min(...waits) - Date.now()),
+      );
+      return () => clearTimeout(timer);
+    }
+
+    processingRef.current = true;
+    processJob(next).finally(() => {
+      processingRef.current = false;
+      // Re-run this effect for the next job
+      setJobs((current) => [...current]);
+    });
+  }, [jobs, isOnline, isLoaded, processJob]);
+
+  const enqueue = useCallback(
+    async (imageUri: string, dicom?: DicomMetadata) => {
+      const job = await createQueuedAnalysis(imageUri, dicom);
+      updateJobs((current) => [...current, job]);
+    },
+    [updateJobs],
+  );
+
+  // Manual retry skips any remaining backoff
+  const retryJob = useCallback(
+    (id: string) => {
+      updateJobs((current) =>
+        current.map((j) =>
+          j.id === id && j.status !== "running"
+            ? { ...j, status: "queued", nextAttemptAt: undefined }
+            : j,
+        ),
+      );
+    },
+    [updateJobs],
+  );
+
+  const cancelJob = useCallback(
+    async (id: string) => {
+      const job = jobs.find((j) => j.id === id);
+      if (!job || job.status === "running") return;
+      updateJobs((current) => current.filter((j) => j.id !== id));
+      await deleteQueuedImage(job);
+    },
+    [jobs, updateJobs],
+  );
+
+  const value: AnalysisQueueContextValue = {
+    jobs,
+    isOnline,
+    enqueue,
+    retryJob,
+    cancelJob,
+  };
+
+  return (
+    <AnalysisQueueContext.Provider value={value}>
+      {children}
+    </AnalysisQueueContext.Provider>
+  );
+}
+
+export function useAnalysisQueue(): AnalysisQueueContextValue {
+  const context = useContext(AnalysisQueueContext);
+  if (context === undefined) {
+    throw new Error(
+      "useAnalysisQueue must be used within an AnalysisQueueProvider",
+    );
+  }
+  return context;
+}
+
+export { AnalysisQueueContext };
@@ -0,0 +1,168 @@
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useCallback,
+  useMemo,
+  ReactNode,
+} from "react";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  BackendConfig,
+  DetectionBackend,
+  EnsembleConfig,
+  EnsembleOptions,
+} from "../types";
+import {
+  createBackend,
+  createDemoBackend,
+  DEFAULT_BACKEND_CONFIG,
+} from "../services/backends";
+import { DEFAULT_ENSEMBLE_CONFIG } from "../services/ensemble";
+
+const BACKEND_STORAGE_KEY = "@pneumothorax_app_backend";
+const ENSEMBLE_STORAGE_KEY = "@pneumothorax_app_ensemble";
+const DEMO_MODE_STORAGE_KEY = "@pneumothorax_app_demo_mode";
+
+interface BackendContextValue {
+  backend: DetectionBackend;
+  backendConfig: BackendConfig;
+  setBackendConfig: (config: BackendConfig) => void;
+  resetBackendConfig: () => void;
+  ensembleConfig: EnsembleConfig;
+  setEnsembleConfig: (config: EnsembleConfig) => void;
+  // Set when the ensemble is enabled with at least one additional model
+  ensemble: EnsembleOptions | undefined;
+  // Swaps the configured backend for the bundled sample cases
+  demoMode: boolean;
+  setDemoMode: (enabled: boolean) => void;
+  isLoading: boolean;
+}
+
+const BackendContext = createContext<BackendContextValue | undefined>(
+  undefined,
+);
+
+interface BackendProviderProps {
+  children: ReactNode;
+}
+
+export function BackendProvider({ children }: BackendProviderProps) {
+  const [backendConfig, setBackendConfigState] = useState<BackendConfig>(
+    DEFAULT_BACKEND_CONFIG,
+  );
+  const [ensembleConfig, setEnsembleConfigState] = useState<EnsembleConfig>(
+    DEFAULT_ENSEMBLE_CONFIG,
+  );
+  const [demoMode, setDemoModeState] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Load persisted backend selection on mount
+  useEffect(() => {
+    loadBackendConfig();
+  }, []);
+
+  const loadBackendConfig = async () => {
+    try {
+      const [saved, savedEnsemble, savedDemoMode] = await Promise.all([
+        AsyncStorage.getItem(BACKEND_STORAGE_KEY),
+        AsyncStorage.getItem(ENSEMBLE_STORAGE_KEY),
+        AsyncStorage.getItem(DEMO_MODE_STORAGE_KEY),
+      ]);
+      if (saved) {
+        const parsed = JSON.parse(saved) as BackendConfig;
+        if (parsed.type && typeof parsed.baseUrl === "string") {
+          setBackendConfigState(parsed);
+        }
+      }
+      if (savedEnsemble) {
+        const parsed = JSON.parse(savedEnsemble) as EnsembleConfig;
+        if (Array.isArray(parsed.additionalBackends)) {
+          setEnsembleConfigState({ ...DEFAULT_ENSEMBLE_CONFIG, ...parsed });
+        }
+      }
+      setDemoModeState(savedDemoMode === "true");
+    } catch (error) {
+      console.warn("Failed to load backend config:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const persistBackendConfig = async (config: BackendConfig) => {
+    try {
+      await AsyncStorage.setItem(BACKEND_STORAGE_KEY, JSON.stringify(config));
+    } catch (error) {
+      console.warn("Failed to persist backend config:", error);
+    }
+  };
+
+  const setBackendConfig = useCallback((config: BackendConfig) => {
+    setBackendConfigState(config);
+    persistBackendConfig(config);
+  }, []);
+
+  const resetBackendConfig = useCallback(() => {
+    setBackendConfig(DEFAULT_BACKEND_CONFIG);
+  }, [setBackendConfig]);
+
+  const setEnsembleConfig = useCallback((config: EnsembleConfig) => {
+    setEnsembleConfigState(config);
+    AsyncStorage.setItem(ENSEMBLE_STORAGE_KEY, JSON.stringify(config)).catch(
+      (error) => console.warn("Failed to persist ensemble config:", error),
+    );
+  }, []);
+
+  const setDemoMode = useCallback((enabled: boolean) => {
+    setDemoModeState(enabled);
+    AsyncStorage.setItem(DEMO_MODE_STORAGE_KEY, String(enabled)).catch(
+      (error) => console.warn("Failed to persist demo mode:", error),
+    );
+  }, []);
+
+  const backend = useMemo(
+    () => (demoMode ? createDemoBackend() : createBackend(backendConfig)),
+    [backendConfig, demoMode],
+  );
+
+  const ensemble = useMemo<EnsembleOptions | undefined>(() => {
+    // Sample cases only have one canned opinion
+    if (demoMode) return undefined;
+    const additional = ensembleConfig.additionalBackends.filter(
+      (config) => config.type === "mock" || config.baseUrl.trim(),
+    );
+    if (!ensembleConfig.enabled || additional.length === 0) return undefined;
+    return {
+      backends: [backend, ...additional.map(createBackend)],
+      strategy: ensembleConfig.strategy,
+    };
+  }, [backend, ensembleConfig, demoMode]);
+
+  const value: BackendContextValue = {
+    backend,
+    backendConfig,
+    setBackendConfig,
+    resetBackendConfig,
+    ensembleConfig,
+    setEnsembleConfig,
+    ensemble,
+    demoMode,
+    setDemoMode,
+    isLoading,
+  };
+
+  return (
+    <BackendContext.Provider value={value}>{children}</BackendContext.Provider>
+  );
+}
+
+export function useBackend(): BackendContextValue {
+  const context = useContext(BackendContext);
+  if (context === undefined) {
+    throw new Error("useBackend must be used within a BackendProvider");
+  }
+  return context;
+}
+
+export { BackendContext };
@@ -1,2 +1,3 @@
 // Custom hooks barrel export
 export { useTheme } from "../context/ThemeContext";
+export { useBackend } from "../context/BackendContext";
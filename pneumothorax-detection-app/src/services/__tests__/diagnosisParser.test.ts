@@ -0,0 +1,36 @@
+import { parseDiagnosis } from "../diagnosisParser";
+import { DiagnosisSide, DiagnosisVerdict } from "../../types";
+import fixtures from "./fixtures/diagnoses.json";
+
+interface DiagnosisFixture {
+  name: string;
+  markdown: string;
+  expected: {
+    verdict: DiagnosisVerdict;
+    probability: number | null;
+    side: DiagnosisSide | null;
+  };
+}
+
+describe("parseDiagnosis", () => {
+  it.each(fixtures as DiagnosisFixture[])("$name", ({ markdown, expected }) => {
+    const report = parseDiagnosis(markdown);
+
+    expect(report.verdict).toBe(expected.verdict);
+    expect(report.side).toBe(expected.side);
+    if (expected.probability === null) {
+      expect(report.probability).toBeNull();
+    } else {
+      expect(report.probability).toBeCloseTo(expected.probability, 6);
+    }
+    expect(report.rawMarkdown).toBe(markdown);
+  });
+
+  it("keeps the probability and verdict lines out of the notes", () => {
+    const report = parseDiagnosis(
+      "## 🔴 Pneumothorax Detected\n\n**Confidence:** 94.2%\n\n**Location:** Right hemithorax",
+    );
+
+    expect(report.notes).toEqual(["Location: Right hemithorax"]);
+  });
+});
@@ -0,0 +1,182 @@
+import { combineOpinions } from "../ensemble";
+import { parseDiagnosis } from "../diagnosisParser";
+import { MaskPixels } from "../maskAnalysis";
+import { DiagnosisVerdict, EnsembleStrategy, ModelOpinion } from "../../types";
+
+const MASK_SIZE = 10;
+
+// A 4×4 lesion in the top-left corner, or nothing
+function mockMask(withLesion: boolean): MaskPixels {
+  const intensity = new Uint8Array(MASK_SIZE * MASK_SIZE);
+  if (withLesion) {
+    for (let y = 0; y < 4; y++)
+      intensity.fill(255, y * MASK_SIZE, y * MASK_SIZE + 4);
+  }
+  return { width: MASK_SIZE, height: MASK_SIZE, intensity };
+}
+
+jest.mock("../maskAnalysis", () => ({
+  ...jest.requireActual("../maskAnalysis"),
+  decodeMask: jest.fn(async (uri: string) => mockMask(uri === "mask:lesion")),
+}));
+
+// Masks are decoded by the mock above, so no PNG is ever read
+jest.mock("fast-png", () => ({}));
+
+jest.mock("../preprocessing", () => ({
+  saveRaster: jest.fn(async () => "file:///cache/ensemble/mask.png"),
+}));
+
+const POSITIVE =
+  "## 🔴 Pneumothorax Detected\n\n**Confidence:** 94.2%\n\n**Location:** Right hemithorax";
+const NEGATIVE = "## 🟢 No Pneumothorax Detected\n\n**Confidence:** 96.8%";
+
+function makeOpinion(label: string, diagnosis: string): ModelOpinion {
+  const report = parseDiagnosis(diagnosis);
+  return {
+    backendId: label.toLowerCase(),
+    label,
+    endpoint: `https://${label.toLowerCase()}.example`,
+    status:
+      report.verdict === "positive"
+        ? "detected"
+        : report.verdict === "negative"
+          ? "not_detected"
+          : "inconclusive",
+    report,
+    apiResponse: {
+      originalImage: "",
+      maskImage: report.verdict === "positive" ? "mask:lesion" : "mask:empty",
+      overlayImage: "",
+      diagnosis,
+    },
+    boundingBoxes: [],
+  };
+}
+
+interface Expectation {
+  verdict: DiagnosisVerdict;
+  probability: number;
+  disagreement: boolean;
+}
+
+const STRATEGIES: EnsembleStrategy[] = [
+  "majority",
+  "meanProbability",
+  "maskUnion",
+  "maskIntersection",
+];
+
+describe("combineOpinions", () => {
+  describe("two models agreeing on a confident negative", () => {
+    const opinions = [makeOpinion("A", NEGATIVE), makeOpinion("B", NEGATIVE)];
+
+    it.each(STRATEGIES)("%s stays negative", async (strategy) => {
+      const combined = await combineOpinions(opinions, strategy);
+
+      expect(combined.report.verdict).toBe("negative");
+      expect(combined.report.probability).toBeCloseTo(0.032, 6);
+      expect(combined.report.side).toBeNull();
+      expect(combined.disagreement).toBe(false);
+    });
+  });
+
+  describe("a positive and a negative model", () => {
+    const opinions = [makeOpinion("A", POSITIVE), makeOpinion("B", NEGATIVE)];
+    // Mean of P(pneumothorax) 0.942 and 0.032
+    const probability = 0.487;
+
+    it.each<[EnsembleStrategy, Expectation]>([
+      ["majority", { verdict: "unparseable", probability, disagreement: true }],
+      [
+        "meanProbability",
+        { verdict: "negative", probability, disagreement: true },
+      ],
+      ["maskUnion", { verdict: "positive", probability, disagreement: true }],
+      [
+        "maskIntersection",
+        { verdict: "negative", probability, disagreement: true },
+      ],
+    ])("%s", async (strategy, expected) => {
+      const combined = await combineOpinions(opinions, strategy);
+
+      expect(combined.report.verdict).toBe(expected.verdict);
+      expect(combined.report.probability).toBeCloseTo(expected.probability, 6);
+      expect(combined.report.side).toBe(
+        expected.verdict === "positive" ? "right" : null,
+      );
+      expect(combined.disagreement).toBe(expected.disagreement);
+    });
+  });
+
+  it("boxes the lesion of the union mask", async () => {
+    const combined = await combineOpinions(
+      [makeOpinion("A", POSITIVE), makeOpinion("B", NEGATIVE)],
+      "maskUnion",
+    );
+
+    expect(combined.mask?.boundingBoxes).toHaveLength(1);
+    expect(combined.mask?.boundingBoxes[0]).toMatchObject({
+      x: 0,
+      y: 0,
+      width: 40,
+      height: 40,
+    });
+  });
+
+  describe("a positive model without a mask", () => {
+    const withoutMask = makeOpinion("B", POSITIVE);
+    const opinions = [
+      makeOpinion("A", POSITIVE),
+      {
+        ...withoutMask,
+        apiResponse: { ...withoutMask.apiResponse!, maskImage: "" },
+      },
+    ];
+
+    it("counts as an empty mask for the intersection", async () => {
+      const combined = await combineOpinions(opinions, "maskIntersection");
+
+      expect(combined.report.verdict).toBe("negative");
+      expect(combined.mask?.boundingBoxes).toEqual([]);
+    });
+
+    it("leaves the union to the other masks", async () => {
+      const combined = await combineOpinions(opinions, "maskUnion");
+
+      expect(combined.report.verdict).toBe("positive");
+      expect(combined.mask?.boundingBoxes).toHaveLength(1);
+    });
+  });
+
+  it("leaves opinions without a verdict out of the mean", async () => {
+    const inconclusive = makeOpinion("B", "Image quality insufficient.");
+    const combined = await combineOpinions(
+      [
+        makeOpinion("A", NEGATIVE),
+        {
+          ...inconclusive,
+          report: { ...inconclusive.report!, probability: 0.99 },
+        },
+      ],
+      "meanProbability",
+    );
+
+    expect(combined.report.verdict).toBe("negative");
+    expect(combined.report.probability).toBeCloseTo(0.032, 6);
+  });
+
+  it("lists each model's pneumothorax probability", async () => {
+    const combined = await combineOpinions(
+      [makeOpinion("A", POSITIVE), makeOpinion("B", NEGATIVE)],
+      "meanProbability",
+    );
+
+    expect(combined.report.rawMarkdown).toContain(
+      "- A: positive (pneumothorax probability 94.2%)",
+    );
+    expect(combined.report.rawMarkdown).toContain(
+      "- B: negative (pneumothorax probability 3.2%)",
+    );
+  });
+});
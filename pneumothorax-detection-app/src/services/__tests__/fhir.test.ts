@@ -0,0 +1,122 @@
+import { buildFhirBundle, FhirResource } from "../fhir";
+import { parseDiagnosis } from "../diagnosisParser";
+import { DetectionResult, PneumoAPIResponse } from "../../types";
+
+// expo-crypto has no native module under Jest
+jest.mock("expo-crypto", () => ({
+  randomUUID: () => require("node:crypto").randomUUID(),
+}));
+
+// Validates against the official R4 JSON schema (hl7.org/fhir/json-schema/4.0)
+const JSONSchemaValidator = require("@asymmetrik/fhir-json-schema-validator");
+const validator: { validate: (resource: object) => unknown[] } =
+  new JSONSchemaValidator();
+
+// 1×1 transparent PNG
+const PNG =
+  "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=";
+
+const DIAGNOSIS =
+  "## 🔴 Pneumothorax Detected\n\n**Confidence:** 94.2%\n\n**Location:** Right hemithorax";
+
+const apiResponse: PneumoAPIResponse = {
+  originalImage: PNG,
+  maskImage: PNG,
+  overlayImage: PNG,
+  diagnosis: DIAGNOSIS,
+};
+
+const backend = {
+  label: "PneumoPredictor",
+  endpoint: "https://example.hf.space",
+  type: "gradio" as const,
+};
+
+function makeResult(overrides: Partial<DetectionResult> = {}): DetectionResult {
+  return {
+    id: "detection-1",
+    imageUri: PNG,
+    timestamp: new Date("2026-01-15T10:30:00Z"),
+    status: "detected",
+    boundingBoxes: [],
+    averageConfidence: 0.942,
+    processingTime: 1200,
+    report: parseDiagnosis(DIAGNOSIS),
+    ...overrides,
+  };
+}
+
+function resourcesOfType(
+  resources: FhirResource[],
+  resourceType: string,
+): FhirResource[] {
+  return resources.filter((r) => r.resourceType === resourceType);
+}
+
+describe("buildFhirBundle", () => {
+  it("produces a bundle that validates against the R4 schema", async () => {
+    const bundle = await buildFhirBundle(makeResult(), apiResponse, backend);
+
+    expect(validator.validate(bundle)).toEqual([]);
+    for (const { resource } of bundle.entry) {
+      expect(validator.validate(resource)).toEqual([]);
+    }
+  });
+
+  it("gives every entry its own UUID", async () => {
+    const bundle = await buildFhirBundle(makeResult(), apiResponse, backend);
+    const fullUrls = bundle.entry.map((e) => e.fullUrl);
+
+    for (const fullUrl of fullUrls) {
+      expect(fullUrl).toMatch(
+        /^urn:uuid:[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/,
+      );
+    }
+    expect(new Set(fullUrls).size).toBe(fullUrls.length);
+  });
+
+  it("validates with DICOM patient and study details", async () => {
+    const result = makeResult({
+      dicom: {
+        modality: "CR",
+        patientId: "MRN-001",
+        patientName: "DOE^JANE",
+        studyInstanceUid: "1.2.840.113619.2.55.3.1",
+      },
+    });
+    const bundle = await buildFhirBundle(result, apiResponse, backend);
+
+    expect(validator.validate(bundle)).toEqual([]);
+  });
+
+  it("validates an inconclusive result without a probability", async () => {
+    const result = makeResult({
+      status: "inconclusive",
+      report: parseDiagnosis("Image quality insufficient for assessment."),
+    });
+    const bundle = await buildFhirBundle(
+      result,
+      { ...apiResponse, maskImage: "", overlayImage: "" },
+      backend,
+    );
+
+    expect(validator.validate(bundle)).toEqual([]);
+  });
+
+  it("references the model Device only where R4 allows it", async () => {
+    const bundle = await buildFhirBundle(makeResult(), apiResponse, backend);
+    const resources = bundle.entry.map((e) => e.resource);
+    const device = bundle.entry.find(
+      (e) => e.resource.resourceType === "Device",
+    )!;
+
+    const [report] = resourcesOfType(resources, "DiagnosticReport");
+    expect(report.performer).toBeUndefined();
+
+    for (const type of ["Observation", "Media"]) {
+      for (const resource of resourcesOfType(resources, type)) {
+        expect(resource.device).toEqual({ reference: device.fullUrl });
+      }
+    }
+  });
+});
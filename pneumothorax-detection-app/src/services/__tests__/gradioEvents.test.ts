@@ -0,0 +1,39 @@
+import { toGradioEvent } from "../gradioEvents";
+
+const DEFAULT_ERROR = {
+  type: "error",
+  message: "The model server reported an error",
+};
+
+describe("toGradioEvent", () => {
+  it("uses the server's message from an error event", () => {
+    expect(
+      toGradioEvent({ event: "error", data: '"CUDA out of memory"' }),
+    ).toEqual({ type: "error", message: "CUDA out of memory" });
+    expect(
+      toGradioEvent({ event: "error", data: "Space is sleeping" }),
+    ).toEqual({ type: "error", message: "Space is sleeping" });
+  });
+
+  it.each([
+    ["null data", "null"],
+    ["empty data", ""],
+    ["a number", "42"],
+    ["an empty error field", '{"error":null}'],
+    [
+      "a failed queue payload without a message",
+      '{"msg":"process_completed","success":false,"output":{"error":null}}',
+    ],
+  ])("falls back to the default message for %s", (_, data) => {
+    expect(toGradioEvent({ event: "error", data })).toEqual(DEFAULT_ERROR);
+  });
+
+  it("falls back to the default message for a failed completion", () => {
+    expect(
+      toGradioEvent({
+        event: "complete",
+        data: '{"success":false,"output":{"error":null}}',
+      }),
+    ).toEqual(DEFAULT_ERROR);
+  });
+});
@@ -0,0 +1,308 @@
+/**
+ * @jest-environment node
+ */
+// Runs analyzeImage through the Gradio backend against mock-server/gradio.js
+// over real HTTP. Only the native file, image and PNG modules are replaced.
+import fs from "node:fs";
+import path from "node:path";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import * as FileSystem from "expo-file-system/legacy";
+import { JSDOM } from "jsdom";
+import { analyzeImage } from "../pneumoDetection";
+import { createGradioBackend } from "../backends";
+import { AnalysisError } from "../analysisErrors";
+import { AnalysisProgress, RetryPolicy } from "../../types";
+
+const { createMockServer } = require("../../../mock-server/gradio");
+
+// In-memory file system holding base64 contents by URI
+jest.mock("expo-file-system/legacy", () => {
+  const files = new Map<string, string>();
+  return {
+    documentDirectory: "file:///documents/",
+    cacheDirectory: "file:///cache/",
+    EncodingType: { Base64: "base64", UTF8: "utf8" },
+    makeDirectoryAsync: jest.fn(async () => {}),
+    writeAsStringAsync: jest.fn(async (uri: string, contents: string) => {
+      files.set(uri, contents);
+    }),
+    readAsStringAsync: jest.fn(async (uri: string) => {
+      if (!files.has(uri)) throw new Error(`No file at ${uri}`);
+      return files.get(uri);
+    }),
+    getInfoAsync: jest.fn(async (uri: string) =>
+      files.has(uri)
+        ? {
+            exists: true,
+            uri,
+            size: Buffer.from(files.get(uri)!, "base64").length,
+            modificationTime: Date.now() / 1000,
+          }
+        : { exists: false, uri },
+    ),
+    deleteAsync: jest.fn(async (uri: string) => {
+      for (const key of [...files.keys()]) {
+        if (key.startsWith(uri)) files.delete(key);
+      }
+    }),
+  };
+});
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock"),
+);
+
+// The model input is sent as is; PNG decoding is not part of the adapter
+jest.mock("fast-png", () => ({}));
+
+jest.mock("../preprocessing", () => ({
+  ...jest.requireActual("../preprocessing"),
+  preprocessImage: jest.fn(async (uri: string, config: unknown) => ({
+    uri,
+    width: 512,
+    height: 512,
+    sourceWidth: 512,
+    sourceHeight: 512,
+    contentRect: { x: 0, y: 0, width: 512, height: 512 },
+    config,
+    contentHash: "mock-server-input",
+  })),
+  removeLetterbox: jest.fn(async (uri: string) => uri),
+  deletePreprocessedImage: jest.fn(async () => {}),
+}));
+
+jest.mock("../maskAnalysis", () => ({
+  ...jest.requireActual("../maskAnalysis"),
+  extractBoundingBoxes: jest.fn(async () => []),
+}));
+
+const SAMPLES_DIRECTORY = path.join(__dirname, "../../../assets/samples");
+
+function readSample(name: string): Buffer {
+  return fs.readFileSync(path.join(SAMPLES_DIRECTORY, `${name}.png`));
+}
+
+const INPUT = `data:image/png;base64,${readSample("positive-right").toString("base64")}`;
+
+// Fast retries so failing scenarios settle within the test timeout
+const RETRY_POLICY: Partial<RetryPolicy> = {
+  maxAttempts: 3,
+  baseDelayMs: 10,
+  maxDelayMs: 10,
+  jitter: 0,
+  requestTimeoutMs: 5_000,
+};
+
+/**
+ * React Native's FormData takes { uri, name, type } file parts and reads
+ * the file itself; Node's only takes Blobs
+ */
+class NativeFormData extends FormData {
+  append(name: string, value: string | Blob, fileName?: string): void {
+    const part = value as unknown as {
+      uri?: string;
+      name?: string;
+      type?: string;
+    };
+    if (typeof part === "object" && typeof part.uri === "string") {
+      const bytes = Buffer.from(
+        part.uri.slice(part.uri.indexOf(",") + 1),
+        "base64",
+      );
+      super.append(name, new Blob([bytes], { type: part.type }), part.name);
+      return;
+    }
+    if (fileName === undefined) super.append(name, value as string);
+    else super.append(name, value as Blob, fileName);
+  }
+}
+
+let server: Server;
+let baseUrl: string;
+
+async function useScenarios(...scenarios: string[]): Promise<void> {
+  const response = await fetch(`${baseUrl}/__mock/scenario`, {
+    method: "POST",
+    body: JSON.stringify({ scenario: scenarios.join(",") }),
+  });
+  expect(response.ok).toBe(true);
+}
+
+async function analyze(retryPolicy: Partial<RetryPolicy> = {}) {
+  const progress: AnalysisProgress[] = [];
+  const outcome = await analyzeImage(INPUT, {
+    // A fresh backend each time, so every analysis checks the Space is awake
+    backend: createGradioBackend(baseUrl),
+    retryPolicy: { ...RETRY_POLICY, ...retryPolicy },
+    onProgress: (update) => progress.push(update),
+    skipCache: true,
+  });
+  return { ...outcome, stages: progress.map((p) => p.stage), progress };
+}
+
+async function analysisError(
+  retryPolicy: Partial<RetryPolicy> = {},
+): Promise<AnalysisError> {
+  const error = await analyze(retryPolicy).catch((e: unknown) => e);
+  expect(error).toBeInstanceOf(AnalysisError);
+  return error as AnalysisError;
+}
+
+async function readStoredImage(uri: string): Promise<Buffer> {
+  return Buffer.from(
+    await FileSystem.readAsStringAsync(uri, {
+      encoding: FileSystem.EncodingType.Base64,
+    }),
+    "base64",
+  );
+}
+
+beforeAll(async () => {
+  server = createMockServer({ log: () => {}, stepMs: 50 });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  // The stream reader needs XMLHttpRequest, which Node lacks; jsdom's reads
+  // the response incrementally over real HTTP like React Native's
+  globalThis.XMLHttpRequest = new JSDOM("", {
+    url: baseUrl,
+  }).window.XMLHttpRequest;
+  globalThis.FormData = NativeFormData;
+
+  jest.spyOn(console, "log").mockImplementation(() => {});
+  jest.spyOn(console, "warn").mockImplementation(() => {});
+  jest.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterAll(async () => {
+  jest.restoreAllMocks();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe("Gradio backend against the mock server", () => {
+  it("saves the images of a positive prediction", async () => {
+    await useScenarios("positive");
+    const { result, apiResponse, stages } = await analyze();
+
+    expect(result.status).toBe("detected");
+    expect(result.report?.side).toBe("right");
+    expect(result.report?.probability).toBeCloseTo(0.942, 6);
+    expect(stages).toEqual(
+      expect.arrayContaining(["uploading", "postprocessing"]),
+    );
+    // Sent as an uploaded file, not through the base64 fallback
+    expect(console.log).not.toHaveBeenCalledWith(
+      "Upload approach failed, trying base64:",
+      expect.anything(),
+    );
+
+    expect(apiResponse.maskImage).toMatch(/^file:\/\/\/documents\/results\//);
+    expect(await readStoredImage(apiResponse.maskImage)).toEqual(
+      readSample("positive-right-mask"),
+    );
+    expect(await readStoredImage(apiResponse.overlayImage)).toEqual(
+      readSample("positive-right-overlay"),
+    );
+    expect(await readStoredImage(apiResponse.originalImage)).toEqual(
+      readSample("positive-right"),
+    );
+  });
+
+  it("reads a negative prediction", async () => {
+    await useScenarios("negative");
+    const { result, apiResponse } = await analyze();
+
+    expect(result.status).toBe("not_detected");
+    expect(result.report?.probability).toBeCloseTo(0.032, 6);
+    expect(await readStoredImage(apiResponse.maskImage)).toEqual(
+      readSample("negative-1-mask"),
+    );
+  });
+
+  it("reports queue position and progress from the stream", async () => {
+    await useScenarios("slow-queue");
+    const { result, progress } = await analyze();
+
+    expect(result.status).toBe("detected");
+    expect(progress).toContainEqual(
+      expect.objectContaining({ stage: "queued", position: 4, queueSize: 4 }),
+    );
+    expect(progress).toContainEqual(
+      expect.objectContaining({ stage: "processing" }),
+    );
+  });
+
+  it("retries server errors until the prediction succeeds", async () => {
+    await useScenarios("server-error", "server-error", "positive");
+    const { result, stages } = await analyze();
+
+    expect(result.status).toBe("detected");
+    expect(stages.filter((stage) => stage === "retrying")).toHaveLength(2);
+  });
+
+  it("gives up on a server that keeps failing", async () => {
+    await useScenarios("server-error");
+    const error = await analysisError();
+
+    expect(error.kind).toBe("network");
+    expect(error.detail).toMatch(/500/);
+  });
+
+  it("retries a server that cannot be reached", async () => {
+    // Nothing listens on the port of a closed server
+    const closed = createMockServer({ log: () => {} });
+    await new Promise<void>((resolve) =>
+      closed.listen(0, "127.0.0.1", resolve),
+    );
+    const { port } = closed.address() as AddressInfo;
+    await new Promise((resolve) => closed.close(resolve));
+
+    const progress = jest.fn();
+    const error: AnalysisError = await analyzeImage(INPUT, {
+      backend: createGradioBackend(`http://127.0.0.1:${port}`),
+      retryPolicy: RETRY_POLICY,
+      onProgress: progress,
+      skipCache: true,
+    }).then(
+      () => {
+        throw new Error("Expected the analysis to fail");
+      },
+      (e: unknown) => e as AnalysisError,
+    );
+
+    expect(error.kind).toBe("network");
+    expect(error.detail).toMatch(/Network request failed/);
+    expect(progress).toHaveBeenCalledWith(
+      expect.objectContaining({ stage: "retrying" }),
+    );
+  });
+
+  it("times out a silent result stream", async () => {
+    await useScenarios("slow-queue");
+    const error = await analysisError({
+      maxAttempts: 1,
+      streamIdleTimeoutMs: 10,
+    });
+
+    expect(error.kind).toBe("network");
+    expect(error.detail).toMatch(/timed out/);
+  });
+
+  it("rejects a stream that completes with malformed data", async () => {
+    await useScenarios("malformed-sse");
+    const error = await analysisError();
+
+    expect(error.kind).toBe("parse_error");
+  });
+
+  it("keeps the remote URLs of files the server no longer has", async () => {
+    await useScenarios("expired-files");
+    const { result, apiResponse } = await analyze();
+
+    expect(result.status).toBe("detected");
+    for (const uri of [apiResponse.maskImage, apiResponse.overlayImage]) {
+      expect(uri.startsWith(`${baseUrl}/gradio_api/file=`)).toBe(true);
+    }
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * @jest-environment node
+ */
+import * as FileSystem from "expo-file-system/legacy";
+import { migrateHistoryImages } from "../resultImages";
+import { HistoryItem } from "../../types";
+
+jest.mock("expo-file-system/legacy", () => ({
+  documentDirectory: "file:///documents/",
+  EncodingType: { Base64: "base64" },
+  makeDirectoryAsync: jest.fn(async () => {}),
+  writeAsStringAsync: jest.fn(async () => {}),
+}));
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock"),
+);
+
+const SPACE = "https://example.hf.space/gradio_api/file=/tmp/gradio";
+
+function makeItem(): HistoryItem {
+  return {
+    id: "detection-1",
+    imageUri: "file:///documents/results/detection-1/source.png",
+    thumbnailUri: "file:///documents/results/detection-1/thumbnail.jpg",
+    timestamp: "2026-01-15T10:30:00.000Z",
+    detectionsCount: 0,
+    averageConfidence: 0.942,
+    boundingBoxes: [],
+    apiResponse: {
+      originalImage: "file:///documents/results/detection-1/originalImage.png",
+      maskImage: `${SPACE}/mask.png`,
+      overlayImage: `${SPACE}/overlay.png`,
+      diagnosis: "## 🔴 Pneumothorax Detected",
+    },
+  };
+}
+
+function respondWith(status: number, body = "") {
+  jest
+    .spyOn(globalThis, "fetch")
+    .mockImplementation(async () => new Response(body, { status }));
+}
+
+beforeEach(() => {
+  jest.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("migrateHistoryImages", () => {
+  it("saves remote images the server still has", async () => {
+    respondWith(200, "png bytes");
+    const [migrated] = await migrateHistoryImages([makeItem()]);
+
+    expect(migrated.apiResponse?.maskImage).toBe(
+      "file:///documents/results/detection-1/maskImage.png",
+    );
+    expect(migrated.unavailableImages).toBeUndefined();
+    expect(FileSystem.writeAsStringAsync).toHaveBeenCalled();
+  });
+
+  it.each([404, 410])(
+    "clears images the server answers %i for",
+    async (status) => {
+      respondWith(status);
+      const [migrated] = await migrateHistoryImages([makeItem()]);
+
+      expect(migrated.apiResponse?.maskImage).toBe("");
+      expect(migrated.apiResponse?.overlayImage).toBe("");
+      expect(migrated.unavailableImages).toEqual(["maskImage", "overlayImage"]);
+    },
+  );
+
+  it.each([503, 500, 429])(
+    "keeps the URL when the server answers %i",
+    async (status) => {
+      respondWith(status, "Space is starting");
+
+      expect(await migrateHistoryImages([makeItem()])).toEqual([]);
+    },
+  );
+
+  it("keeps the URL when the server cannot be reached", async () => {
+    jest.spyOn(globalThis, "fetch").mockRejectedValue(new TypeError("offline"));
+
+    expect(await migrateHistoryImages([makeItem()])).toEqual([]);
+  });
+});
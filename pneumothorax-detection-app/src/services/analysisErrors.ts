@@ -0,0 +1,65 @@
+import { AnalysisErrorKind, AnalysisFailure } from "../types";
+import { HttpError, isNetworkError, isTimeoutError } from "./http";
+
+/**
+ * Failure of an analysis, classified by what the user can do about it
+ * Thrown by analyzeImage in place of a DetectionResult
+ */
+export class AnalysisError extends Error {
+  kind: AnalysisErrorKind;
+  detail?: string;
+
+  constructor(kind: AnalysisErrorKind, message: string, detail?: string) {
+    super(message);
+    this.name = "AnalysisError";
+    this.kind = kind;
+    this.detail = detail;
+  }
+
+  /**
+   * Plain object form, safe to pass through route params or storage
+   */
+  toFailure(): AnalysisFailure {
+    return { kind: this.kind, message: this.message, detail: this.detail };
+  }
+}
+
+export function isAnalysisError(error: unknown): error is AnalysisError {
+  return error instanceof AnalysisError;
+}
+
+/**
+ * Classify any error thrown during an analysis into an AnalysisError
+ */
+export function toAnalysisError(error: unknown): AnalysisError {
+  if (isAnalysisError(error)) return error;
+
+  if (error instanceof HttpError) {
+    if (error.status >= 500 || error.status === 429) {
+      return new AnalysisError(
+        "network",
+        "The detection server is unavailable right now.",
+        error.message,
+      );
+    }
+    return new AnalysisError(
+      "upload_rejected",
+      "The detection server rejected the image.",
+      error.message,
+    );
+  }
+
+  if (isTimeoutError(error) || isNetworkError(error)) {
+    return new AnalysisError(
+      "network",
+      "Could not reach the detection server.",
+      error instanceof Error ? error.message : undefined,
+    );
+  }
+
+  return new AnalysisError(
+    "model_error",
+    "The model could not analyze this image.",
+    error instanceof Error ? error.message : String(error),
+  );
+}
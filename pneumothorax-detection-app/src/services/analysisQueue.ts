@@ -0,0 +1,144 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as FileSystem from "expo-file-system/legacy";
+import { Platform } from "react-native";
+import { DicomMetadata, QueuedAnalysis } from "../types";
+import { computeBackoffDelay, resolveRetryPolicy } from "./retryPolicy";
+import {
+  deleteImages,
+  isStoredImageRef,
+  resolveImageRef,
+  storeImage,
+  toImageRef,
+} from "./webImageStore";
+
+const QUEUE_STORAGE_KEY = "@pneumothorax_app_queue";
+const QUEUE_DIRECTORY = `${FileSystem.documentDirectory}queue/`;
+const isWeb = Platform.OS === "web";
+
+// Web image store keys of queued images start with this, apart from results
+export const QUEUE_IMAGE_PREFIX = "queue/";
+
+// Resubmission after a 5xx, 429 or timeout; an overloaded Space usually
+// recovers within minutes
+const RESUBMIT_POLICY = resolveRetryPolicy({
+  baseDelayMs: 10_000,
+  maxDelayMs: 10 * 60_000,
+});
+
+function generateJobId(): string {
+  return `job-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+}
+
+/**
+ * Display URI for the stored image of a job on web
+ * Queues saved by earlier versions inlined the image as a data URL, which
+ * is moved to IndexedDB here.
+ */
+async function resolveQueuedImage(job: QueuedAnalysis): Promise<string> {
+  try {
+    if (isStoredImageRef(job.imageUri)) {
+      return await resolveImageRef(job.imageUri);
+    }
+    if (job.imageUri.startsWith("data:")) {
+      return await persistQueuedImage(job.imageUri, job.id);
+    }
+  } catch (error) {
+    console.warn(`Failed to read queued image of ${job.id}:`, error);
+  }
+  return job.imageUri;
+}
+
+export async function loadQueue(): Promise<QueuedAnalysis[]> {
+  const stored = await AsyncStorage.getItem(QUEUE_STORAGE_KEY);
+  if (!stored) return [];
+
+  const jobs = JSON.parse(stored) as QueuedAnalysis[];
+  return Promise.all(
+    jobs.map(async (job) => ({
+      ...job,
+      imageUri: isWeb ? await resolveQueuedImage(job) : job.imageUri,
+      // A job that was running when the app closed never finished
+      status: job.status === "running" ? "queued" : job.status,
+    })),
+  );
+}
+
+export async function saveQueue(jobs: QueuedAnalysis[]): Promise<void> {
+  // Web object URLs are stored as their IndexedDB references
+  const stored = isWeb
+    ? jobs.map((job) => ({ ...job, imageUri: toImageRef(job.imageUri) }))
+    : jobs;
+  await AsyncStorage.setItem(QUEUE_STORAGE_KEY, JSON.stringify(stored));
+}
+
+/**
+ * Copy the source image somewhere the OS will not purge before the job runs
+ * On web the image goes to IndexedDB, since localStorage is too small for
+ * full-size images and blob URLs die with the tab; an object URL is returned.
+ */
+async function persistQueuedImage(
+  sourceUri: string,
+  jobId: string,
+): Promise<string> {
+  if (isWeb) {
+    const blob = await fetch(sourceUri).then((response) => response.blob());
+    return storeImage(`${QUEUE_IMAGE_PREFIX}${jobId}/source`, blob);
+  }
+
+  await FileSystem.makeDirectoryAsync(QUEUE_DIRECTORY, {
+    intermediates: true,
+  }).catch(() => {});
+  const extension = sourceUri.split("?")[0].split(".").pop() || "png";
+  const target = `${QUEUE_DIRECTORY}${jobId}.${extension}`;
+  await FileSystem.copyAsync({ from: sourceUri, to: target });
+  return target;
+}
+
+/**
+ * Create a queued job with its own copy of the image
+ */
+export async function createQueuedAnalysis(
+  sourceUri: string,
+  dicom?: DicomMetadata,
+): Promise<QueuedAnalysis> {
+  const id = generateJobId();
+  return {
+    id,
+    imageUri: await persistQueuedImage(sourceUri, id),
+    createdAt: new Date().toISOString(),
+    status: "queued",
+    attempts: 0,
+    ...(dicom ? { dicom } : {}),
+  };
+}
+
+/**
+ * When to resubmit a job that has failed the given number of times
+ */
+export function scheduleNextAttempt(attempts: number): string {
+  const delayMs = computeBackoffDelay(attempts, RESUBMIT_POLICY);
+  return new Date(Date.now() + delayMs).toISOString();
+}
+
+/**
+ * Whether a queued job's backoff, if any, has elapsed
+ */
+export function isJobDue(job: QueuedAnalysis, now = Date.now()): boolean {
+  return !job.nextAttemptAt || Date.parse(job.nextAttemptAt) <= now;
+}
+
+/**
+ * Remove the queue's copy of a job image
+ */
+export async function deleteQueuedImage(job: QueuedAnalysis): Promise<void> {
+  try {
+    if (isWeb) {
+      await deleteImages(`${QUEUE_IMAGE_PREFIX}${job.id}/`);
+      return;
+    }
+    if (!job.imageUri.startsWith(QUEUE_DIRECTORY)) return;
+    await FileSystem.deleteAsync(job.imageUri, { idempotent: true });
+  } catch (error) {
+    console.warn("Failed to delete queued image:", error);
+  }
+}
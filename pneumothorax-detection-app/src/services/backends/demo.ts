@@ -0,0 +1,66 @@
+import {
+  DetectionBackend,
+  PneumoAPIResponse,
+  PredictOptions,
+} from "../../types";
+import { DEFAULT_PREPROCESSING } from "../preprocessing";
+import { matchDemoSample } from "../demoSamples";
+import { abortableDelay, throwIfAborted } from "../../utils";
+
+// Long enough for the analyzing screen to be seen during a demo
+const DEMO_LATENCY_MS = 2500;
+const DEMO_MODEL_VERSION = "demo-1";
+
+const UNKNOWN_IMAGE_DIAGNOSIS = `## Demo Mode
+
+This image is not one of the bundled sample films, so no finding is reported.
+
+_Turn off demo mode in Settings to analyze your own images._`;
+
+/**
+ * Backend for demos and training sessions without a network
+ * Recognizes the bundled sample films and returns their canned mask,
+ * overlay and diagnosis; any other image gets an inconclusive report
+ */
+export function createDemoBackend(): DetectionBackend {
+  return {
+    id: "demo",
+    type: "demo",
+    label: "Demo (sample cases)",
+    endpoint: "local://demo",
+    modelVersion: DEMO_MODEL_VERSION,
+    offline: true,
+    preprocessing: DEFAULT_PREPROCESSING,
+    predict: async (
+      imageUri: string,
+      options: PredictOptions = {},
+    ): Promise<PneumoAPIResponse> => {
+      options.onProgress?.({ stage: "processing", progress: null });
+      const [match] = await Promise.all([
+        matchDemoSample(imageUri),
+        abortableDelay(DEMO_LATENCY_MS, options.signal),
+      ]);
+      throwIfAborted(options.signal);
+
+      if (!match) {
+        return {
+          originalImage: imageUri,
+          maskImage: "",
+          overlayImage: imageUri,
+          diagnosis: UNKNOWN_IMAGE_DIAGNOSIS,
+        };
+      }
+
+      return {
+        originalImage: imageUri,
+        maskImage: match.maskUri,
+        overlayImage: match.overlayUri ?? imageUri,
+        diagnosis: match.diagnosis,
+      };
+    },
+    getModelInfo: async () => ({
+      name: "demo samples",
+      version: DEMO_MODEL_VERSION,
+    }),
+  };
+}
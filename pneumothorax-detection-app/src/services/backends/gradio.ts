@@ -0,0 +1,327 @@
+import { Platform } from "react-native";
+import {
+  DetectionBackend,
+  ModelInfo,
+  PneumoAPIResponse,
+  PredictOptions,
+  PreprocessingConfig,
+} from "../../types";
+import { DEFAULT_PREPROCESSING } from "../preprocessing";
+import {
+  abortableDelay,
+  dataURLtoBlob,
+  isAbortError,
+  uriToDataURL,
+} from "../../utils";
+import { GradioEvent, streamGradioEvents } from "../gradioEvents";
+import { ensureOk, fetchWithTimeout } from "../http";
+import { AnalysisError } from "../analysisErrors";
+import { isRetryableError, resolveRetryPolicy } from "../retryPolicy";
+
+const isWeb = Platform.OS === "web";
+
+// Skip the wake-up probe if the Space answered this recently
+const AWAKE_CACHE_MS = 5 * 60 * 1000;
+
+const STARTING_PATTERN = /starting|sleeping|building|waking|paused/i;
+
+const HF_SPACES_API = "https://huggingface.co/api/spaces";
+const MODEL_INFO_TIMEOUT_MS = 10000;
+// A Space update restarts it, so a short cache still catches new revisions
+const MODEL_INFO_CACHE_MS = 5 * 60 * 1000;
+
+/**
+ * Block until a sleeping Hugging Face Space has started
+ * Sleeping Spaces answer 503 (with a "Space is starting" page) until the
+ * container is up, so poll the config route until it returns 200
+ */
+async function waitForSpace(
+  baseUrl: string,
+  options: PredictOptions,
+): Promise<void> {
+  const policy = resolveRetryPolicy(options.retryPolicy);
+  const startedAt = Date.now();
+
+  while (true) {
+    const response = await fetchWithTimeout(`${baseUrl}/config`, {
+      timeoutMs: policy.requestTimeoutMs,
+      signal: options.signal,
+    });
+    if (response.ok) return;
+
+    const body = await response.text().catch(() => "");
+    const starting = response.status === 503 || STARTING_PATTERN.test(body);
+    // Other failures are left to the regular request path to report
+    if (!starting) return;
+
+    const elapsedMs = Date.now() - startedAt;
+    if (elapsedMs >= policy.wakeUpTimeoutMs) {
+      throw new AnalysisError(
+        "network",
+        "The detection server did not wake up in time.",
+        `The Space did not start within ${Math.round(policy.wakeUpTimeoutMs / 1000)}s`,
+      );
+    }
+
+    console.log("Space is starting, waiting...");
+    options.onProgress?.({
+      stage: "waking",
+      elapsedMs,
+      timeoutMs: policy.wakeUpTimeoutMs,
+    });
+    await abortableDelay(policy.wakeUpPollMs, options.signal);
+  }
+}
+
+async function uploadImageToGradio(
+  baseUrl: string,
+  imageUri: string,
+  options: PredictOptions,
+): Promise<string> {
+  const { signal } = options;
+  console.log("Uploading image to Gradio...");
+
+  const formData = new FormData();
+
+  if (isWeb) {
+    // On web, convert data URL to Blob and append as File
+    const blob = imageUri.startsWith("data:")
+      ? dataURLtoBlob(imageUri)
+      : await fetch(imageUri, { signal }).then((r) => r.blob());
+    const file = new File([blob], "xray.png", { type: "image/png" });
+    formData.append("files", file);
+  } else {
+    // On native, use the RN file object format
+    const imageData = {
+      uri: imageUri,
+      type: "image/png",
+      name: "xray.png",
+    } as any;
+    formData.append("files", imageData);
+  }
+
+  const uploadResponse = await fetchWithTimeout(
+    `${baseUrl}/gradio_api/upload`,
+    {
+      method: "POST",
+      body: formData,
+      signal,
+      timeoutMs: resolveRetryPolicy(options.retryPolicy).requestTimeoutMs,
+    },
+  );
+  await ensureOk(uploadResponse, "Upload");
+
+  const uploadResult = await uploadResponse.json();
+  console.log("Upload result:", uploadResult);
+
+  return uploadResult[0];
+}
+
+/**
+ * Forward stream events the UI cares about as analysis progress
+ */
+function reportEvent(event: GradioEvent, options: PredictOptions) {
+  if (event.type === "queued") {
+    options.onProgress?.({
+      stage: "queued",
+      position: event.position,
+      queueSize: event.queueSize,
+      eta: event.eta,
+    });
+  } else if (event.type === "processing") {
+    options.onProgress?.({
+      stage: "processing",
+      progress: event.progress,
+      message: event.message,
+    });
+  }
+}
+
+/**
+ * Submit a predict call and stream its result from the event endpoint
+ */
+async function callPredict(
+  baseUrl: string,
+  input: unknown,
+  options: PredictOptions,
+): Promise<any> {
+  const policy = resolveRetryPolicy(options.retryPolicy);
+  const callResponse = await fetchWithTimeout(
+    `${baseUrl}/gradio_api/call/predict`,
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        data: [input],
+      }),
+      signal: options.signal,
+      timeoutMs: policy.requestTimeoutMs,
+    },
+  );
+  await ensureOk(callResponse, "Call predict");
+
+  const callResult = await callResponse.json();
+  const eventId = callResult.event_id;
+  console.log("Event ID:", eventId);
+
+  const data = await streamGradioEvents(
+    `${baseUrl}/gradio_api/call/predict/${eventId}`,
+    {
+      onEvent: (event) => reportEvent(event, options),
+      signal: options.signal,
+      idleTimeoutMs: policy.streamIdleTimeoutMs,
+    },
+  );
+
+  return { data };
+}
+
+async function predictWithGradioAPI(
+  baseUrl: string,
+  filePath: string,
+  options: PredictOptions,
+): Promise<any> {
+  console.log("Making prediction with Gradio API...");
+
+  return callPredict(
+    baseUrl,
+    {
+      path: filePath,
+      meta: {
+        _type: "gradio.FileData",
+      },
+    },
+    options,
+  );
+}
+
+async function predictWithBase64(
+  baseUrl: string,
+  imageUri: string,
+  options: PredictOptions,
+): Promise<any> {
+  console.log("Trying base64 prediction...");
+
+  const base64 = await uriToDataURL(imageUri, options.signal);
+  return callPredict(baseUrl, base64, options);
+}
+
+function extractImageUrl(baseUrl: string, data: any): string {
+  if (!data) return "";
+  if (typeof data === "string") {
+    if (data.startsWith("http") || data.startsWith("data:")) return data;
+    return `${baseUrl}/gradio_api/file=${data}`;
+  }
+  if (data.url) return data.url;
+  if (data.path) return `${baseUrl}/gradio_api/file=${data.path}`;
+  return "";
+}
+
+/**
+ * Identify the Space behind a Gradio app
+ * The Gradio config names the Space; its git revision from the Hub API
+ * changes whenever the Space is updated
+ */
+async function fetchSpaceInfo(
+  baseUrl: string,
+  signal?: AbortSignal,
+): Promise<ModelInfo> {
+  const response = await fetchWithTimeout(`${baseUrl}/config`, {
+    signal,
+    timeoutMs: MODEL_INFO_TIMEOUT_MS,
+  });
+  await ensureOk(response, "Space config");
+  const config = await response.json();
+
+  const spaceId = typeof config.space_id === "string" ? config.space_id : null;
+  const name =
+    spaceId ?? (typeof config.title === "string" ? config.title : null);
+  if (!spaceId) return { name, version: null };
+
+  const hubResponse = await fetchWithTimeout(`${HF_SPACES_API}/${spaceId}`, {
+    signal,
+    timeoutMs: MODEL_INFO_TIMEOUT_MS,
+  });
+  await ensureOk(hubResponse, "Space info");
+  const space = await hubResponse.json();
+  return { name, version: typeof space.sha === "string" ? space.sha : null };
+}
+
+/**
+ * Backend for a Hugging Face Gradio Space exposing a `predict` endpoint
+ * Uploads the image as a file and falls back to an inline base64 payload
+ */
+export function createGradioBackend(
+  baseUrl: string,
+  preprocessing: PreprocessingConfig = DEFAULT_PREPROCESSING,
+): DetectionBackend {
+  let lastAwakeAt = 0;
+  let modelInfo: { value: ModelInfo; fetchedAt: number } | null = null;
+
+  return {
+    id: `gradio:${baseUrl}`,
+    type: "gradio",
+    label: "Gradio Space",
+    endpoint: baseUrl,
+    preprocessing,
+    predict: async (
+      imageUri: string,
+      options: PredictOptions = {},
+    ): Promise<PneumoAPIResponse> => {
+      let filePath: string | null = null;
+
+      if (Date.now() - lastAwakeAt > AWAKE_CACHE_MS) {
+        await waitForSpace(baseUrl, options);
+        lastAwakeAt = Date.now();
+      }
+
+      options.onProgress?.({ stage: "uploading" });
+      try {
+        filePath = await uploadImageToGradio(baseUrl, imageUri, options);
+      } catch (uploadError) {
+        // Transient failures go back to the retry policy; only a rejected
+        // upload falls back to sending the image inline
+        if (isAbortError(uploadError) || isRetryableError(uploadError)) {
+          throw uploadError;
+        }
+        console.log("Upload approach failed, trying base64:", uploadError);
+      }
+
+      // Errors reported by the model itself are not retried as base64
+      const prediction = filePath
+        ? await predictWithGradioAPI(baseUrl, filePath, options)
+        : await predictWithBase64(baseUrl, imageUri, options);
+
+      const data = prediction.data || [];
+      if (!Array.isArray(data) || data.length < 4) {
+        throw new AnalysisError(
+          "parse_error",
+          "The server response could not be read.",
+          `Expected 4 outputs from predict, got ${Array.isArray(data) ? data.length : typeof data}`,
+        );
+      }
+
+      return {
+        originalImage: extractImageUrl(baseUrl, data[0]),
+        maskImage: extractImageUrl(baseUrl, data[1]),
+        overlayImage: extractImageUrl(baseUrl, data[2]),
+        diagnosis:
+          typeof data[3] === "string" ? data[3] : String(data[3] || ""),
+      };
+    },
+    getModelInfo: async ({ signal } = {}) => {
+      if (
+        !modelInfo ||
+        Date.now() - modelInfo.fetchedAt > MODEL_INFO_CACHE_MS
+      ) {
+        modelInfo = {
+          value: await fetchSpaceInfo(baseUrl, signal),
+          fetchedAt: Date.now(),
+        };
+      }
+      return modelInfo.value;
+    },
+  };
+}
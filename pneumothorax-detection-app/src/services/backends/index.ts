@@ -0,0 +1,57 @@
+// Detection backends barrel export
+import { BackendConfig, BackendType, DetectionBackend } from "../../types";
+import { createGradioBackend } from "./gradio";
+import { createRestBackend } from "./rest";
+import { createMockBackend } from "./mock";
+import { createDemoBackend } from "./demo";
+
+export {
+  createGradioBackend,
+  createRestBackend,
+  createMockBackend,
+  createDemoBackend,
+};
+
+export const DEFAULT_GRADIO_URL =
+  "https://yashwanthsc-pneumopredictor.hf.space";
+
+export const DEFAULT_BACKEND_CONFIG: BackendConfig = {
+  type: "gradio",
+  baseUrl: DEFAULT_GRADIO_URL,
+};
+
+export const BACKEND_TYPE_LABELS: Record<BackendType, string> = {
+  gradio: "Gradio Space",
+  rest: "REST Endpoint",
+  mock: "Mock (offline)",
+  demo: "Demo (sample cases)",
+};
+
+// Demo mode is a separate toggle, so it is not offered as a backend
+export const SELECTABLE_BACKEND_TYPES: BackendType[] = [
+  "gradio",
+  "rest",
+  "mock",
+];
+
+/**
+ * Instantiate the backend adapter described by a persisted config
+ */
+export function createBackend(config: BackendConfig): DetectionBackend {
+  const baseUrl = config.baseUrl.replace(/\/+$/, "");
+
+  switch (config.type) {
+    case "rest":
+      return createRestBackend(baseUrl, config.preprocessing);
+    case "mock":
+      return createMockBackend(config.preprocessing);
+    case "demo":
+      return createDemoBackend();
+    case "gradio":
+    default:
+      return createGradioBackend(
+        baseUrl || DEFAULT_GRADIO_URL,
+        config.preprocessing,
+      );
+  }
+}
@@ -0,0 +1,51 @@
+import {
+  DetectionBackend,
+  PneumoAPIResponse,
+  PredictOptions,
+  PreprocessingConfig,
+} from "../../types";
+import { DEFAULT_PREPROCESSING } from "../preprocessing";
+import { abortableDelay } from "../../utils";
+
+const MOCK_LATENCY_MS = 1500;
+const MOCK_MODEL_VERSION = "mock-1";
+
+const MOCK_DIAGNOSIS = `## 🟢 No Pneumothorax Detected
+
+**Confidence:** 92.0%
+
+_This result was produced by the in-app mock backend and does not reflect a real model prediction._`;
+
+/**
+ * In-app backend that never touches the network
+ * Echoes the input image back and returns a fixed negative diagnosis,
+ * which is useful for exercising the UI during development
+ */
+export function createMockBackend(
+  preprocessing: PreprocessingConfig = DEFAULT_PREPROCESSING,
+): DetectionBackend {
+  return {
+    id: "mock",
+    type: "mock",
+    label: "Mock (offline)",
+    endpoint: "local://mock",
+    modelVersion: MOCK_MODEL_VERSION,
+    offline: true,
+    preprocessing,
+    predict: async (
+      imageUri: string,
+      options: PredictOptions = {},
+    ): Promise<PneumoAPIResponse> => {
+      options.onProgress?.({ stage: "processing", progress: null });
+      await abortableDelay(MOCK_LATENCY_MS, options.signal);
+
+      return {
+        originalImage: imageUri,
+        maskImage: "",
+        overlayImage: imageUri,
+        diagnosis: MOCK_DIAGNOSIS,
+      };
+    },
+    getModelInfo: async () => ({ name: "mock", version: MOCK_MODEL_VERSION }),
+  };
+}
@@ -0,0 +1,126 @@
+import { Platform } from "react-native";
+import {
+  DetectionBackend,
+  ModelInfo,
+  PneumoAPIResponse,
+  PredictOptions,
+  PreprocessingConfig,
+} from "../../types";
+import { DEFAULT_PREPROCESSING } from "../preprocessing";
+import { dataURLtoBlob } from "../../utils";
+import { ensureOk, fetchWithTimeout } from "../http";
+import { resolveRetryPolicy } from "../retryPolicy";
+import { AnalysisError } from "../analysisErrors";
+
+const isWeb = Platform.OS === "web";
+
+const MODEL_INFO_TIMEOUT_MS = 10000;
+
+/**
+ * Resolve an image field from the REST response into a displayable URI
+ * Accepts absolute URLs, data URLs, bare base64 PNG data and relative paths
+ */
+function resolveImage(baseUrl: string, value: unknown): string {
+  if (typeof value !== "string" || !value) return "";
+  if (value.startsWith("http") || value.startsWith("data:")) return value;
+  if (value.startsWith("/")) return `${baseUrl}${value}`;
+  return `data:image/png;base64,${value}`;
+}
+
+/**
+ * Backend for a plain JSON REST endpoint
+ *
+ * Expects `POST {baseUrl}/predict` accepting a multipart `file` field and
+ * responding with `{ original_image, mask_image, overlay_image, diagnosis }`
+ * (camelCase keys are accepted as well). The model is identified by an
+ * optional `GET {baseUrl}/info` returning `{ name, version }`.
+ */
+export function createRestBackend(
+  baseUrl: string,
+  preprocessing: PreprocessingConfig = DEFAULT_PREPROCESSING,
+): DetectionBackend {
+  return {
+    id: `rest:${baseUrl}`,
+    type: "rest",
+    label: "REST Endpoint",
+    endpoint: baseUrl,
+    preprocessing,
+    predict: async (
+      imageUri: string,
+      options: PredictOptions = {},
+    ): Promise<PneumoAPIResponse> => {
+      console.log("Making prediction with REST endpoint...");
+      options.onProgress?.({ stage: "uploading" });
+
+      const formData = new FormData();
+
+      if (isWeb) {
+        const blob = imageUri.startsWith("data:")
+          ? dataURLtoBlob(imageUri)
+          : await fetch(imageUri, { signal: options.signal }).then((r) =>
+              r.blob(),
+            );
+        formData.append(
+          "file",
+          new File([blob], "xray.png", { type: "image/png" }),
+        );
+      } else {
+        formData.append("file", {
+          uri: imageUri,
+          type: "image/png",
+          name: "xray.png",
+        } as any);
+      }
+
+      // The request is synchronous, so inference starts as soon as it is sent
+      options.onProgress?.({ stage: "processing", progress: null });
+      const response = await fetchWithTimeout(`${baseUrl}/predict`, {
+        method: "POST",
+        headers: { Accept: "application/json" },
+        body: formData,
+        signal: options.signal,
+        timeoutMs: resolveRetryPolicy(options.retryPolicy).requestTimeoutMs,
+      });
+      await ensureOk(response, "REST predict");
+
+      let json: any;
+      try {
+        json = await response.json();
+      } catch (error) {
+        throw new AnalysisError(
+          "parse_error",
+          "The server response could not be read.",
+          error instanceof Error ? error.message : undefined,
+        );
+      }
+
+      return {
+        originalImage: resolveImage(
+          baseUrl,
+          json.original_image ?? json.originalImage,
+        ),
+        maskImage: resolveImage(baseUrl, json.mask_image ?? json.maskImage),
+        overlayImage: resolveImage(
+          baseUrl,
+          json.overlay_image ?? json.overlayImage,
+        ),
+        diagnosis: String(json.diagnosis ?? ""),
+      };
+    },
+    getModelInfo: async ({ signal } = {}): Promise<ModelInfo> => {
+      const response = await fetchWithTimeout(`${baseUrl}/info`, {
+        headers: { Accept: "application/json" },
+        signal,
+        timeoutMs: MODEL_INFO_TIMEOUT_MS,
+      });
+      await ensureOk(response, "REST info");
+      const json = await response.json();
+      const name = json.name ?? json.model_name ?? json.modelName;
+      const version = json.version ?? json.model_version ?? json.modelVersion;
+      return {
+        name: name != null ? String(name) : null,
+        version: version != null ? String(version) : null,
+      };
+    },
+  };
+}
@@ -0,0 +1,36 @@
+import { isAbortError } from "../utils";
+
+export interface BatchRunOptions {
+  concurrency: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Run a worker over every item with at most `concurrency` in flight
+ * Workers handle their own errors; the runner only stops early on abort
+ */
+export async function runBatch<T>(
+  items: T[],
+  worker: (item: T, index: number) => Promise<void>,
+  { concurrency, signal }: BatchRunOptions,
+): Promise<void> {
+  let nextIndex = 0;
+
+  const lane = async () => {
+    while (nextIndex < items.length && !signal?.aborted) {
+      const index = nextIndex++;
+      try {
+        await worker(items[index], index);
+      } catch (error) {
+        if (isAbortError(error)) return;
+        console.warn(`Batch item ${index} failed:`, error);
+      }
+    }
+  };
+
+  const lanes = Array.from(
+    { length: Math.max(1, Math.min(concurrency, items.length)) },
+    lane,
+  );
+  await Promise.all(lanes);
+}
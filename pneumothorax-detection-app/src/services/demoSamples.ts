@@ -0,0 +1,205 @@
+import { Asset } from "expo-asset";
+import { DemoSample } from "../types";
+import { loadRaster, toGrayscale } from "./preprocessing";
+
+/**
+ * Canned prediction bundled with a sample film
+ * Negative samples have no overlay; the film itself is shown instead
+ */
+interface BundledSample extends DemoSample {
+  film: number;
+  mask: number;
+  overlay: number | null;
+  diagnosis: string;
+}
+
+export interface DemoSampleMatch {
+  sample: DemoSample;
+  maskUri: string;
+  overlayUri: string | null;
+  diagnosis: string;
+}
+
+// Films are compared on a coarse, contrast-normalized thumbnail, so the
+// letterboxing and contrast steps of any preprocessing config still match
+const FINGERPRINT_SIZE = 32;
+// Mean squared difference of z-scores; the closest pair of samples is ~0.1
+const MAX_FINGERPRINT_DISTANCE = 0.04;
+
+const DEMO_NOTE =
+  "_Demo mode: canned result for a synthetic sample film. No model was run._";
+
+const BUNDLED_SAMPLES: BundledSample[] = [
+  {
+    id: "positive-right",
+    title: "Right-sided collapse",
+    description: "Large right apical and lateral air collection",
+    expectedVerdict: "positive",
+    film: require("../../assets/samples/positive-right.png"),
+    mask: require("../../assets/samples/positive-right-mask.png"),
+    overlay: require("../../assets/samples/positive-right-overlay.png"),
+    diagnosis: `## 🔴 Pneumothorax Detected
+
+**Confidence:** 94.2%
+
+**Location:** Right hemithorax, apical and lateral
+
+${DEMO_NOTE}`,
+  },
+  {
+    id: "positive-left",
+    title: "Left-sided collapse",
+    description: "Moderate left lateral air collection",
+    expectedVerdict: "positive",
+    film: require("../../assets/samples/positive-left.png"),
+    mask: require("../../assets/samples/positive-left-mask.png"),
+    overlay: require("../../assets/samples/positive-left-overlay.png"),
+    diagnosis: `## 🔴 Pneumothorax Detected
+
+**Confidence:** 81.7%
+
+**Location:** Left hemithorax, lateral
+
+${DEMO_NOTE}`,
+  },
+  {
+    id: "negative-1",
+    title: "Normal chest",
+    description: "Fully expanded lungs, broad habitus",
+    expectedVerdict: "negative",
+    film: require("../../assets/samples/negative-1.png"),
+    mask: require("../../assets/samples/negative-1-mask.png"),
+    overlay: null,
+    diagnosis: `## 🟢 No Pneumothorax Detected
+
+**Confidence:** 96.8%
+
+${DEMO_NOTE}`,
+  },
+  {
+    id: "negative-2",
+    title: "Normal chest",
+    description: "Fully expanded lungs, slim habitus",
+    expectedVerdict: "negative",
+    film: require("../../assets/samples/negative-2.png"),
+    mask: require("../../assets/samples/negative-2-mask.png"),
+    overlay: null,
+    diagnosis: `## 🟢 No Pneumothorax Detected
+
+**Confidence:** 91.3%
+
+${DEMO_NOTE}`,
+  },
+];
+
+export const DEMO_SAMPLES: DemoSample[] = BUNDLED_SAMPLES.map(
+  ({ id, title, description, expectedVerdict }) => ({
+    id,
+    title,
+    description,
+    expectedVerdict,
+  }),
+);
+
+/**
+ * Local URI of a bundled asset
+ * Assets ship inside the app binary, so this never needs the network
+ */
+async function resolveAsset(module: number): Promise<string> {
+  const asset = Asset.fromModule(module);
+  await asset.downloadAsync();
+  return asset.localUri ?? asset.uri;
+}
+
+/**
+ * URI of a sample film to open in the preview screen
+ */
+export async function getDemoSampleImage(sampleId: string): Promise<string> {
+  const sample = BUNDLED_SAMPLES.find((s) => s.id === sampleId);
+  if (!sample) {
+    throw new Error(`Unknown demo sample: ${sampleId}`);
+  }
+  return resolveAsset(sample.film);
+}
+
+/**
+ * Contrast-normalized luma thumbnail, or null for non-square images
+ * (no sample is)
+ */
+async function fingerprint(imageUri: string): Promise<Float32Array | null> {
+  const { raster } = await loadRaster(imageUri, FINGERPRINT_SIZE);
+  if (raster.width !== FINGERPRINT_SIZE || raster.height !== FINGERPRINT_SIZE) {
+    return null;
+  }
+
+  const gray = toGrayscale(raster).data;
+  const values = new Float32Array(FINGERPRINT_SIZE * FINGERPRINT_SIZE);
+  for (let i = 0; i < values.length; i++) values[i] = gray[i * 4];
+
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const variance =
+    values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+  const std = Math.sqrt(variance) || 1;
+  return values.map((v) => (v - mean) / std);
+}
+
+function distance(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += (a[i] - b[i]) ** 2;
+  return sum / a.length;
+}
+
+let sampleFingerprints: Promise<Float32Array[]> | null = null;
+
+function getSampleFingerprints(): Promise<Float32Array[]> {
+  if (!sampleFingerprints) {
+    sampleFingerprints = Promise.all(
+      BUNDLED_SAMPLES.map(async (sample) => {
+        const print = await fingerprint(await resolveAsset(sample.film));
+        if (!print) throw new Error(`Demo sample ${sample.id} is not square`);
+        return print;
+      }),
+    );
+    // Allow a later call to retry after a failed load
+    sampleFingerprints.catch(() => {
+      sampleFingerprints = null;
+    });
+  }
+  return sampleFingerprints;
+}
+
+/**
+ * Find the bundled sample an image was made from
+ * The image has usually been through preprocessing, so it is matched by
+ * appearance rather than by URI or file hash. Returns null for any other
+ * image.
+ */
+export async function matchDemoSample(
+  imageUri: string,
+): Promise<DemoSampleMatch | null> {
+  const [print, samplePrints] = await Promise.all([
+    fingerprint(imageUri),
+    getSampleFingerprints(),
+  ]);
+  if (!print) return null;
+
+  let best = -1;
+  let bestDistance = MAX_FINGERPRINT_DISTANCE;
+  samplePrints.forEach((samplePrint, index) => {
+    const d = distance(print, samplePrint);
+    if (d <= bestDistance) {
+      best = index;
+      bestDistance = d;
+    }
+  });
+  if (best === -1) return null;
+
+  const sample = BUNDLED_SAMPLES[best];
+  return {
+    sample: DEMO_SAMPLES[best],
+    maskUri: await resolveAsset(sample.mask),
+    overlayUri:
+      sample.overlay === null ? null : await resolveAsset(sample.overlay),
+    diagnosis: sample.diagnosis,
+  };
+}
@@ -0,0 +1,170 @@
+import { DiagnosisReport, DiagnosisSide, DiagnosisVerdict } from "../types";
+
+// Gap between a negation and "pneumothorax" that stays in one clause: no
+// sentence break, no "but"-style conjunction, and commas only inside a list
+// ("no effusion, consolidation or pneumothorax", not "no prior films,
+// pneumothorax detected")
+const SAME_CLAUSE =
+  "(?:(?!\\b(?:but|however|although|though|whereas|yet|while)\\b)(?:[^.;:,\\n]|,(?=[^.;:\\n]*?\\b(?:or|nor|and)\\b[^.;:\\n]*?\\bpneumothora)))";
+// Negations that must precede "pneumothorax" within the same clause
+const NEGATIVE_BEFORE = new RegExp(
+  `\\b(no|without|absence of|negative for|free of|rules? out|ruled out|no (?:evidence|signs?|features?|findings?) (?:of|suggestive of|for))\\b${SAME_CLAUSE}{0,40}?\\bpneumothora(?:x|ces)\\b`,
+);
+const NEGATIVE_AFTER =
+  /\bpneumothora(?:x|ces)\b[^.;:\n]{0,20}?\b(not (?:detected|present|seen|identified|found)|absent|ruled out|excluded)\b/;
+const POSITIVE_AFTER =
+  /\bpneumothora(?:x|ces)\b[^.;:\n]{0,20}?\b(detected|present|identified|seen|found|suspected|likely|positive)\b/;
+const POSITIVE_BEFORE =
+  /\b(positive for|evidence of|signs? of|suggestive of|consistent with|suspicious for|findings of)\b[^.;:\n]{0,20}?\bpneumothora(?:x|ces)\b/;
+
+// "Location: Right hemithorax" once markdown is stripped
+const LOCATION_FIELD = /^location\s*:\s*(.+)$/i;
+
+const NEGATIVE_MARKERS = ["🟢", "✅"];
+const POSITIVE_MARKERS = ["🔴"];
+
+// A number stated as the probability of pneumothorax itself, e.g.
+// "Pneumothorax probability: 87%" or "P(pneumothorax) = 0.87"
+const PNEUMOTHORAX_PROBABILITY =
+  /\b(?:(?:probability|likelihood|risk|p)\s*(?:of\s+|\(\s*)pneumothorax\)?|pneumothorax\s+(?:probability|likelihood|risk))\b[^0-9\n%]{0,20}?(\d{1,3}(?:\.\d+)?\s*%|0?\.\d+|1(?:\.0+)?(?![\d.])|0(?![\d.]))/i;
+// Confidence in whichever verdict the report states, e.g. "Confidence: 96.8%"
+const VERDICT_CONFIDENCE =
+  /\b(?:confidence|certainty)\b[^0-9\n%]{0,20}?(\d{1,3}(?:\.\d+)?\s*%|0?\.\d+|1(?:\.0+)?(?![\d.])|0(?![\d.]))/i;
+
+/**
+ * Strip markdown syntax so clause matching sees plain prose
+ */
+export function toPlainLines(markdown: string): string[] {
+  return markdown
+    .split(/\r?\n/)
+    .map((line) =>
+      line
+        .replace(/^\s{0,3}#{1,6}\s*/, "")
+        .replace(/^\s*(?:[-*+]|\d+\.)\s+/, "")
+        .replace(/[*_`~>|]/g, "")
+        .replace(/\s+/g, " ")
+        .trim(),
+    )
+    .filter((line) => line.length > 0);
+}
+
+/**
+ * Classify a single line, or return null when it carries no verdict
+ * Negations are checked first so "no evidence of pneumothorax (positive
+ * predictive value ...)" is not read as a positive finding
+ */
+function classifyLine(line: string): DiagnosisVerdict | null {
+  const lower = line.toLowerCase();
+
+  if (NEGATIVE_MARKERS.some((marker) => line.includes(marker))) {
+    return "negative";
+  }
+  if (POSITIVE_MARKERS.some((marker) => line.includes(marker))) {
+    return "positive";
+  }
+  if (NEGATIVE_BEFORE.test(lower) || NEGATIVE_AFTER.test(lower)) {
+    return "negative";
+  }
+  if (POSITIVE_AFTER.test(lower) || POSITIVE_BEFORE.test(lower)) {
+    return "positive";
+  }
+  return null;
+}
+
+/**
+ * Read "87%", "0.87" or "1" as a fraction, or null when out of range
+ */
+function toFraction(value: string): number | null {
+  const number = value.endsWith("%")
+    ? parseFloat(value) / 100
+    : parseFloat(value);
+  return number >= 0 && number <= 1 ? number : null;
+}
+
+/**
+ * Probability of pneumothorax, 0-1
+ * Only a number labeled as that probability is taken as is. A confidence is
+ * in the stated verdict, so it is converted by verdict (a negative report
+ * with 96.8% confidence means 3.2%). Any other number, such as a predictive
+ * value, is ignored.
+ */
+function parseProbability(
+  text: string,
+  verdict: DiagnosisVerdict,
+): number | null {
+  const labeled = text.match(PNEUMOTHORAX_PROBABILITY);
+  if (labeled) return toFraction(labeled[1]);
+
+  const confidenceMatch = text.match(VERDICT_CONFIDENCE);
+  const confidence = confidenceMatch ? toFraction(confidenceMatch[1]) : null;
+  if (confidence === null) return null;
+
+  if (verdict === "positive") return confidence;
+  if (verdict === "negative") return 1 - confidence;
+  return null;
+}
+
+/**
+ * Side of the finding, read from the Location field when the report has one
+ * so a left or right in other notes (e.g. "compare with the right side")
+ * is not taken as the location
+ */
+function parseSide(lines: string[]): DiagnosisSide | null {
+  const location = lines
+    .map((line) => line.match(LOCATION_FIELD)?.[1])
+    .find((value) => value !== undefined);
+  const lower = (location ?? lines.join("\n")).toLowerCase();
+  if (/\bbilateral(?:ly)?\b/.test(lower)) return "bilateral";
+
+  const left = /\bleft\b/.test(lower);
+  const right = /\bright\b/.test(lower);
+  if (left && right) return "bilateral";
+  if (left) return "left";
+  if (right) return "right";
+  return null;
+}
+
+/**
+ * Parse the markdown diagnosis returned by the model into a typed report
+ *
+ * The verdict is taken from the first line that states one. If no line does,
+ * or if later lines contradict the headline, the report is "unparseable"
+ * instead of guessing.
+ */
+export function parseDiagnosis(markdown: string): DiagnosisReport {
+  const lines = toPlainLines(markdown);
+
+  let verdict: DiagnosisVerdict = "unparseable";
+  let verdictLine = -1;
+
+  for (let i = 0; i < lines.length; i++) {
+    const lineVerdict = classifyLine(lines[i]);
+    if (!lineVerdict) continue;
+
+    if (verdictLine === -1) {
+      verdict = lineVerdict;
+      verdictLine = i;
+    } else if (lineVerdict !== verdict) {
+      verdict = "unparseable";
+      break;
+    }
+  }
+
+  const probability = parseProbability(lines.join("\n"), verdict);
+  const side = verdict === "positive" ? parseSide(lines) : null;
+
+  const notes = lines.filter(
+    (line, index) =>
+      index !== verdictLine &&
+      !PNEUMOTHORAX_PROBABILITY.test(line) &&
+      !VERDICT_CONFIDENCE.test(line),
+  );
+
+  return {
+    verdict,
+    probability,
+    side,
+    notes,
+    rawMarkdown: markdown,
+  };
+}
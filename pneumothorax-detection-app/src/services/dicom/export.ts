@@ -0,0 +1,210 @@
+import { DetectionResult, PneumoAPIResponse } from "../../types";
+import { ExportFile, saveExportFile } from "../exportFiles";
+import { loadRaster, RasterImage } from "../preprocessing";
+import { TAGS, tag } from "./parser";
+import {
+  DicomWriteElement,
+  formatDicomDateTime,
+  generateUid,
+  rasterToRgb,
+  SECONDARY_CAPTURE_SOP_CLASS,
+  writeDicomFile,
+} from "./writer";
+
+const MANUFACTURER = "Pneumothorax Detection App";
+// High number keeps the AI series apart from acquired series in viewers
+const AI_SERIES_NUMBER = "9001";
+const AI_SERIES_DESCRIPTION = "AI GENERATED - Pneumothorax analysis";
+const AI_DISCLAIMER =
+  "AI-generated image. Not for primary diagnosis; review with the source images.";
+
+export interface SecondaryCaptureOptions {
+  includeMask?: boolean;
+}
+
+interface CaptureImage {
+  raster: RasterImage;
+  kind: "overlay" | "mask";
+}
+
+function pixelElements(
+  raster: RasterImage,
+  color: boolean,
+): DicomWriteElement[] {
+  const pixels = color
+    ? rasterToRgb(raster)
+    : Uint8Array.from(
+        { length: raster.width * raster.height },
+        (_, i) => raster.data[i * 4],
+      );
+
+  return [
+    { tag: TAGS.samplesPerPixel, vr: "US", value: [color ? 3 : 1] },
+    {
+      tag: TAGS.photometricInterpretation,
+      vr: "CS",
+      value: color ? "RGB" : "MONOCHROME2",
+    },
+    ...(color
+      ? [{ tag: tag(0x0028, 0x0006), vr: "US", value: [0] }] // interleaved
+      : []),
+    { tag: TAGS.rows, vr: "US", value: [raster.height] },
+    { tag: TAGS.columns, vr: "US", value: [raster.width] },
+    { tag: TAGS.bitsAllocated, vr: "US", value: [8] },
+    { tag: TAGS.bitsStored, vr: "US", value: [8] },
+    { tag: tag(0x0028, 0x0102), vr: "US", value: [7] }, // high bit
+    { tag: TAGS.pixelRepresentation, vr: "US", value: [0] },
+    { tag: TAGS.pixelData, vr: "OB", value: pixels },
+  ];
+}
+
+/**
+ * Elements identifying the patient and study
+ * Copied from the source when it was DICOM so PACS files the export with
+ * the original study; otherwise a new study is described
+ */
+function studyElements(
+  result: DetectionResult,
+  studyInstanceUid: string,
+): DicomWriteElement[] {
+  const source = result.dicom;
+  const analyzed = formatDicomDateTime(new Date(result.timestamp));
+
+  return [
+    { tag: TAGS.patientName, vr: "PN", value: source?.patientName ?? "" },
+    { tag: TAGS.patientId, vr: "LO", value: source?.patientId ?? "" },
+    {
+      tag: TAGS.patientBirthDate,
+      vr: "DA",
+      value: source?.patientBirthDate ?? "",
+    },
+    { tag: TAGS.patientSex, vr: "CS", value: source?.patientSex ?? "" },
+    {
+      tag: TAGS.studyInstanceUid,
+      vr: "UI",
+      value: studyInstanceUid,
+    },
+    {
+      tag: TAGS.studyDate,
+      vr: "DA",
+      value: source?.studyDate ?? analyzed.date,
+    },
+    {
+      tag: TAGS.studyTime,
+      vr: "TM",
+      value: source?.studyTime ?? analyzed.time,
+    },
+    { tag: TAGS.studyId, vr: "SH", value: source?.studyId ?? "" },
+    {
+      tag: TAGS.accessionNumber,
+      vr: "SH",
+      value: source?.accessionNumber ?? "",
+    },
+    { tag: tag(0x0008, 0x0090), vr: "PN", value: "" }, // referring physician
+  ];
+}
+
+function describeResult(result: DetectionResult): string {
+  const report = result.report;
+  if (!report) return AI_DISCLAIMER;
+  const parts = [
+    report.verdict === "positive"
+      ? "Pneumothorax detected"
+      : report.verdict === "negative"
+        ? "No pneumothorax detected"
+        : "Inconclusive",
+    report.probability !== null
+      ? `probability ${(report.probability * 100).toFixed(1)}%`
+      : null,
+    report.side,
+  ].filter(Boolean);
+  return `${parts.join(", ")}. ${AI_DISCLAIMER}`;
+}
+
+function buildCapture(
+  image: CaptureImage,
+  instanceNumber: number,
+  uids: { studyInstanceUid: string; seriesInstanceUid: string },
+  result: DetectionResult,
+): { sopInstanceUid: string; bytes: Uint8Array } {
+  const sopInstanceUid = generateUid();
+  const created = formatDicomDateTime(new Date());
+
+  const elements: DicomWriteElement[] = [
+    ...studyElements(result, uids.studyInstanceUid),
+    { tag: tag(0x0008, 0x0008), vr: "CS", value: "DERIVED\\SECONDARY" },
+    { tag: TAGS.sopClassUid, vr: "UI", value: SECONDARY_CAPTURE_SOP_CLASS },
+    { tag: TAGS.sopInstanceUid, vr: "UI", value: sopInstanceUid },
+    { tag: tag(0x0008, 0x0023), vr: "DA", value: created.date },
+    { tag: tag(0x0008, 0x0033), vr: "TM", value: created.time },
+    { tag: TAGS.modality, vr: "CS", value: "OT" },
+    { tag: tag(0x0008, 0x0064), vr: "CS", value: "WSD" }, // conversion type
+    { tag: tag(0x0008, 0x0070), vr: "LO", value: MANUFACTURER },
+    { tag: tag(0x0008, 0x103e), vr: "LO", value: AI_SERIES_DESCRIPTION },
+    {
+      tag: tag(0x0008, 0x2111),
+      vr: "ST",
+      value:
+        image.kind === "overlay"
+          ? "AI segmentation overlaid on the analyzed image"
+          : "AI segmentation mask",
+    },
+    { tag: TAGS.seriesInstanceUid, vr: "UI", value: uids.seriesInstanceUid },
+    { tag: tag(0x0020, 0x0011), vr: "IS", value: AI_SERIES_NUMBER },
+    { tag: tag(0x0020, 0x0013), vr: "IS", value: String(instanceNumber) },
+    { tag: tag(0x0020, 0x0020), vr: "CS", value: "" }, // patient orientation
+    { tag: tag(0x0020, 0x4000), vr: "LT", value: describeResult(result) },
+    { tag: tag(0x0028, 0x0301), vr: "CS", value: "NO" }, // burned in annotation
+    ...pixelElements(image.raster, image.kind === "overlay"),
+  ];
+
+  return {
+    sopInstanceUid,
+    bytes: writeDicomFile(
+      SECONDARY_CAPTURE_SOP_CLASS,
+      sopInstanceUid,
+      elements,
+    ),
+  };
+}
+
+/**
+ * Encode the analysis overlay (and optionally the mask) as DICOM
+ * Secondary Capture instances in a new AI-labeled series
+ * Returns one file per instance
+ */
+export async function exportSecondaryCapture(
+  result: DetectionResult,
+  apiResponse: PneumoAPIResponse,
+  options: SecondaryCaptureOptions = {},
+): Promise<ExportFile[]> {
+  const overlayUri =
+    apiResponse.overlayImage || result.preprocessed?.uri || result.imageUri;
+  const images: CaptureImage[] = [
+    { kind: "overlay", raster: (await loadRaster(overlayUri)).raster },
+  ];
+  if (options.includeMask && apiResponse.maskImage) {
+    images.push({
+      kind: "mask",
+      raster: (await loadRaster(apiResponse.maskImage)).raster,
+    });
+  }
+
+  // Every instance belongs to the same study and series
+  const uids = {
+    studyInstanceUid: result.dicom?.studyInstanceUid ?? generateUid(),
+    seriesInstanceUid: generateUid(),
+  };
+  const files: ExportFile[] = [];
+  for (const [index, image] of images.entries()) {
+    const { bytes } = buildCapture(image, index + 1, uids, result);
+    files.push(
+      await saveExportFile(
+        bytes,
+        `${result.id}-${image.kind}.dcm`,
+        "application/dicom",
+      ),
+    );
+  }
+  return files;
+}
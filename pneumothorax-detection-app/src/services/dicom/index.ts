@@ -0,0 +1,57 @@
+// DICOM import/export barrel export
+import * as FileSystem from "expo-file-system/legacy";
+import { Platform } from "react-native";
+import { WindowLevel } from "../../types";
+import { base64ToBytes } from "../../utils";
+import { saveRaster } from "../preprocessing";
+import { parseDicom } from "./parser";
+import { decodeDicomImage, DicomImage, renderWindowed } from "./render";
+
+export { DicomParseError, parseDicom } from "./parser";
+export {
+  decodeDicomImage,
+  defaultWindow,
+  fullRangeWindow,
+  renderWindowed,
+} from "./render";
+export type { DicomImage } from "./render";
+export { exportSecondaryCapture } from "./export";
+
+const isWeb = Platform.OS === "web";
+
+const DICOM_DIRECTORY = `${FileSystem.cacheDirectory}dicom/`;
+
+// Longest side of the PNG handed to the rest of the pipeline
+const MAX_IMPORT_SIZE = 2048;
+
+async function readFileBytes(uri: string): Promise<Uint8Array> {
+  if (isWeb || uri.startsWith("data:") || uri.startsWith("blob:")) {
+    const response = await fetch(uri);
+    return new Uint8Array(await response.arrayBuffer());
+  }
+  const base64 = await FileSystem.readAsStringAsync(uri, {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+  return base64ToBytes(base64);
+}
+
+/**
+ * Read and decode a DICOM file picked by the user
+ * Rejects with a DicomParseError for non-image or unsupported files
+ */
+export async function loadDicomImage(uri: string): Promise<DicomImage> {
+  const bytes = await readFileBytes(uri);
+  return decodeDicomImage(parseDicom(bytes));
+}
+
+/**
+ * Render a DICOM image with the given window to a PNG URI
+ * Pass a small maxSize for interactive previews
+ */
+export async function renderDicomToPng(
+  image: DicomImage,
+  window: WindowLevel,
+  maxSize: number = MAX_IMPORT_SIZE,
+): Promise<string> {
+  return saveRaster(renderWindowed(image, window, maxSize), DICOM_DIRECTORY);
+}
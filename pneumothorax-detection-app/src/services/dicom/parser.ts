@@ -0,0 +1,313 @@
+/**
+ * Minimal DICOM Part 10 reader
+ * Handles uncompressed little and big endian transfer syntaxes, which is
+ * what modality exports and PACS "save as" produce by default
+ */
+
+export const TRANSFER_SYNTAX = {
+  implicitLittle: "1.2.840.10008.1.2",
+  explicitLittle: "1.2.840.10008.1.2.1",
+  explicitBig: "1.2.840.10008.1.2.2",
+} as const;
+
+/**
+ * Build a numeric tag from its group and element
+ */
+export function tag(group: number, element: number): number {
+  return ((group << 16) | element) >>> 0;
+}
+
+export const TAGS = {
+  transferSyntaxUid: tag(0x0002, 0x0010),
+  sopClassUid: tag(0x0008, 0x0016),
+  sopInstanceUid: tag(0x0008, 0x0018),
+  studyDate: tag(0x0008, 0x0020),
+  studyTime: tag(0x0008, 0x0030),
+  accessionNumber: tag(0x0008, 0x0050),
+  modality: tag(0x0008, 0x0060),
+  studyDescription: tag(0x0008, 0x1030),
+  patientName: tag(0x0010, 0x0010),
+  patientId: tag(0x0010, 0x0020),
+  patientBirthDate: tag(0x0010, 0x0030),
+  patientSex: tag(0x0010, 0x0040),
+  bodyPartExamined: tag(0x0018, 0x0015),
+  viewPosition: tag(0x0018, 0x5101),
+  studyInstanceUid: tag(0x0020, 0x000d),
+  seriesInstanceUid: tag(0x0020, 0x000e),
+  studyId: tag(0x0020, 0x0010),
+  samplesPerPixel: tag(0x0028, 0x0002),
+  photometricInterpretation: tag(0x0028, 0x0004),
+  numberOfFrames: tag(0x0028, 0x0008),
+  rows: tag(0x0028, 0x0010),
+  columns: tag(0x0028, 0x0011),
+  bitsAllocated: tag(0x0028, 0x0100),
+  bitsStored: tag(0x0028, 0x0101),
+  pixelRepresentation: tag(0x0028, 0x0103),
+  windowCenter: tag(0x0028, 0x1050),
+  windowWidth: tag(0x0028, 0x1051),
+  rescaleIntercept: tag(0x0028, 0x1052),
+  rescaleSlope: tag(0x0028, 0x1053),
+  pixelData: tag(0x7fe0, 0x0010),
+} as const;
+
+const ITEM = tag(0xfffe, 0xe000);
+const ITEM_DELIMITER = tag(0xfffe, 0xe00d);
+const SEQUENCE_DELIMITER = tag(0xfffe, 0xe0dd);
+const UNDEFINED_LENGTH = 0xffffffff;
+
+// Explicit VRs whose length field is 4 bytes, preceded by 2 reserved bytes
+const LONG_LENGTH_VRS = new Set([
+  "OB",
+  "OD",
+  "OF",
+  "OL",
+  "OV",
+  "OW",
+  "SQ",
+  "SV",
+  "UC",
+  "UN",
+  "UR",
+  "UT",
+  "UV",
+]);
+
+/**
+ * Location of an element's value within the file
+ */
+export interface DicomElement {
+  tag: number;
+  vr: string; // "" when the transfer syntax has implicit VR
+  offset: number;
+  length: number;
+}
+
+export interface DicomDataset {
+  bytes: Uint8Array;
+  view: DataView;
+  littleEndian: boolean;
+  transferSyntaxUid: string;
+  elements: Map<number, DicomElement>;
+}
+
+/**
+ * Raised for files that are not DICOM or use an unsupported encoding
+ */
+export class DicomParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DicomParseError";
+  }
+}
+
+interface Cursor {
+  offset: number;
+}
+
+function readAscii(bytes: Uint8Array, offset: number, length: number): string {
+  let text = "";
+  for (let i = offset; i < offset + length; i++) {
+    text += String.fromCharCode(bytes[i]);
+  }
+  return text;
+}
+
+function readTag(view: DataView, cursor: Cursor, littleEndian: boolean) {
+  const group = view.getUint16(cursor.offset, littleEndian);
+  const element = view.getUint16(cursor.offset + 2, littleEndian);
+  cursor.offset += 4;
+  return tag(group, element);
+}
+
+/**
+ * Read one element header and advance past its value
+ * Undefined-length values (sequences, encapsulated pixel data) are walked
+ * item by item until their delimiter
+ */
+function readElement(
+  bytes: Uint8Array,
+  view: DataView,
+  cursor: Cursor,
+  explicitVr: boolean,
+  littleEndian: boolean,
+): DicomElement {
+  const elementTag = readTag(view, cursor, littleEndian);
+
+  // Item and delimiter tags never carry a VR
+  if (elementTag >>> 16 === 0xfffe) {
+    const length = view.getUint32(cursor.offset, littleEndian);
+    cursor.offset += 4;
+    return { tag: elementTag, vr: "", offset: cursor.offset, length };
+  }
+
+  let vr = "";
+  let length: number;
+  if (explicitVr) {
+    vr = readAscii(bytes, cursor.offset, 2);
+    cursor.offset += 2;
+    if (LONG_LENGTH_VRS.has(vr)) {
+      cursor.offset += 2;
+      length = view.getUint32(cursor.offset, littleEndian);
+      cursor.offset += 4;
+    } else {
+      length = view.getUint16(cursor.offset, littleEndian);
+      cursor.offset += 2;
+    }
+  } else {
+    length = view.getUint32(cursor.offset, littleEndian);
+    cursor.offset += 4;
+  }
+
+  const offset = cursor.offset;
+  if (length === UNDEFINED_LENGTH) {
+    skipUndefinedLength(bytes, view, cursor, explicitVr, littleEndian);
+  } else {
+    cursor.offset += length;
+  }
+
+  return { tag: elementTag, vr, offset, length };
+}
+
+function skipUndefinedLength(
+  bytes: Uint8Array,
+  view: DataView,
+  cursor: Cursor,
+  explicitVr: boolean,
+  littleEndian: boolean,
+): void {
+  while (cursor.offset + 8 <= bytes.length) {
+    const item = readElement(bytes, view, cursor, explicitVr, littleEndian);
+    if (item.tag === SEQUENCE_DELIMITER) return;
+    if (item.tag !== ITEM) continue;
+
+    if (item.length === UNDEFINED_LENGTH) {
+      // Nested dataset runs until its item delimiter
+      while (cursor.offset + 8 <= bytes.length) {
+        const nested = readElement(
+          bytes,
+          view,
+          cursor,
+          explicitVr,
+          littleEndian,
+        );
+        if (nested.tag === ITEM_DELIMITER) break;
+      }
+    } else {
+      cursor.offset += item.length;
+    }
+  }
+}
+
+/**
+ * Parse the top-level elements of a DICOM file
+ * Values are not copied; use the read helpers to decode them on demand
+ */
+export function parseDicom(bytes: Uint8Array): DicomDataset {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const hasPreamble =
+    bytes.length >= 132 && readAscii(bytes, 128, 4) === "DICM";
+  const cursor: Cursor = { offset: hasPreamble ? 132 : 0 };
+  const elements = new Map<number, DicomElement>();
+
+  // File meta information is always explicit VR little endian
+  let transferSyntaxUid: string = TRANSFER_SYNTAX.implicitLittle;
+  if (hasPreamble) {
+    while (
+      cursor.offset + 8 <= bytes.length &&
+      view.getUint16(cursor.offset, true) === 0x0002
+    ) {
+      const element = readElement(bytes, view, cursor, true, true);
+      elements.set(element.tag, element);
+    }
+    const syntax = elements.get(TAGS.transferSyntaxUid);
+    if (syntax) {
+      transferSyntaxUid = cleanString(
+        readAscii(bytes, syntax.offset, syntax.length),
+      );
+    }
+  }
+
+  if (
+    transferSyntaxUid !== TRANSFER_SYNTAX.implicitLittle &&
+    transferSyntaxUid !== TRANSFER_SYNTAX.explicitLittle &&
+    transferSyntaxUid !== TRANSFER_SYNTAX.explicitBig
+  ) {
+    throw new DicomParseError(
+      `Compressed DICOM (transfer syntax ${transferSyntaxUid}) is not supported`,
+    );
+  }
+
+  const explicitVr = transferSyntaxUid !== TRANSFER_SYNTAX.implicitLittle;
+  const littleEndian = transferSyntaxUid !== TRANSFER_SYNTAX.explicitBig;
+
+  try {
+    while (cursor.offset + 8 <= bytes.length) {
+      const element = readElement(
+        bytes,
+        view,
+        cursor,
+        explicitVr,
+        littleEndian,
+      );
+      elements.set(element.tag, element);
+      if (element.tag === TAGS.pixelData) break;
+    }
+  } catch (error) {
+    if (error instanceof RangeError) {
+      throw new DicomParseError("The DICOM file is truncated");
+    }
+    throw error;
+  }
+
+  if (!elements.has(TAGS.rows) || !elements.has(TAGS.pixelData)) {
+    throw new DicomParseError("The file does not contain a DICOM image");
+  }
+
+  return { bytes, view, littleEndian, transferSyntaxUid, elements };
+}
+
+function cleanString(value: string): string {
+  return value.replace(/[\0\s]+$/, "").trim();
+}
+
+/**
+ * Read a text value, or undefined when the element is absent or empty
+ */
+export function readString(
+  dataset: DicomDataset,
+  elementTag: number,
+): string | undefined {
+  const element = dataset.elements.get(elementTag);
+  if (!element || !element.length) return undefined;
+  const value = cleanString(
+    readAscii(dataset.bytes, element.offset, element.length),
+  );
+  return value || undefined;
+}
+
+/**
+ * Read all values of a decimal or integer string (DS/IS) element
+ */
+export function readNumbers(
+  dataset: DicomDataset,
+  elementTag: number,
+): number[] {
+  const value = readString(dataset, elementTag);
+  if (!value) return [];
+  return value
+    .split("\\")
+    .map((part) => parseFloat(part))
+    .filter((number) => Number.isFinite(number));
+}
+
+/**
+ * Read an unsigned short (US) element
+ */
+export function readUint16(
+  dataset: DicomDataset,
+  elementTag: number,
+): number | undefined {
+  const element = dataset.elements.get(elementTag);
+  if (!element || element.length < 2) return undefined;
+  return dataset.view.getUint16(element.offset, dataset.littleEndian);
+}
@@ -0,0 +1,191 @@
+import { DicomMetadata, WindowLevel } from "../../types";
+import { RasterImage } from "../preprocessing";
+import {
+  DicomDataset,
+  DicomParseError,
+  readNumbers,
+  readString,
+  readUint16,
+  TAGS,
+} from "./parser";
+
+/**
+ * First frame of a grayscale DICOM image as modality values
+ * (stored values with the rescale slope and intercept applied)
+ */
+export interface DicomImage {
+  width: number;
+  height: number;
+  values: Float32Array;
+  minValue: number;
+  maxValue: number;
+  invert: boolean; // MONOCHROME1: higher values are darker
+  storedWindow: WindowLevel | null;
+  metadata: DicomMetadata;
+}
+
+function readMetadata(dataset: DicomDataset): DicomMetadata {
+  return {
+    modality: readString(dataset, TAGS.modality),
+    studyDate: readString(dataset, TAGS.studyDate),
+    studyTime: readString(dataset, TAGS.studyTime),
+    studyId: readString(dataset, TAGS.studyId),
+    accessionNumber: readString(dataset, TAGS.accessionNumber),
+    patientName: readString(dataset, TAGS.patientName),
+    patientId: readString(dataset, TAGS.patientId),
+    patientBirthDate: readString(dataset, TAGS.patientBirthDate),
+    patientSex: readString(dataset, TAGS.patientSex),
+    viewPosition: readString(dataset, TAGS.viewPosition),
+    bodyPartExamined: readString(dataset, TAGS.bodyPartExamined),
+    studyDescription: readString(dataset, TAGS.studyDescription),
+    studyInstanceUid: readString(dataset, TAGS.studyInstanceUid),
+    seriesInstanceUid: readString(dataset, TAGS.seriesInstanceUid),
+    sopInstanceUid: readString(dataset, TAGS.sopInstanceUid),
+  };
+}
+
+/**
+ * Decode the pixel data of a parsed dataset
+ * Supports 8 and 16 bit, signed or unsigned, MONOCHROME1 and MONOCHROME2
+ */
+export function decodeDicomImage(dataset: DicomDataset): DicomImage {
+  const width = readUint16(dataset, TAGS.columns) ?? 0;
+  const height = readUint16(dataset, TAGS.rows) ?? 0;
+  const samplesPerPixel = readUint16(dataset, TAGS.samplesPerPixel) ?? 1;
+  const bitsAllocated = readUint16(dataset, TAGS.bitsAllocated) ?? 16;
+  const bitsStored = readUint16(dataset, TAGS.bitsStored) ?? bitsAllocated;
+  const signed = readUint16(dataset, TAGS.pixelRepresentation) === 1;
+  const photometric =
+    readString(dataset, TAGS.photometricInterpretation) ?? "MONOCHROME2";
+
+  if (samplesPerPixel !== 1 || !photometric.startsWith("MONOCHROME")) {
+    throw new DicomParseError(
+      `Only grayscale DICOM images are supported (found ${photometric})`,
+    );
+  }
+  if (bitsAllocated !== 8 && bitsAllocated !== 16) {
+    throw new DicomParseError(`Unsupported bit depth: ${bitsAllocated}`);
+  }
+  if (!width || !height) {
+    throw new DicomParseError("The DICOM image has no dimensions");
+  }
+
+  const pixelData = dataset.elements.get(TAGS.pixelData)!;
+  const bytesPerPixel = bitsAllocated / 8;
+  const pixelCount = width * height;
+  if (pixelData.length < pixelCount * bytesPerPixel) {
+    throw new DicomParseError("The DICOM pixel data is incomplete");
+  }
+
+  const slope = readNumbers(dataset, TAGS.rescaleSlope)[0] ?? 1;
+  const intercept = readNumbers(dataset, TAGS.rescaleIntercept)[0] ?? 0;
+  const storedMask = bitsStored >= 32 ? 0xffffffff : (1 << bitsStored) - 1;
+  const signBit = 1 << (bitsStored - 1);
+
+  const values = new Float32Array(pixelCount);
+  let minValue = Infinity;
+  let maxValue = -Infinity;
+
+  for (let i = 0; i < pixelCount; i++) {
+    const offset = pixelData.offset + i * bytesPerPixel;
+    let stored =
+      bytesPerPixel === 2
+        ? dataset.view.getUint16(offset, dataset.littleEndian)
+        : dataset.bytes[offset];
+
+    // Ignore overlay bits above bitsStored, then sign-extend
+    stored &= storedMask;
+    if (signed && stored & signBit) {
+      stored -= signBit * 2;
+    }
+
+    const value = stored * slope + intercept;
+    values[i] = value;
+    if (value < minValue) minValue = value;
+    if (value > maxValue) maxValue = value;
+  }
+
+  const centers = readNumbers(dataset, TAGS.windowCenter);
+  const widths = readNumbers(dataset, TAGS.windowWidth);
+  const storedWindow =
+    centers.length && widths.length && widths[0] >= 1
+      ? { center: centers[0], width: widths[0] }
+      : null;
+
+  return {
+    width,
+    height,
+    values,
+    minValue,
+    maxValue,
+    invert: photometric === "MONOCHROME1",
+    storedWindow,
+    metadata: readMetadata(dataset),
+  };
+}
+
+/**
+ * Window covering every value in the image
+ */
+export function fullRangeWindow(image: DicomImage): WindowLevel {
+  return {
+    center: (image.minValue + image.maxValue) / 2,
+    width: Math.max(1, image.maxValue - image.minValue + 1),
+  };
+}
+
+/**
+ * Window to start from: the one stored in the file, or the full range
+ */
+export function defaultWindow(image: DicomImage): WindowLevel {
+  return image.storedWindow ?? fullRangeWindow(image);
+}
+
+/**
+ * Convert modality values to 8-bit grayscale with the DICOM linear VOI
+ * function (PS3.3 C.11.2.1.2), downsampling so the longest side is at
+ * most maxSize. MONOCHROME1 images are inverted so bone is always bright.
+ */
+export function renderWindowed(
+  image: DicomImage,
+  window: WindowLevel,
+  maxSize: number,
+): RasterImage {
+  const scale = Math.min(1, maxSize / Math.max(image.width, image.height));
+  const width = Math.max(1, Math.round(image.width * scale));
+  const height = Math.max(1, Math.round(image.height * scale));
+  const data = new Uint8ClampedArray(width * height * 4);
+
+  const windowWidth = Math.max(1, window.width);
+  const lower = window.center - 0.5 - (windowWidth - 1) / 2;
+  const upper = window.center - 0.5 + (windowWidth - 1) / 2;
+
+  for (let y = 0; y < height; y++) {
+    const sourceY = Math.min(image.height - 1, Math.floor(y / scale));
+    for (let x = 0; x < width; x++) {
+      const sourceX = Math.min(image.width - 1, Math.floor(x / scale));
+      const value = image.values[sourceY * image.width + sourceX];
+
+      let gray: number;
+      if (value <= lower) {
+        gray = 0;
+      } else if (value > upper) {
+        gray = 255;
+      } else if (windowWidth === 1) {
+        gray = 255;
+      } else {
+        gray =
+          ((value - (window.center - 0.5)) / (windowWidth - 1) + 0.5) * 255;
+      }
+      if (image.invert) gray = 255 - gray;
+
+      const o = (y * width + x) * 4;
+      data[o] = gray;
+      data[o + 1] = gray;
+      data[o + 2] = gray;
+      data[o + 3] = 255;
+    }
+  }
+
+  return { width, height, data };
+}
@@ -0,0 +1,161 @@
+import * as Crypto from "expo-crypto";
+import { RasterImage } from "../preprocessing";
+import { tag, TAGS, TRANSFER_SYNTAX } from "./parser";
+
+export const SECONDARY_CAPTURE_SOP_CLASS = "1.2.840.10008.5.1.4.1.1.7";
+
+// UID root for UUID-derived UIDs (PS3.5 B.2)
+const UUID_UID_ROOT = "2.25.";
+const IMPLEMENTATION_CLASS_UID = "2.25.302398741203958120934512987340198273";
+const IMPLEMENTATION_VERSION = "PNEUMO_APP_1";
+
+/**
+ * Value of a data element to be written
+ * Strings are padded to even length; number arrays are written as US or UL
+ */
+export interface DicomWriteElement {
+  tag: number;
+  vr: string;
+  value: string | number[] | Uint8Array;
+}
+
+/**
+ * Generate a globally unique DICOM UID from a random UUID
+ */
+export function generateUid(): string {
+  const value = BigInt(`0x${Crypto.randomUUID().replace(/-/g, "")}`);
+  return `${UUID_UID_ROOT}${value.toString()}`;
+}
+
+/**
+ * Format a date as a DICOM DA (YYYYMMDD) and TM (HHMMSS) pair
+ */
+export function formatDicomDateTime(date: Date): {
+  date: string;
+  time: string;
+} {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return {
+    date: `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`,
+    time: `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`,
+  };
+}
+
+// Explicit VRs with a 4-byte length field
+const LONG_LENGTH_VRS = new Set(["OB", "OW", "SQ", "UN", "UT", "UC", "UR"]);
+
+function encodeValue(element: DicomWriteElement): Uint8Array {
+  const { vr, value } = element;
+
+  if (value instanceof Uint8Array) {
+    if (value.length % 2 === 0) return value;
+    const padded = new Uint8Array(value.length + 1);
+    padded.set(value);
+    return padded;
+  }
+
+  if (Array.isArray(value)) {
+    const bytes = new Uint8Array(value.length * (vr === "UL" ? 4 : 2));
+    const view = new DataView(bytes.buffer);
+    value.forEach((number, i) => {
+      if (vr === "UL") {
+        view.setUint32(i * 4, number, true);
+      } else {
+        view.setUint16(i * 2, number, true);
+      }
+    });
+    return bytes;
+  }
+
+  // UIDs are padded with NUL, all other text with a space
+  const text = value.length % 2 ? value + (vr === "UI" ? "\0" : " ") : value;
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) {
+    bytes[i] = text.charCodeAt(i) & 0xff;
+  }
+  return bytes;
+}
+
+function encodeElement(element: DicomWriteElement): Uint8Array {
+  const value = encodeValue(element);
+  const long = LONG_LENGTH_VRS.has(element.vr);
+  const header = new Uint8Array(long ? 12 : 8);
+  const view = new DataView(header.buffer);
+
+  view.setUint16(0, element.tag >>> 16, true);
+  view.setUint16(2, element.tag & 0xffff, true);
+  header[4] = element.vr.charCodeAt(0);
+  header[5] = element.vr.charCodeAt(1);
+  if (long) {
+    view.setUint32(8, value.length, true);
+  } else {
+    view.setUint16(6, value.length, true);
+  }
+
+  const encoded = new Uint8Array(header.length + value.length);
+  encoded.set(header);
+  encoded.set(value, header.length);
+  return encoded;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const total = parts.reduce((sum, part) => sum + part.length, 0);
+  const bytes = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+}
+
+/**
+ * Serialize a dataset as a DICOM Part 10 file in explicit VR little endian
+ * Elements may be given in any order and are written sorted by tag
+ */
+export function writeDicomFile(
+  sopClassUid: string,
+  sopInstanceUid: string,
+  elements: DicomWriteElement[],
+): Uint8Array {
+  const meta = [
+    { tag: tag(0x0002, 0x0001), vr: "OB", value: new Uint8Array([0, 1]) },
+    { tag: tag(0x0002, 0x0002), vr: "UI", value: sopClassUid },
+    { tag: tag(0x0002, 0x0003), vr: "UI", value: sopInstanceUid },
+    {
+      tag: TAGS.transferSyntaxUid,
+      vr: "UI",
+      value: TRANSFER_SYNTAX.explicitLittle,
+    },
+    { tag: tag(0x0002, 0x0012), vr: "UI", value: IMPLEMENTATION_CLASS_UID },
+    { tag: tag(0x0002, 0x0013), vr: "SH", value: IMPLEMENTATION_VERSION },
+  ].map(encodeElement);
+  const metaLength = meta.reduce((sum, part) => sum + part.length, 0);
+  const groupLength = encodeElement({
+    tag: tag(0x0002, 0x0000),
+    vr: "UL",
+    value: [metaLength],
+  });
+
+  const dataset = [...elements]
+    .sort((a, b) => a.tag - b.tag)
+    .map(encodeElement);
+
+  const preamble = new Uint8Array(132);
+  preamble.set([0x44, 0x49, 0x43, 0x4d], 128); // "DICM"
+
+  return concat([preamble, groupLength, ...meta, ...dataset]);
+}
+
+/**
+ * Pack RGBA pixels as interleaved 8-bit RGB pixel data
+ */
+export function rasterToRgb(raster: RasterImage): Uint8Array {
+  const rgb = new Uint8Array(raster.width * raster.height * 3);
+  for (let i = 0, o = 0; i < rgb.length; i += 3, o += 4) {
+    rgb[i] = raster.data[o];
+    rgb[i + 1] = raster.data[o + 1];
+    rgb[i + 2] = raster.data[o + 2];
+  }
+  return rgb;
+}
@@ -0,0 +1,244 @@
+import * as FileSystem from "expo-file-system/legacy";
+import {
+  BoundingBox,
+  DiagnosisReport,
+  DiagnosisSide,
+  DiagnosisVerdict,
+  EnsembleConfig,
+  EnsembleStrategy,
+  ModelOpinion,
+} from "../types";
+import {
+  decodeMask,
+  DEFAULT_MIN_REGION_AREA,
+  labelConnectedComponents,
+  MaskPixels,
+  regionsToBoundingBoxes,
+} from "./maskAnalysis";
+import { RasterImage, saveRaster } from "./preprocessing";
+
+const ENSEMBLE_DIRECTORY = `${FileSystem.cacheDirectory}ensemble/`;
+const MASK_THRESHOLD = 128;
+
+export const DEFAULT_ENSEMBLE_CONFIG: EnsembleConfig = {
+  enabled: false,
+  strategy: "majority",
+  additionalBackends: [],
+};
+
+export const ENSEMBLE_STRATEGY_LABELS: Record<EnsembleStrategy, string> = {
+  majority: "Majority vote",
+  meanProbability: "Mean probability",
+  maskUnion: "Mask union",
+  maskIntersection: "Mask intersection",
+};
+
+export interface CombinedVerdict {
+  report: DiagnosisReport;
+  disagreement: boolean;
+  // Set for mask strategies
+  mask?: { uri: string; boundingBoxes: BoundingBox[] } | null;
+}
+
+function hasVerdict(opinion: ModelOpinion): opinion is ModelOpinion & {
+  report: DiagnosisReport;
+} {
+  return opinion.status !== "error" && !!opinion.report;
+}
+
+/**
+ * P(pneumothorax) of one opinion, or null when it cannot be read
+ * A stated confidence belongs to the verdict, so a confident negative is a
+ * low probability (parseDiagnosis converts it). Without a verdict there is
+ * nothing to anchor the number to.
+ */
+function pneumothoraxProbability(report: DiagnosisReport): number | null {
+  if (report.verdict === "unparseable") return null;
+  return report.probability;
+}
+
+function majorityVerdict(verdicts: DiagnosisVerdict[]): DiagnosisVerdict {
+  const positive = verdicts.filter((v) => v === "positive").length;
+  const negative = verdicts.filter((v) => v === "negative").length;
+  if (positive === negative) return "unparseable";
+  return positive > negative ? "positive" : "negative";
+}
+
+function mostCommonSide(opinions: ModelOpinion[]): DiagnosisSide | null {
+  const counts = new Map<DiagnosisSide, number>();
+  for (const opinion of opinions) {
+    const side = opinion.report?.side;
+    if (side) counts.set(side, (counts.get(side) ?? 0) + 1);
+  }
+  let best: DiagnosisSide | null = null;
+  for (const [side, count] of counts) {
+    if (!best || count > counts.get(best)!) best = side;
+  }
+  return best;
+}
+
+/**
+ * Pixel-wise union (max) or intersection (min) of binarized masks
+ * decodeMask scales every mask to the same analysis size
+ */
+export function combineMaskPixels(
+  masks: MaskPixels[],
+  mode: "union" | "intersection",
+): MaskPixels {
+  const { width, height } = masks[0];
+  const intensity = new Uint8Array(width * height);
+
+  for (let i = 0; i < intensity.length; i++) {
+    let set = mode === "intersection";
+    for (const mask of masks) {
+      const on = mask.intensity[i] >= MASK_THRESHOLD;
+      set = mode === "union" ? set || on : set && on;
+    }
+    intensity[i] = set ? 255 : 0;
+  }
+
+  return { width, height, intensity };
+}
+
+/**
+ * Gray RGBA image of a mask, resampled to the given width / height ratio
+ * decodeMask squares every mask; this restores the film's proportions
+ */
+function maskToRaster(mask: MaskPixels, aspectRatio: number): RasterImage {
+  const width =
+    aspectRatio >= 1 ? mask.width : Math.round(mask.width * aspectRatio);
+  const height =
+    aspectRatio >= 1 ? Math.round(mask.height / aspectRatio) : mask.height;
+  const data = new Uint8ClampedArray(width * height * 4);
+
+  for (let y = 0; y < height; y++) {
+    const sourceRow = Math.floor((y * mask.height) / height) * mask.width;
+    for (let x = 0; x < width; x++) {
+      const value =
+        mask.intensity[sourceRow + Math.floor((x * mask.width) / width)];
+      const o = (y * width + x) * 4;
+      data.fill(value, o, o + 3);
+      data[o + 3] = 255;
+    }
+  }
+
+  return { width, height, data };
+}
+
+async function combineMasks(
+  opinions: ModelOpinion[],
+  mode: "union" | "intersection",
+  minRegionArea: number,
+  aspectRatio: number,
+  signal?: AbortSignal,
+): Promise<CombinedVerdict["mask"]> {
+  const maskUris = opinions
+    .map((opinion) => opinion.apiResponse?.maskImage)
+    .filter((uri): uri is string => !!uri);
+  if (!maskUris.length) return null;
+
+  const masks = await Promise.all(
+    maskUris.map((uri) => decodeMask(uri, signal)),
+  );
+  let combined = combineMaskPixels(masks, mode);
+  // A model without a mask counts as finding nothing, which no pixel survives
+  if (mode === "intersection" && maskUris.length < opinions.length) {
+    combined = {
+      ...combined,
+      intensity: new Uint8Array(combined.intensity.length),
+    };
+  }
+  const uri = await saveRaster(
+    maskToRaster(combined, aspectRatio),
+    ENSEMBLE_DIRECTORY,
+  );
+
+  const boundingBoxes = regionsToBoundingBoxes(
+    labelConnectedComponents(combined),
+    combined.width,
+    combined.height,
+    minRegionArea,
+  );
+  return { uri, boundingBoxes };
+}
+
+/**
+ * Combine the verdicts of the models that answered
+ * Ties and missing probabilities resolve to an inconclusive verdict rather
+ * than favouring either model.
+ */
+export async function combineOpinions(
+  opinions: ModelOpinion[],
+  strategy: EnsembleStrategy,
+  options: {
+    minRegionArea?: number;
+    signal?: AbortSignal;
+    aspectRatio?: number; // width / height of the film the masks cover
+  } = {},
+): Promise<CombinedVerdict> {
+  const answered = opinions.filter(hasVerdict);
+  const verdicts = answered
+    .map((opinion) => opinion.report.verdict)
+    .filter((verdict) => verdict !== "unparseable");
+  const probabilities = answered
+    .map((opinion) => pneumothoraxProbability(opinion.report))
+    .filter((p): p is number => p !== null);
+  const meanProbability = probabilities.length
+    ? probabilities.reduce((sum, p) => sum + p, 0) / probabilities.length
+    : null;
+
+  let verdict: DiagnosisVerdict;
+  let mask: CombinedVerdict["mask"];
+
+  switch (strategy) {
+    case "meanProbability":
+      verdict =
+        meanProbability === null
+          ? majorityVerdict(verdicts)
+          : meanProbability >= 0.5
+            ? "positive"
+            : "negative";
+      break;
+    case "maskUnion":
+    case "maskIntersection":
+      mask = await combineMasks(
+        answered,
+        strategy === "maskUnion" ? "union" : "intersection",
+        options.minRegionArea ?? DEFAULT_MIN_REGION_AREA,
+        options.aspectRatio ?? 1,
+        options.signal,
+      );
+      // Without any mask, fall back to the models' own verdicts
+      verdict = mask
+        ? mask.boundingBoxes.length > 0
+          ? "positive"
+          : "negative"
+        : majorityVerdict(verdicts);
+      break;
+    case "majority":
+    default:
+      verdict = majorityVerdict(verdicts);
+  }
+
+  const label = ENSEMBLE_STRATEGY_LABELS[strategy];
+  const lines = answered.map((opinion) => {
+    const probability = pneumothoraxProbability(opinion.report);
+    return `- ${opinion.label}: ${opinion.report.verdict}${
+      probability !== null
+        ? ` (pneumothorax probability ${(probability * 100).toFixed(1)}%)`
+        : ""
+    }`;
+  });
+
+  return {
+    report: {
+      verdict,
+      probability: meanProbability,
+      side: verdict === "positive" ? mostCommonSide(answered) : null,
+      notes: [],
+      rawMarkdown: `## Ensemble (${label})\n\n${lines.join("\n")}`,
+    },
+    disagreement: new Set(verdicts).size > 1,
+    mask,
+  };
+}
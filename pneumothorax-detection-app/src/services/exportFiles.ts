@@ -0,0 +1,73 @@
+import * as FileSystem from "expo-file-system/legacy";
+import * as Sharing from "expo-sharing";
+import { Platform } from "react-native";
+import { bytesToBase64 } from "../utils";
+
+const isWeb = Platform.OS === "web";
+
+const EXPORT_DIRECTORY = `${FileSystem.cacheDirectory}exports/`;
+
+/**
+ * File produced by an export, ready to be shared
+ */
+export interface ExportFile {
+  uri: string; // file URI on native, object URL on web
+  fileName: string;
+  mimeType: string;
+}
+
+/**
+ * Write export contents to the cache (native) or an object URL (web)
+ */
+export async function saveExportFile(
+  contents: Uint8Array | string,
+  fileName: string,
+  mimeType: string,
+): Promise<ExportFile> {
+  if (isWeb) {
+    const blob = new Blob([contents as BlobPart], { type: mimeType });
+    return { uri: URL.createObjectURL(blob), fileName, mimeType };
+  }
+
+  await FileSystem.makeDirectoryAsync(EXPORT_DIRECTORY, {
+    intermediates: true,
+  });
+  const uri = `${EXPORT_DIRECTORY}${fileName}`;
+  if (typeof contents === "string") {
+    await FileSystem.writeAsStringAsync(uri, contents);
+  } else {
+    await FileSystem.writeAsStringAsync(uri, bytesToBase64(contents), {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+  }
+  return { uri, fileName, mimeType };
+}
+
+/**
+ * Hand exported files to the system share sheet, or download them on web
+ */
+export async function shareExportFiles(
+  files: ExportFile[],
+  options: { dialogTitle: string; UTI?: string },
+): Promise<void> {
+  if (isWeb) {
+    for (const file of files) {
+      const link = document.createElement("a");
+      link.href = file.uri;
+      link.download = file.fileName;
+      link.click();
+    }
+    return;
+  }
+
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error("Sharing is not available on this device");
+  }
+  for (const file of files) {
+    await Sharing.shareAsync(file.uri, {
+      mimeType: file.mimeType,
+      UTI: options.UTI,
+      dialogTitle: options.dialogTitle,
+    });
+  }
+}
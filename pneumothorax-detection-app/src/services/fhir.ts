@@ -0,0 +1,311 @@
+import * as Crypto from "expo-crypto";
+import {
+  DetectionBackend,
+  DetectionResult,
+  DiagnosisSide,
+  PneumoAPIResponse,
+} from "../types";
+import { bytesToBase64, uriToDataURL } from "../utils";
+import { ExportFile, saveExportFile } from "./exportFiles";
+
+/**
+ * Minimal FHIR R4 shapes for the resources this app emits
+ * Only the elements we populate are declared
+ */
+export interface FhirCoding {
+  system?: string;
+  code?: string;
+  display?: string;
+}
+
+export interface FhirCodeableConcept {
+  coding?: FhirCoding[];
+  text?: string;
+}
+
+export interface FhirReference {
+  reference?: string;
+  identifier?: { system?: string; value: string };
+  display?: string;
+}
+
+export interface FhirAttachment {
+  contentType?: string;
+  data?: string; // base64
+  url?: string;
+  title?: string;
+  width?: number;
+  height?: number;
+}
+
+export interface FhirResource {
+  resourceType: string;
+  [element: string]: unknown;
+}
+
+export interface FhirBundleEntry {
+  fullUrl: string;
+  resource: FhirResource;
+  request: { method: "POST"; url: string };
+}
+
+export interface FhirBundle {
+  resourceType: "Bundle";
+  type: "transaction";
+  timestamp: string;
+  entry: FhirBundleEntry[];
+}
+
+const ANALYSIS_IDENTIFIER_SYSTEM = "urn:pneumothorax-app:analysis";
+const DICOM_UID_SYSTEM = "urn:dicom:uid";
+const LOINC = "http://loinc.org";
+const SNOMED = "http://snomed.info/sct";
+const UCUM = "http://unitsofmeasure.org";
+
+// SNOMED CT codes for the finding and its laterality
+const PNEUMOTHORAX: FhirCoding = {
+  system: SNOMED,
+  code: "36118008",
+  display: "Pneumothorax",
+};
+const SIDE_CODES: Record<DiagnosisSide, FhirCoding> = {
+  left: { system: SNOMED, code: "7771000", display: "Left" },
+  right: { system: SNOMED, code: "24028007", display: "Right" },
+  bilateral: { system: SNOMED, code: "51440002", display: "Bilateral" },
+};
+
+function entry(resource: FhirResource): FhirBundleEntry {
+  return {
+    fullUrl: `urn:uuid:${Crypto.randomUUID()}`,
+    resource,
+    request: { method: "POST", url: resource.resourceType },
+  };
+}
+
+/**
+ * Embed an image as base64 so the bundle does not depend on
+ * short-lived backend URLs
+ */
+async function toAttachment(
+  uri: string,
+  title: string,
+): Promise<FhirAttachment> {
+  try {
+    const dataUrl = await uriToDataURL(uri);
+    const [header, data] = dataUrl.split(",");
+    const contentType = header.match(/^data:(.*?);/)?.[1] ?? "image/png";
+    return { contentType, data, title };
+  } catch (error) {
+    // Fall back to a link rather than dropping the image
+    console.warn(`Failed to embed ${title}:`, error);
+    return { contentType: "image/png", url: uri, title };
+  }
+}
+
+function subjectReference(result: DetectionResult): FhirReference | undefined {
+  const patientId = result.dicom?.patientId;
+  if (!patientId) return undefined;
+  return {
+    identifier: { value: patientId },
+    display: result.dicom?.patientName?.replace(/\^/g, " ").trim(),
+  };
+}
+
+/**
+ * Build a FHIR R4 transaction Bundle describing one analysis
+ * Contains a DiagnosticReport, an Observation for the probability, a
+ * Media per result image and a Device for the model endpoint; all
+ * cross-references use the entries' urn:uuid fullUrls
+ */
+export async function buildFhirBundle(
+  result: DetectionResult,
+  apiResponse: PneumoAPIResponse,
+  backend: Pick<DetectionBackend, "label" | "endpoint" | "type">,
+): Promise<FhirBundle> {
+  const issued = new Date(result.timestamp).toISOString();
+  const subject = subjectReference(result);
+  const report = result.report;
+
+  // Prefer the recorded model over the currently selected backend
+  const model = result.provenance?.models[0];
+  const device = entry({
+    resourceType: "Device",
+    status: "active",
+    deviceName: [
+      {
+        name: model?.modelName ?? model?.label ?? backend.label,
+        type: "model-name",
+      },
+    ],
+    type: { text: "AI pneumothorax detection model" },
+    ...(model?.modelVersion
+      ? { version: [{ value: model.modelVersion }] }
+      : {}),
+    url: model?.endpoint ?? backend.endpoint,
+    note: [{ text: `Backend type: ${model?.backendType ?? backend.type}` }],
+  });
+  const deviceReference = { reference: device.fullUrl };
+
+  const observation = entry({
+    resourceType: "Observation",
+    status: "preliminary",
+    category: [
+      {
+        coding: [
+          {
+            system:
+              "http://terminology.hl7.org/CodeSystem/observation-category",
+            code: "imaging",
+          },
+        ],
+      },
+    ],
+    code: {
+      coding: [PNEUMOTHORAX],
+      text: "Pneumothorax probability",
+    },
+    ...(subject ? { subject } : {}),
+    issued,
+    device: deviceReference,
+    method: { text: "AI image segmentation" },
+    ...(report?.probability != null
+      ? {
+          valueQuantity: {
+            value: Math.round(report.probability * 1000) / 10,
+            unit: "%",
+            system: UCUM,
+            code: "%",
+          },
+        }
+      : {
+          dataAbsentReason: {
+            coding: [
+              {
+                system:
+                  "http://terminology.hl7.org/CodeSystem/data-absent-reason",
+                code: "unknown",
+              },
+            ],
+          },
+        }),
+    ...(report?.side
+      ? { bodySite: { coding: [SIDE_CODES[report.side]] } }
+      : {}),
+  });
+
+  const images = [
+    { uri: apiResponse.overlayImage, title: "Overlay" },
+    { uri: apiResponse.maskImage, title: "Segmentation mask" },
+  ].filter((image) => image.uri);
+
+  const media = await Promise.all(
+    images.map(async (image) =>
+      entry({
+        resourceType: "Media",
+        status: "completed",
+        type: {
+          coding: [
+            {
+              system: "http://terminology.hl7.org/CodeSystem/media-type",
+              code: "image",
+            },
+          ],
+        },
+        ...(subject ? { subject } : {}),
+        issued,
+        device: deviceReference,
+        content: await toAttachment(image.uri, image.title),
+      }),
+    ),
+  );
+
+  const conclusion =
+    report?.verdict === "positive"
+      ? "Pneumothorax detected"
+      : report?.verdict === "negative"
+        ? "No pneumothorax detected"
+        : "Inconclusive";
+
+  const diagnosticReport = entry({
+    resourceType: "DiagnosticReport",
+    identifier: [{ system: ANALYSIS_IDENTIFIER_SYSTEM, value: result.id }],
+    status: "preliminary",
+    category: [
+      {
+        coding: [
+          {
+            system: "http://terminology.hl7.org/CodeSystem/v2-0074",
+            code: "RAD",
+          },
+        ],
+      },
+    ],
+    code: {
+      coding: [
+        { system: LOINC, code: "18748-4", display: "Diagnostic imaging study" },
+      ],
+      text: "AI pneumothorax detection",
+    },
+    ...(subject ? { subject } : {}),
+    effectiveDateTime: issued,
+    issued,
+    // No performer: R4 only allows people and organizations there. The
+    // model is referenced as the device of the Observation and Media.
+    result: [{ reference: observation.fullUrl }],
+    // The study UID lets the EHR link the report to the source images
+    ...(result.dicom?.studyInstanceUid
+      ? {
+          extension: [
+            {
+              url: "http://hl7.org/fhir/StructureDefinition/workflow-supportingInfo",
+              valueReference: {
+                identifier: {
+                  system: DICOM_UID_SYSTEM,
+                  value: `urn:oid:${result.dicom.studyInstanceUid}`,
+                },
+                display: "Source imaging study",
+              },
+            },
+          ],
+        }
+      : {}),
+    media: media.map((item) => ({
+      comment: (item.resource.content as FhirAttachment).title,
+      link: { reference: item.fullUrl },
+    })),
+    conclusion,
+    ...(report?.verdict === "positive"
+      ? { conclusionCode: [{ coding: [PNEUMOTHORAX] }] }
+      : {}),
+    presentedForm: [
+      {
+        contentType: "text/markdown",
+        data: bytesToBase64(new TextEncoder().encode(apiResponse.diagnosis)),
+        title: "Model diagnosis",
+      },
+    ],
+  });
+
+  return {
+    resourceType: "Bundle",
+    type: "transaction",
+    timestamp: new Date().toISOString(),
+    entry: [diagnosticReport, observation, ...media, device],
+  };
+}
+
+/**
+ * Serialize an analysis as a FHIR Bundle JSON file ready to share
+ */
+export async function exportFhirBundle(
+  result: DetectionResult,
+  apiResponse: PneumoAPIResponse,
+  backend: Pick<DetectionBackend, "label" | "endpoint" | "type">,
+): Promise<ExportFile> {
+  const bundle = await buildFhirBundle(result, apiResponse, backend);
+  return saveExportFile(
+    JSON.stringify(bundle, null, 2),
+    `${result.id}-fhir.json`,
+    "application/fhir+json",
+  );
+}
@@ -0,0 +1,345 @@
+import { createAbortError } from "../utils";
+import { HttpError, createNetworkError, createTimeoutError } from "./http";
+import { AnalysisError } from "./analysisErrors";
+
+/**
+ * Incremental reader for Gradio's server-sent event streams
+ * Handles both the `/gradio_api/call/{fn}/{event_id}` events
+ * (generating / complete / error / heartbeat) and the queue protocol
+ * payloads (`msg: "estimation" | "progress" | "process_completed" ...`)
+ */
+
+export interface SseMessage {
+  event: string;
+  data: string;
+}
+
+export type GradioEvent =
+  | {
+      type: "queued";
+      position: number | null;
+      queueSize: number | null;
+      eta: number | null; // seconds
+    }
+  | { type: "processing"; progress: number | null; message?: string }
+  | { type: "heartbeat" }
+  | { type: "complete"; data: unknown[] }
+  | { type: "error"; message: string; malformed?: boolean };
+
+export interface StreamOptions {
+  onEvent?: (event: GradioEvent) => void;
+  signal?: AbortSignal;
+  idleTimeoutMs?: number;
+}
+
+const DEFAULT_ERROR_MESSAGE = "The model server reported an error";
+
+/**
+ * Line-oriented SSE parser that tolerates chunks split at any byte
+ */
+export class SseParser {
+  private buffer = "";
+  private eventName = "";
+  private dataLines: string[] = [];
+
+  push(chunk: string): SseMessage[] {
+    this.buffer += chunk;
+    const messages: SseMessage[] = [];
+
+    let newline = this.buffer.search(/\r?\n/);
+    while (newline !== -1) {
+      const line = this.buffer.slice(0, newline);
+      const skip = this.buffer[newline] === "\r" ? 2 : 1;
+      this.buffer = this.buffer.slice(newline + skip);
+
+      const message = this.processLine(line);
+      if (message) messages.push(message);
+
+      newline = this.buffer.search(/\r?\n/);
+    }
+
+    return messages;
+  }
+
+  /**
+   * Dispatch whatever is left once the stream has closed
+   */
+  flush(): SseMessage[] {
+    const messages: SseMessage[] = [];
+    if (this.buffer) {
+      const message = this.processLine(this.buffer);
+      this.buffer = "";
+      if (message) messages.push(message);
+    }
+    const pending = this.processLine("");
+    if (pending) messages.push(pending);
+    return messages;
+  }
+
+  private processLine(line: string): SseMessage | null {
+    if (line === "") {
+      if (!this.eventName && this.dataLines.length === 0) return null;
+      const message = {
+        event: this.eventName || "message",
+        data: this.dataLines.join("\n"),
+      };
+      this.eventName = "";
+      this.dataLines = [];
+      return message;
+    }
+
+    // Comment lines are used as keep-alives
+    if (line.startsWith(":")) return null;
+
+    const colon = line.indexOf(":");
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? "" : line.slice(colon + 1);
+    if (value.startsWith(" ")) value = value.slice(1);
+
+    if (field === "event") {
+      this.eventName = value;
+    } else if (field === "data") {
+      this.dataLines.push(value);
+    }
+    return null;
+  }
+}
+
+function parseJson(data: string): any {
+  try {
+    return JSON.parse(data);
+  } catch {
+    return undefined;
+  }
+}
+
+function isText(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+/**
+ * User-facing text of an error payload
+ * Anything without a message of its own, such as `null` or
+ * `{ error: null }`, gets the default message
+ */
+function errorMessageFrom(payload: any): string {
+  if (isText(payload)) return payload;
+  if (payload && typeof payload === "object") {
+    if (isText(payload.error)) return payload.error;
+    if (isText(payload.message)) return payload.message;
+  }
+  return DEFAULT_ERROR_MESSAGE;
+}
+
+/**
+ * Map a queue protocol payload (`{ msg: ... }`) to a typed event
+ */
+function fromQueueMessage(payload: any): GradioEvent | null {
+  switch (payload.msg) {
+    case "estimation":
+      return {
+        type: "queued",
+        position: typeof payload.rank === "number" ? payload.rank + 1 : null,
+        queueSize:
+          typeof payload.queue_size === "number" ? payload.queue_size : null,
+        eta: typeof payload.rank_eta === "number" ? payload.rank_eta : null,
+      };
+    case "process_starts":
+    case "process_generating":
+      return { type: "processing", progress: null };
+    case "progress": {
+      const step = Array.isArray(payload.progress_data)
+        ? payload.progress_data[0]
+        : null;
+      if (!step) return { type: "processing", progress: null };
+      const progress =
+        typeof step.progress === "number"
+          ? step.progress
+          : typeof step.index === "number" && step.length
+            ? step.index / step.length
+            : null;
+      return {
+        type: "processing",
+        progress,
+        message: typeof step.desc === "string" ? step.desc : undefined,
+      };
+    }
+    case "process_completed":
+      if (payload.success === false) {
+        return { type: "error", message: errorMessageFrom(payload.output) };
+      }
+      return { type: "complete", data: payload.output?.data ?? [] };
+    case "heartbeat":
+      return { type: "heartbeat" };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Map a raw SSE message to a typed Gradio event, or null to ignore it
+ */
+export function toGradioEvent(message: SseMessage): GradioEvent | null {
+  const payload = parseJson(message.data);
+
+  switch (message.event) {
+    case "heartbeat":
+      return { type: "heartbeat" };
+    case "generating":
+      return { type: "processing", progress: null };
+    case "error":
+      // Plain text only when the data is not JSON; a queue payload carries
+      // its message in `output`
+      return {
+        type: "error",
+        message: errorMessageFrom(
+          payload === undefined
+            ? message.data
+            : payload?.msg
+              ? payload.output
+              : payload,
+        ),
+      };
+    case "complete":
+      if (Array.isArray(payload)) return { type: "complete", data: payload };
+      if (payload && typeof payload === "object") {
+        return fromQueueMessage({ msg: "process_completed", ...payload });
+      }
+      return {
+        type: "error",
+        message: "Malformed result payload",
+        malformed: true,
+      };
+    default:
+      if (payload && typeof payload === "object" && "msg" in payload) {
+        return fromQueueMessage(payload);
+      }
+      if (Array.isArray(payload)) return { type: "complete", data: payload };
+      return null;
+  }
+}
+
+/**
+ * Stream a Gradio event URL, reporting events as they arrive
+ * Resolves with the output data on completion and rejects with the
+ * server's own message on an error event
+ *
+ * Uses XMLHttpRequest because React Native's fetch cannot read a
+ * response body incrementally.
+ */
+export function streamGradioEvents(
+  url: string,
+  { onEvent, signal, idleTimeoutMs }: StreamOptions = {},
+): Promise<unknown[]> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    const parser = new SseParser();
+    let cursor = 0;
+    let settled = false;
+    let idleTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const onAbort = () => {
+      settle(() => reject(createAbortError()));
+      xhr.abort();
+    };
+    signal?.addEventListener("abort", onAbort);
+
+    // Heartbeats count as activity, so only a silent stream times out
+    const resetIdleTimer = () => {
+      if (!idleTimeoutMs) return;
+      if (idleTimer) clearTimeout(idleTimer);
+      idleTimer = setTimeout(() => {
+        settle(() => reject(createTimeoutError(idleTimeoutMs)));
+        xhr.abort();
+      }, idleTimeoutMs);
+    };
+
+    const settle = (outcome: () => void) => {
+      if (settled) return;
+      settled = true;
+      if (idleTimer) clearTimeout(idleTimer);
+      signal?.removeEventListener("abort", onAbort);
+      outcome();
+    };
+
+    const handleMessages = (messages: SseMessage[]) => {
+      for (const message of messages) {
+        if (settled) return;
+        const event = toGradioEvent(message);
+        if (!event) continue;
+        onEvent?.(event);
+
+        if (event.type === "complete") {
+          settle(() => resolve(event.data));
+          xhr.abort();
+        } else if (event.type === "error") {
+          settle(() =>
+            reject(
+              event.malformed
+                ? new AnalysisError(
+                    "parse_error",
+                    "The server response could not be read.",
+                    event.message,
+                  )
+                : new AnalysisError(
+                    "model_error",
+                    "The model reported an error.",
+                    event.message,
+                  ),
+            ),
+          );
+          xhr.abort();
+        }
+      }
+    };
+
+    const consume = () => {
+      if (xhr.status !== 200) return;
+      resetIdleTimer();
+      const text = xhr.responseText || "";
+      const chunk = text.slice(cursor);
+      cursor = text.length;
+      if (chunk) handleMessages(parser.push(chunk));
+    };
+
+    xhr.onprogress = consume;
+
+    xhr.onload = () => {
+      if (xhr.status !== 200) {
+        settle(() =>
+          reject(
+            new HttpError("Result fetch", xhr.status, xhr.responseText || ""),
+          ),
+        );
+        return;
+      }
+      consume();
+      handleMessages(parser.flush());
+      settle(() =>
+        reject(
+          new AnalysisError(
+            "parse_error",
+            "The server response could not be read.",
+            "Event stream ended without a result",
+          ),
+        ),
+      );
+    };
+
+    xhr.onerror = () => {
+      settle(() =>
+        reject(createNetworkError("connection lost while streaming result")),
+      );
+    };
+
+    xhr.open("GET", url);
+    xhr.setRequestHeader("Accept", "text/event-stream");
+    xhr.send();
+    resetIdleTimer();
+  });
+}
@@ -0,0 +1,18 @@
+/**
+ * Position after the last item of a page
+ * History is ordered by timestamp, with the id breaking ties, so a page
+ * boundary stays put when newer items are added in front of it
+ */
+export interface PageCursor {
+  timestamp: string;
+  id: string;
+}
+
+export function encodeCursor(cursor: PageCursor): string {
+  return JSON.stringify([cursor.timestamp, cursor.id]);
+}
+
+export function decodeCursor(cursor: string): PageCursor {
+  const [timestamp, id] = JSON.parse(cursor) as [string, string];
+  return { timestamp, id };
+}
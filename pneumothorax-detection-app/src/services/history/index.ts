@@ -0,0 +1,53 @@
+// History storage barrel export
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { HistoryItem, HistoryRepository } from "../../types";
+import { createHistoryRepository } from "./repository";
+
+// Where history lived before it moved to a database
+const LEGACY_HISTORY_STORAGE_KEY = "@pneumothorax_app_history";
+
+let repositoryPromise: Promise<HistoryRepository> | null = null;
+
+/**
+ * Copy history saved by older versions as one AsyncStorage blob
+ * Inserts skip ids already present, so an import interrupted before the
+ * blob was removed is safe to repeat.
+ */
+async function importLegacyHistory(
+  repository: HistoryRepository,
+): Promise<void> {
+  const stored = await AsyncStorage.getItem(LEGACY_HISTORY_STORAGE_KEY);
+  if (!stored) return;
+
+  let items: HistoryItem[];
+  try {
+    items = JSON.parse(stored) as HistoryItem[];
+  } catch (error) {
+    // Left in place so nothing is lost; there is nothing to import from it
+    console.warn("Legacy history is unreadable:", error);
+    return;
+  }
+
+  if (!Array.isArray(items)) items = [];
+  await repository.insert(items);
+  await AsyncStorage.removeItem(LEGACY_HISTORY_STORAGE_KEY);
+  console.log(`Imported ${items.length} history item(s) into the database`);
+}
+
+/**
+ * The history repository, opened and migrated on first use
+ * SQLite on native, IndexedDB on web
+ */
+export function openHistoryRepository(): Promise<HistoryRepository> {
+  if (!repositoryPromise) {
+    repositoryPromise = createHistoryRepository().then(async (repository) => {
+      await importLegacyHistory(repository);
+      return repository;
+    });
+    // Allow a later call to retry after a failed open
+    repositoryPromise.catch(() => {
+      repositoryPromise = null;
+    });
+  }
+  return repositoryPromise;
+}
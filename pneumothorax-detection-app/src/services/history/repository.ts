@@ -0,0 +1,178 @@
+import * as SQLite from "expo-sqlite";
+import { HistoryItem, HistoryRepository, StageTimings } from "../../types";
+import { decodeCursor, encodeCursor } from "./cursor";
+
+const DATABASE_NAME = "history.db";
+
+/**
+ * Schema changes, applied in order
+ * PRAGMA user_version records how many have run. Never edit a shipped
+ * entry; append a new one instead.
+ */
+const MIGRATIONS: string[] = [
+  `CREATE TABLE history (
+    id TEXT PRIMARY KEY NOT NULL,
+    timestamp TEXT NOT NULL,
+    content_hash TEXT,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX history_by_timestamp ON history (timestamp DESC, id DESC);
+  CREATE INDEX history_by_content_hash ON history (content_hash);`,
+];
+
+interface HistoryRow {
+  id: string;
+  timestamp: string;
+  data: string;
+}
+
+async function migrate(db: SQLite.SQLiteDatabase): Promise<void> {
+  const row = await db.getFirstAsync<{ user_version: number }>(
+    "PRAGMA user_version",
+  );
+  let version = row?.user_version ?? 0;
+
+  while (version < MIGRATIONS.length) {
+    const next = version + 1;
+    // The version bump commits together with the schema change
+    await db.withExclusiveTransactionAsync(async (txn) => {
+      await txn.execAsync(MIGRATIONS[version]);
+      await txn.execAsync(`PRAGMA user_version = ${next}`);
+    });
+    version = next;
+  }
+}
+
+/**
+ * One bad row should cost one entry, not the whole history
+ */
+function parseRow(row: HistoryRow): HistoryItem | null {
+  try {
+    return JSON.parse(row.data) as HistoryItem;
+  } catch (error) {
+    console.warn(`Skipping unreadable history entry ${row.id}:`, error);
+    return null;
+  }
+}
+
+function toParams(item: HistoryItem): SQLite.SQLiteBindParams {
+  return {
+    $id: item.id,
+    $timestamp: item.timestamp,
+    $contentHash: item.preprocessed?.contentHash ?? null,
+    $data: JSON.stringify(item),
+  };
+}
+
+/**
+ * History stored in SQLite, one row per analysis (native only)
+ */
+export async function createHistoryRepository(): Promise<HistoryRepository> {
+  const db = await SQLite.openDatabaseAsync(DATABASE_NAME);
+  // Writes go to a separate log, so a crash mid-write cannot corrupt rows
+  await db.execAsync("PRAGMA journal_mode = WAL");
+  await migrate(db);
+
+  return {
+    getPage: async (limit, cursor) => {
+      const after = cursor ? decodeCursor(cursor) : null;
+      // One extra row tells whether another page follows
+      const rows = after
+        ? await db.getAllAsync<HistoryRow>(
+            `SELECT id, timestamp, data FROM history
+             WHERE (timestamp, id) < (?, ?)
+             ORDER BY timestamp DESC, id DESC LIMIT ?`,
+            [after.timestamp, after.id, limit + 1],
+          )
+        : await db.getAllAsync<HistoryRow>(
+            `SELECT id, timestamp, data FROM history
+             ORDER BY timestamp DESC, id DESC LIMIT ?`,
+            [limit + 1],
+          );
+
+      const pageRows = rows.slice(0, limit);
+      const last = pageRows[pageRows.length - 1];
+      return {
+        items: pageRows
+          .map(parseRow)
+          .filter((item): item is HistoryItem => !!item),
+        nextCursor:
+          rows.length > limit
+            ? encodeCursor({ timestamp: last.timestamp, id: last.id })
+            : null,
+      };
+    },
+
+    getItem: async (id) => {
+      const row = await db.getFirstAsync<HistoryRow>(
+        "SELECT id, timestamp, data FROM history WHERE id = ?",
+        [id],
+      );
+      return row ? parseRow(row) : null;
+    },
+
+    count: async () => {
+      const row = await db.getFirstAsync<{ total: number }>(
+        "SELECT COUNT(*) AS total FROM history",
+      );
+      return row?.total ?? 0;
+    },
+
+    listIds: async () => {
+      const rows = await db.getAllAsync<{ id: string }>(
+        "SELECT id FROM history",
+      );
+      return rows.map((row) => row.id);
+    },
+
+    duplicateHashes: async () => {
+      const rows = await db.getAllAsync<{ content_hash: string }>(
+        `SELECT content_hash FROM history
+         WHERE content_hash IS NOT NULL
+         GROUP BY content_hash HAVING COUNT(*) > 1`,
+      );
+      return rows.map((row) => row.content_hash);
+    },
+
+    listTimings: async () => {
+      const rows = await db.getAllAsync<{ timings: string }>(
+        `SELECT json_extract(data, '$.timings') AS timings FROM history
+         WHERE json_extract(data, '$.timings') IS NOT NULL`,
+      );
+      return rows.map((row) => JSON.parse(row.timings) as StageTimings);
+    },
+
+    insert: async (items) => {
+      await db.withExclusiveTransactionAsync(async (txn) => {
+        for (const item of items) {
+          await txn.runAsync(
+            `INSERT OR IGNORE INTO history (id, timestamp, content_hash, data)
+             VALUES ($id, $timestamp, $contentHash, $data)`,
+            toParams(item),
+          );
+        }
+      });
+    },
+
+    update: async (items) => {
+      await db.withExclusiveTransactionAsync(async (txn) => {
+        for (const item of items) {
+          await txn.runAsync(
+            `UPDATE history
+             SET timestamp = $timestamp, content_hash = $contentHash, data = $data
+             WHERE id = $id`,
+            toParams(item),
+          );
+        }
+      });
+    },
+
+    remove: async (id) => {
+      await db.runAsync("DELETE FROM history WHERE id = ?", [id]);
+    },
+
+    clear: async () => {
+      await db.runAsync("DELETE FROM history");
+    },
+  };
+}
@@ -0,0 +1,183 @@
+import { HistoryItem, HistoryRepository, StageTimings } from "../../types";
+import { decodeCursor, encodeCursor } from "./cursor";
+
+const DB_NAME = "pneumothorax-history";
+const STORE_NAME = "history";
+const BY_TIMESTAMP = "byTimestamp";
+const BY_CONTENT_HASH = "byContentHash";
+
+/**
+ * Schema changes, applied in order during an IndexedDB version upgrade
+ * The database version is the number of migrations. Never edit a shipped
+ * entry; append a new one instead.
+ */
+const MIGRATIONS: ((db: IDBDatabase, transaction: IDBTransaction) => void)[] = [
+  (db) => {
+    const store = db.createObjectStore(STORE_NAME, { keyPath: "id" });
+    store.createIndex(BY_TIMESTAMP, ["timestamp", "id"]);
+    // Items without a hash are left out of the index
+    store.createIndex(BY_CONTENT_HASH, "preprocessed.contentHash");
+  },
+];
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, MIGRATIONS.length);
+    request.onupgradeneeded = (event) => {
+      for (let v = event.oldVersion; v < MIGRATIONS.length; v++) {
+        MIGRATIONS[v](request.result, request.transaction!);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function toPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function completion(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Visit records through a cursor until visit returns false
+ */
+function iterate<C extends IDBCursor>(
+  request: IDBRequest<C | null>,
+  visit: (cursor: C) => boolean,
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor && visit(cursor)) {
+        cursor.continue();
+      } else {
+        resolve();
+      }
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * History stored in IndexedDB, one record per analysis (web only)
+ * Mirrors the SQLite repository used on native.
+ */
+export async function createHistoryRepository(): Promise<HistoryRepository> {
+  const db = await openDatabase();
+  const store = (mode: IDBTransactionMode) =>
+    db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+
+  return {
+    getPage: async (limit, cursor) => {
+      const after = cursor ? decodeCursor(cursor) : null;
+      const range = after
+        ? IDBKeyRange.upperBound([after.timestamp, after.id], true)
+        : null;
+
+      // One extra record tells whether another page follows
+      const items: HistoryItem[] = [];
+      await iterate(
+        store("readonly").index(BY_TIMESTAMP).openCursor(range, "prev"),
+        (c) => {
+          items.push(c.value as HistoryItem);
+          return items.length <= limit;
+        },
+      );
+
+      const page = items.slice(0, limit);
+      const last = page[page.length - 1];
+      return {
+        items: page,
+        nextCursor:
+          items.length > limit
+            ? encodeCursor({ timestamp: last.timestamp, id: last.id })
+            : null,
+      };
+    },
+
+    getItem: async (id) => {
+      const item = await toPromise(store("readonly").get(id));
+      return (item as HistoryItem | undefined) ?? null;
+    },
+
+    count: () => toPromise(store("readonly").count()),
+
+    listIds: async () => {
+      const keys = await toPromise(store("readonly").getAllKeys());
+      return keys.map(String);
+    },
+
+    duplicateHashes: async () => {
+      const counts = new Map<string, number>();
+      await iterate(
+        store("readonly").index(BY_CONTENT_HASH).openKeyCursor(),
+        (c) => {
+          const hash = String(c.key);
+          counts.set(hash, (counts.get(hash) ?? 0) + 1);
+          return true;
+        },
+      );
+      return [...counts].filter(([, n]) => n > 1).map(([hash]) => hash);
+    },
+
+    listTimings: async () => {
+      const timings: StageTimings[] = [];
+      await iterate(store("readonly").openCursor(), (c) => {
+        const item = c.value as HistoryItem;
+        if (item.timings) timings.push(item.timings);
+        return true;
+      });
+      return timings;
+    },
+
+    insert: async (items) => {
+      const transaction = db.transaction(STORE_NAME, "readwrite");
+      const objectStore = transaction.objectStore(STORE_NAME);
+      for (const item of items) {
+        const request = objectStore.add(item);
+        // An existing id is kept; don't let it abort the other inserts
+        request.onerror = (event) => {
+          if (request.error?.name === "ConstraintError") {
+            event.preventDefault();
+          }
+        };
+      }
+      await completion(transaction);
+    },
+
+    update: async (items) => {
+      const transaction = db.transaction(STORE_NAME, "readwrite");
+      const objectStore = transaction.objectStore(STORE_NAME);
+      // Like SQL UPDATE, a removed item is not brought back
+      for (const item of items) {
+        const existing = objectStore.getKey(item.id);
+        existing.onsuccess = () => {
+          if (existing.result !== undefined) objectStore.put(item);
+        };
+      }
+      await completion(transaction);
+    },
+
+    remove: async (id) => {
+      const transaction = db.transaction(STORE_NAME, "readwrite");
+      transaction.objectStore(STORE_NAME).delete(id);
+      await completion(transaction);
+    },
+
+    clear: async () => {
+      const transaction = db.transaction(STORE_NAME, "readwrite");
+      transaction.objectStore(STORE_NAME).clear();
+      await completion(transaction);
+    },
+  };
+}
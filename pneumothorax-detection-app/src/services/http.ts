@@ -0,0 +1,122 @@
+import { createAbortError } from "../utils";
+
+/**
+ * Non-2xx response from a detection endpoint
+ */
+export class HttpError extends Error {
+  status: number;
+  body: string;
+  retryAfterMs: number | null;
+
+  constructor(
+    label: string,
+    status: number,
+    body: string,
+    retryAfter?: string | null,
+  ) {
+    super(`${label} failed: ${status}${body ? ` - ${body}` : ""}`);
+    this.name = "HttpError";
+    this.status = status;
+    this.body = body;
+    this.retryAfterMs = parseRetryAfter(retryAfter);
+  }
+}
+
+function parseRetryAfter(value?: string | null): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+export function createTimeoutError(timeoutMs: number): Error {
+  const error = new Error(
+    `Request timed out after ${Math.round(timeoutMs / 1000)}s`,
+  );
+  error.name = "TimeoutError";
+  return error;
+}
+
+export function isTimeoutError(error: unknown): boolean {
+  return error instanceof Error && error.name === "TimeoutError";
+}
+
+/**
+ * Request that never got a response: offline, DNS failure, connection reset
+ * fetch reports these as a bare TypeError, which bugs in our code raise too
+ */
+export function createNetworkError(detail: string): Error {
+  const error = new Error(`Network request failed: ${detail}`);
+  error.name = "NetworkError";
+  return error;
+}
+
+export function isNetworkError(error: unknown): boolean {
+  return error instanceof Error && error.name === "NetworkError";
+}
+
+// fetch only rejects when no response arrived
+function toNetworkError(error: unknown): Error {
+  return createNetworkError(
+    error instanceof Error ? error.message : String(error),
+  );
+}
+
+/**
+ * fetch with a per-request timeout that also honours the caller's signal
+ * A timeout rejects with a TimeoutError, a caller abort with an AbortError
+ * and a failed connection with a NetworkError
+ */
+export async function fetchWithTimeout(
+  url: string,
+  init: RequestInit & { timeoutMs?: number } = {},
+): Promise<Response> {
+  const { timeoutMs, signal, ...rest } = init;
+  if (signal?.aborted) throw createAbortError();
+  if (!timeoutMs) {
+    return fetch(url, { ...rest, signal }).catch((error: unknown) => {
+      if (signal?.aborted) throw createAbortError();
+      throw toNetworkError(error);
+    });
+  }
+
+  const controller = new AbortController();
+  let timedOut = false;
+  const onAbort = () => controller.abort();
+  signal?.addEventListener("abort", onAbort);
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+
+  try {
+    return await fetch(url, { ...rest, signal: controller.signal });
+  } catch (error) {
+    if (timedOut) throw createTimeoutError(timeoutMs);
+    if (signal?.aborted) throw createAbortError();
+    throw toNetworkError(error);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+/**
+ * Throw an HttpError carrying the response body for non-2xx responses
+ */
+export async function ensureOk(
+  response: Response,
+  label: string,
+): Promise<Response> {
+  if (!response.ok) {
+    const body = await response.text().catch(() => "");
+    throw new HttpError(
+      label,
+      response.status,
+      body,
+      response.headers.get("Retry-After"),
+    );
+  }
+  return response;
+}
@@ -0,0 +1,189 @@
+import { QualityCheck, QualityReport, QualityVerdict } from "../types";
+import { loadRaster, RasterImage } from "./preprocessing";
+
+// Metrics are computed on a downscaled copy so they are comparable
+// across cameras and cheap enough to run on the preview screen
+const ANALYSIS_SIZE = 512;
+
+// Shorter side of the source image, in pixels
+const MIN_RESOLUTION_FAIL = 256;
+const MIN_RESOLUTION_WARN = 512;
+
+// Variance of the Laplacian at ANALYSIS_SIZE
+const SHARPNESS_FAIL = 15;
+const SHARPNESS_WARN = 50;
+
+// Luma at or above which a pixel counts as clipped highlight
+const GLARE_LUMA = 250;
+// Fraction of clipped pixels
+const GLARE_FAIL = 0.2;
+const GLARE_WARN = 0.05;
+
+// Mean luma bounds (0-255)
+const EXPOSURE_DARK_FAIL = 35;
+const EXPOSURE_DARK_WARN = 60;
+const EXPOSURE_BRIGHT_WARN = 200;
+const EXPOSURE_BRIGHT_FAIL = 225;
+
+const VERDICT_RANK: Record<QualityVerdict, number> = {
+  pass: 0,
+  warn: 1,
+  fail: 2,
+};
+
+function toLuma(raster: RasterImage): Float32Array {
+  const { data } = raster;
+  const luma = new Float32Array(raster.width * raster.height);
+  for (let i = 0; i < luma.length; i++) {
+    const o = i * 4;
+    luma[i] = 0.299 * data[o] + 0.587 * data[o + 1] + 0.114 * data[o + 2];
+  }
+  return luma;
+}
+
+/**
+ * Variance of the 4-neighbour Laplacian, a standard focus measure
+ * Blurry images have few edges and therefore a low variance
+ */
+export function laplacianVariance(
+  luma: Float32Array,
+  width: number,
+  height: number,
+): number {
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const laplacian =
+        luma[i - 1] +
+        luma[i + 1] +
+        luma[i - width] +
+        luma[i + width] -
+        4 * luma[i];
+      sum += laplacian;
+      sumSquares += laplacian * laplacian;
+      count++;
+    }
+  }
+
+  if (!count) return 0;
+  const mean = sum / count;
+  return sumSquares / count - mean * mean;
+}
+
+function checkResolution(width: number, height: number): QualityCheck {
+  const shorterSide = Math.min(width, height);
+  const verdict: QualityVerdict =
+    shorterSide < MIN_RESOLUTION_FAIL
+      ? "fail"
+      : shorterSide < MIN_RESOLUTION_WARN
+        ? "warn"
+        : "pass";
+
+  return {
+    criterion: "resolution",
+    verdict,
+    value: shorterSide,
+    message:
+      verdict === "pass"
+        ? `${width}×${height} px`
+        : `${width}×${height} px is too small for reliable detail`,
+  };
+}
+
+function checkSharpness(variance: number): QualityCheck {
+  const verdict: QualityVerdict =
+    variance < SHARPNESS_FAIL
+      ? "fail"
+      : variance < SHARPNESS_WARN
+        ? "warn"
+        : "pass";
+
+  return {
+    criterion: "sharpness",
+    verdict,
+    value: variance,
+    message:
+      verdict === "pass"
+        ? "In focus"
+        : verdict === "warn"
+          ? "Slightly blurry, hold the camera steady"
+          : "Too blurry, retake the photo",
+  };
+}
+
+function checkGlare(luma: Float32Array): QualityCheck {
+  let clipped = 0;
+  for (let i = 0; i < luma.length; i++) {
+    if (luma[i] >= GLARE_LUMA) clipped++;
+  }
+  const fraction = luma.length ? clipped / luma.length : 0;
+  const verdict: QualityVerdict =
+    fraction > GLARE_FAIL ? "fail" : fraction > GLARE_WARN ? "warn" : "pass";
+
+  return {
+    criterion: "glare",
+    verdict,
+    value: fraction,
+    message:
+      verdict === "pass"
+        ? "No significant glare"
+        : `${Math.round(fraction * 100)}% of the image is washed out, tilt to avoid reflections`,
+  };
+}
+
+function checkExposure(luma: Float32Array): QualityCheck {
+  let sum = 0;
+  for (let i = 0; i < luma.length; i++) {
+    sum += luma[i];
+  }
+  const mean = luma.length ? sum / luma.length : 0;
+
+  let verdict: QualityVerdict = "pass";
+  let message = "Well exposed";
+  if (mean < EXPOSURE_DARK_FAIL || mean > EXPOSURE_BRIGHT_FAIL) {
+    verdict = "fail";
+  } else if (mean < EXPOSURE_DARK_WARN || mean > EXPOSURE_BRIGHT_WARN) {
+    verdict = "warn";
+  }
+  if (verdict !== "pass") {
+    message =
+      mean < EXPOSURE_DARK_WARN
+        ? "Underexposed, add light behind the film"
+        : "Overexposed, reduce the lightbox brightness";
+  }
+
+  return { criterion: "exposure", verdict, value: mean, message };
+}
+
+/**
+ * Assess whether an image is likely to produce a usable analysis
+ * Runs entirely on device before anything is uploaded
+ */
+export async function assessImageQuality(
+  imageUri: string,
+): Promise<QualityReport> {
+  const { raster, sourceWidth, sourceHeight } = await loadRaster(
+    imageUri,
+    ANALYSIS_SIZE,
+  );
+  const luma = toLuma(raster);
+
+  const checks: QualityCheck[] = [
+    checkResolution(sourceWidth, sourceHeight),
+    checkSharpness(laplacianVariance(luma, raster.width, raster.height)),
+    checkGlare(luma),
+    checkExposure(luma),
+  ];
+
+  const verdict = checks.reduce<QualityVerdict>(
+    (worst, check) =>
+      VERDICT_RANK[check.verdict] > VERDICT_RANK[worst] ? check.verdict : worst,
+    "pass",
+  );
+
+  return { verdict, checks };
+}
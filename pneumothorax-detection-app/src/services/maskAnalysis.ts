@@ -0,0 +1,300 @@
+import * as ImageManipulator from "expo-image-manipulator";
+import * as FileSystem from "expo-file-system/legacy";
+import { Platform } from "react-native";
+import { decode as decodePng } from "fast-png";
+import { BoundingBox } from "../types";
+import { base64ToBytes, throwIfAborted } from "../utils";
+
+const isWeb = Platform.OS === "web";
+
+// Masks are analyzed at the model's native resolution
+const MASK_ANALYSIS_SIZE = 256;
+// Pixels at or above this intensity (0-255) belong to a region
+const MASK_THRESHOLD = 128;
+
+/**
+ * Minimum region size, as a percentage of the mask area, below which a
+ * connected component is treated as noise
+ */
+export const DEFAULT_MIN_REGION_AREA = 0.2;
+
+/**
+ * Single-channel mask intensities (0-255), row-major
+ */
+export interface MaskPixels {
+  width: number;
+  height: number;
+  intensity: Uint8Array;
+}
+
+/**
+ * Connected component found in a binary mask, in pixel coordinates
+ */
+export interface MaskRegion {
+  label: number;
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+  pixelCount: number;
+  intensitySum: number;
+}
+
+/**
+ * Decode mask pixels in the browser using Canvas API (web only)
+ */
+async function decodeMaskWeb(maskUri: string): Promise<MaskPixels> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = "anonymous";
+
+    img.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = MASK_ANALYSIS_SIZE;
+      canvas.height = MASK_ANALYSIS_SIZE;
+
+      const ctx = canvas.getContext("2d");
+      if (!ctx) {
+        reject(new Error("Failed to get canvas context"));
+        return;
+      }
+
+      ctx.drawImage(img, 0, 0, MASK_ANALYSIS_SIZE, MASK_ANALYSIS_SIZE);
+      const { data } = ctx.getImageData(
+        0,
+        0,
+        MASK_ANALYSIS_SIZE,
+        MASK_ANALYSIS_SIZE,
+      );
+
+      const intensity = new Uint8Array(MASK_ANALYSIS_SIZE * MASK_ANALYSIS_SIZE);
+      for (let i = 0; i < intensity.length; i++) {
+        const o = i * 4;
+        intensity[i] = Math.max(data[o], data[o + 1], data[o + 2]);
+      }
+
+      resolve({
+        width: MASK_ANALYSIS_SIZE,
+        height: MASK_ANALYSIS_SIZE,
+        intensity,
+      });
+    };
+
+    img.onerror = () => {
+      reject(new Error("Failed to load mask image"));
+    };
+
+    img.src = maskUri;
+  });
+}
+
+/**
+ * Decode mask pixels on device (native only)
+ * Normalizes whatever format the backend returned to PNG via
+ * expo-image-manipulator, then decodes the PNG in JS
+ */
+async function decodeMaskNative(
+  maskUri: string,
+  signal?: AbortSignal,
+): Promise<MaskPixels> {
+  let localUri = maskUri;
+
+  if (maskUri.startsWith("http")) {
+    const target = `${FileSystem.cacheDirectory}mask-${Date.now()}.img`;
+    const download = await FileSystem.downloadAsync(maskUri, target);
+    if (download.status !== 200) {
+      throw new Error(`Mask download failed: ${download.status}`);
+    }
+    localUri = download.uri;
+  }
+
+  throwIfAborted(signal);
+
+  const normalized = await ImageManipulator.manipulateAsync(
+    localUri,
+    [{ resize: { width: MASK_ANALYSIS_SIZE, height: MASK_ANALYSIS_SIZE } }],
+    { format: ImageManipulator.SaveFormat.PNG, base64: true },
+  );
+
+  if (!normalized.base64) {
+    throw new Error("Failed to read mask pixels");
+  }
+
+  const png = decodePng(base64ToBytes(normalized.base64));
+  const { width, height, channels, palette } = png;
+  const scale = png.depth === 16 ? 1 / 257 : 1;
+  const intensity = new Uint8Array(width * height);
+
+  for (let i = 0; i < intensity.length; i++) {
+    if (palette) {
+      const [r, g, b] = palette[png.data[i]];
+      intensity[i] = Math.max(r, g, b);
+      continue;
+    }
+    const o = i * channels;
+    // Ignore the alpha channel; grayscale masks have one or two channels
+    const colorChannels = channels >= 3 ? 3 : 1;
+    let value = 0;
+    for (let c = 0; c < colorChannels; c++) {
+      value = Math.max(value, png.data[o + c] * scale);
+    }
+    intensity[i] = value;
+  }
+
+  return { width, height, intensity };
+}
+
+/**
+ * Download and decode a mask image into single-channel intensities
+ */
+export async function decodeMask(
+  maskUri: string,
+  signal?: AbortSignal,
+): Promise<MaskPixels> {
+  throwIfAborted(signal);
+  if (isWeb) {
+    return decodeMaskWeb(maskUri);
+  }
+  return decodeMaskNative(maskUri, signal);
+}
+
+/**
+ * Two-pass connected-component labeling with 8-connectivity
+ * Returns one region per component of pixels at or above the threshold
+ */
+export function labelConnectedComponents(
+  mask: MaskPixels,
+  threshold: number = MASK_THRESHOLD,
+): MaskRegion[] {
+  const { width, height, intensity } = mask;
+  const labels = new Int32Array(width * height);
+  const parent: number[] = [0];
+
+  const find = (label: number): number => {
+    while (parent[label] !== label) {
+      parent[label] = parent[parent[label]];
+      label = parent[label];
+    }
+    return label;
+  };
+
+  const union = (a: number, b: number) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA !== rootB) {
+      parent[Math.max(rootA, rootB)] = Math.min(rootA, rootB);
+    }
+  };
+
+  // First pass: provisional labels and equivalences
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (intensity[i] < threshold) continue;
+
+      let label = 0;
+      const neighbors = [
+        x > 0 ? labels[i - 1] : 0,
+        y > 0 && x > 0 ? labels[i - width - 1] : 0,
+        y > 0 ? labels[i - width] : 0,
+        y > 0 && x < width - 1 ? labels[i - width + 1] : 0,
+      ];
+
+      for (const neighbor of neighbors) {
+        if (!neighbor) continue;
+        if (!label) {
+          label = neighbor;
+        } else if (neighbor !== label) {
+          union(label, neighbor);
+        }
+      }
+
+      if (!label) {
+        label = parent.length;
+        parent.push(label);
+      }
+      labels[i] = label;
+    }
+  }
+
+  // Second pass: resolve labels and accumulate region statistics
+  const regions = new Map<number, MaskRegion>();
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (!labels[i]) continue;
+
+      const root = find(labels[i]);
+      const region = regions.get(root);
+      if (region) {
+        region.minX = Math.min(region.minX, x);
+        region.minY = Math.min(region.minY, y);
+        region.maxX = Math.max(region.maxX, x);
+        region.maxY = Math.max(region.maxY, y);
+        region.pixelCount++;
+        region.intensitySum += intensity[i];
+      } else {
+        regions.set(root, {
+          label: root,
+          minX: x,
+          minY: y,
+          maxX: x,
+          maxY: y,
+          pixelCount: 1,
+          intensitySum: intensity[i],
+        });
+      }
+    }
+  }
+
+  return Array.from(regions.values());
+}
+
+/**
+ * Convert labeled regions into percentage-based bounding boxes
+ * Regions smaller than minRegionArea (percent of the mask) are dropped
+ */
+export function regionsToBoundingBoxes(
+  regions: MaskRegion[],
+  width: number,
+  height: number,
+  minRegionArea: number = DEFAULT_MIN_REGION_AREA,
+): BoundingBox[] {
+  const totalPixels = width * height;
+
+  return regions
+    .map((region) => ({
+      region,
+      area: (region.pixelCount / totalPixels) * 100,
+    }))
+    .filter(({ area }) => area >= minRegionArea)
+    .sort((a, b) => b.area - a.area)
+    .map(({ region, area }, index) => ({
+      id: index + 1,
+      x: (region.minX / width) * 100,
+      y: (region.minY / height) * 100,
+      width: ((region.maxX - region.minX + 1) / width) * 100,
+      height: ((region.maxY - region.minY + 1) / height) * 100,
+      confidence: region.intensitySum / region.pixelCount / 255,
+      area,
+    }));
+}
+
+/**
+ * Derive bounding boxes from a segmentation mask image
+ */
+export async function extractBoundingBoxes(
+  maskUri: string,
+  minRegionArea: number = DEFAULT_MIN_REGION_AREA,
+  signal?: AbortSignal,
+): Promise<BoundingBox[]> {
+  const mask = await decodeMask(maskUri, signal);
+  throwIfAborted(signal);
+  const regions = labelConnectedComponents(mask);
+  return regionsToBoundingBoxes(
+    regions,
+    mask.width,
+    mask.height,
+    minRegionArea,
+  );
+}
@@ -0,0 +1,340 @@
+import {
+  PDFDocument,
+  PDFFont,
+  PDFImage,
+  PDFPage,
+  rgb,
+  StandardFonts,
+} from "pdf-lib";
+import { encode as encodePng } from "fast-png";
+import {
+  DetectionBackend,
+  DetectionResult,
+  DiagnosisVerdict,
+  PneumoAPIResponse,
+} from "../types";
+import { MEDICAL_DISCLAIMER } from "../constants";
+import { toPlainLines } from "./diagnosisParser";
+import { ExportFile, saveExportFile } from "./exportFiles";
+import { loadRaster } from "./preprocessing";
+import { formatDuration } from "./stageTimings";
+
+// A4 in points
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 48;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const IMAGE_GAP = 12;
+// Images are downscaled before embedding to keep the PDF small
+const MAX_IMAGE_SIZE = 768;
+
+const TEXT_COLOR = rgb(0.13, 0.13, 0.13);
+const MUTED_COLOR = rgb(0.45, 0.45, 0.45);
+
+const VERDICT_TEXT: Record<DiagnosisVerdict, string> = {
+  positive: "Pneumothorax detected",
+  negative: "No pneumothorax detected",
+  unparseable: "Inconclusive",
+};
+
+export interface PdfReportInput {
+  result: DetectionResult;
+  apiResponse: PneumoAPIResponse;
+  backend: Pick<DetectionBackend, "label" | "endpoint">;
+  notes?: string;
+}
+
+/**
+ * Standard PDF fonts only cover WinAnsi, so emoji and other symbols in
+ * model output are dropped rather than failing the whole report
+ */
+function toWinAnsi(text: string): string {
+  return text
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, "-")
+    .replace(/•/g, "-")
+    .replace(/[^\n\x20-\x7e\xa0-\xff]/g, "")
+    .replace(/[ \t]+/g, " ");
+}
+
+/**
+ * Lays text and images out top to bottom, starting new pages as needed
+ */
+class ReportWriter {
+  private page: PDFPage;
+  private y: number;
+
+  constructor(
+    private doc: PDFDocument,
+    private font: PDFFont,
+    private bold: PDFFont,
+  ) {
+    this.page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  private ensureSpace(height: number) {
+    if (this.y - height < MARGIN) {
+      this.page = this.doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      this.y = PAGE_HEIGHT - MARGIN;
+    }
+  }
+
+  private wrap(text: string, font: PDFFont, size: number): string[] {
+    const lines: string[] = [];
+    for (const paragraph of toWinAnsi(text).split("\n")) {
+      let line = "";
+      for (const word of paragraph.split(" ")) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (font.widthOfTextAtSize(candidate, size) <= CONTENT_WIDTH || !line) {
+          line = candidate;
+        } else {
+          lines.push(line);
+          line = word;
+        }
+      }
+      lines.push(line);
+    }
+    return lines;
+  }
+
+  text(
+    text: string,
+    options: { size?: number; bold?: boolean; muted?: boolean } = {},
+  ) {
+    const size = options.size ?? 11;
+    const font = options.bold ? this.bold : this.font;
+    const lineHeight = size * 1.4;
+
+    for (const line of this.wrap(text, font, size)) {
+      this.ensureSpace(lineHeight);
+      this.y -= lineHeight;
+      this.page.drawText(line, {
+        x: MARGIN,
+        y: this.y + (lineHeight - size) / 2,
+        size,
+        font,
+        color: options.muted ? MUTED_COLOR : TEXT_COLOR,
+      });
+    }
+  }
+
+  heading(text: string) {
+    this.space(10);
+    this.text(text, { size: 14, bold: true });
+    this.space(4);
+  }
+
+  field(label: string, value: string) {
+    this.text(`${label}: ${value}`);
+  }
+
+  space(height: number) {
+    this.y -= height;
+  }
+
+  images(items: { image: PDFImage; caption: string }[]) {
+    if (!items.length) return;
+    const width =
+      (CONTENT_WIDTH - IMAGE_GAP * (items.length - 1)) / items.length;
+    const captionHeight = 16;
+    // Tall films are scaled down to fit on one page with their captions
+    const height = Math.min(
+      Math.max(
+        ...items.map(({ image }) => (image.height / image.width) * width),
+      ),
+      PAGE_HEIGHT - MARGIN * 2 - captionHeight,
+    );
+    this.ensureSpace(height + captionHeight);
+
+    items.forEach(({ image, caption }, index) => {
+      const x = MARGIN + index * (width + IMAGE_GAP);
+      const scaled = image.scaleToFit(width, height);
+      this.page.drawImage(image, {
+        x: x + (width - scaled.width) / 2,
+        y: this.y - height + (height - scaled.height),
+        width: scaled.width,
+        height: scaled.height,
+      });
+      this.page.drawText(caption, {
+        x,
+        y: this.y - height - 12,
+        size: 9,
+        font: this.font,
+        color: MUTED_COLOR,
+      });
+    });
+    this.y -= height + captionHeight;
+  }
+}
+
+/**
+ * Load any displayable image and embed it as PNG
+ * Re-encoding normalizes whatever format the backend returned
+ */
+async function embedImage(
+  doc: PDFDocument,
+  uri: string,
+): Promise<PDFImage | null> {
+  try {
+    const { raster } = await loadRaster(uri, MAX_IMAGE_SIZE);
+    const png = encodePng({
+      width: raster.width,
+      height: raster.height,
+      data: raster.data,
+      channels: 4,
+      depth: 8,
+    });
+    return await doc.embedPng(png);
+  } catch (error) {
+    console.warn("Failed to embed image in report:", error);
+    return null;
+  }
+}
+
+function formatDate(value: Date | string): string {
+  return new Date(value).toLocaleString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+/**
+ * Render an analysis as a PDF report
+ */
+export async function buildPdfReport({
+  result,
+  apiResponse,
+  backend,
+  notes,
+}: PdfReportInput): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  doc.setTitle("Pneumothorax Analysis Report");
+  doc.setCreator("Pneumothorax Detection App");
+  doc.setCreationDate(new Date());
+
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+  const writer = new ReportWriter(doc, font, bold);
+
+  writer.text("Pneumothorax Analysis Report", { size: 20, bold: true });
+  writer.text(`Analyzed ${formatDate(result.timestamp)}`, { muted: true });
+  writer.text(`Analysis ID ${result.id}`, { size: 9, muted: true });
+
+  const candidates = [
+    { uri: apiResponse.originalImage || result.imageUri, caption: "Original" },
+    { uri: apiResponse.maskImage, caption: "Mask" },
+    { uri: apiResponse.overlayImage, caption: "Overlay" },
+  ].filter((candidate) => candidate.uri);
+  const embedded = await Promise.all(
+    candidates.map(async (candidate) => ({
+      image: await embedImage(doc, candidate.uri),
+      caption: candidate.caption,
+    })),
+  );
+  writer.space(12);
+  writer.images(
+    embedded.filter(
+      (item): item is { image: PDFImage; caption: string } => !!item.image,
+    ),
+  );
+
+  const report = result.report;
+  writer.heading("Findings");
+  writer.field(
+    "Result",
+    report ? VERDICT_TEXT[report.verdict] : "Not available",
+  );
+  writer.field(
+    "Probability",
+    report?.probability != null
+      ? `${(report.probability * 100).toFixed(1)}%`
+      : "Not stated",
+  );
+  if (report?.side) {
+    writer.field("Side", report.side);
+  }
+  writer.field("Regions highlighted", String(result.boundingBoxes.length));
+  const { timings } = result;
+  // Entries reopened from history keep stage timings but no total
+  const processingMs =
+    result.processingTime > 0
+      ? result.processingTime
+      : timings &&
+        timings.preprocessMs +
+          timings.uploadMs +
+          timings.queueMs +
+          timings.inferenceMs +
+          timings.downloadMs;
+  writer.field(
+    "Processing time",
+    processingMs ? formatDuration(processingMs) : "Not recorded",
+  );
+  if (timings) {
+    writer.field(
+      "Stage timings",
+      [
+        `preprocess ${formatDuration(timings.preprocessMs)}`,
+        `upload ${formatDuration(timings.uploadMs)}`,
+        `queue ${formatDuration(timings.queueMs)}`,
+        `inference ${formatDuration(timings.inferenceMs)}`,
+        `download ${formatDuration(timings.downloadMs)}`,
+      ].join(", "),
+    );
+  }
+  // Provenance names the model that produced the result, not today's setting
+  const models = result.provenance?.models ?? [
+    { ...backend, modelName: null, modelVersion: null },
+  ];
+  for (const model of models) {
+    writer.field("Model", `${model.label} (${model.endpoint})`);
+    if (model.modelName || model.modelVersion) {
+      writer.field(
+        "Model version",
+        [model.modelName, model.modelVersion].filter(Boolean).join(" @ "),
+      );
+    }
+  }
+
+  if (result.dicom) {
+    const study = [
+      result.dicom.modality,
+      result.dicom.viewPosition,
+      result.dicom.studyDate,
+    ]
+      .filter(Boolean)
+      .join(", ");
+    writer.field("Source study", study || "DICOM import");
+  }
+
+  if (apiResponse.diagnosis) {
+    writer.heading("Model Diagnosis");
+    writer.text(toPlainLines(apiResponse.diagnosis).join("\n"));
+  }
+
+  writer.heading("Clinician Notes");
+  writer.text(notes?.trim() || "None recorded.", { muted: !notes?.trim() });
+
+  writer.heading("Medical Disclaimer");
+  writer.text(MEDICAL_DISCLAIMER, { size: 9, muted: true });
+
+  return doc.save();
+}
+
+/**
+ * Build the PDF report for an analysis and save it for sharing
+ */
+export async function exportPdfReport(
+  input: PdfReportInput,
+): Promise<ExportFile> {
+  const bytes = await buildPdfReport(input);
+  return saveExportFile(
+    bytes,
+    `${input.result.id}-report.pdf`,
+    "application/pdf",
+  );
+}
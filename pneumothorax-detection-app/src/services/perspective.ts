@@ -0,0 +1,372 @@
+import * as FileSystem from "expo-file-system/legacy";
+import { Point, Quad } from "../types";
+import { loadRaster, RasterImage, saveRaster } from "./preprocessing";
+
+const CORRECTED_DIRECTORY = `${FileSystem.cacheDirectory}perspective/`;
+
+// Edge detection runs on a small copy; corners are normalized anyway
+const DETECTION_SIZE = 256;
+// Longest side of the corrected image
+const MAX_OUTPUT_SIZE = 1600;
+
+// A candidate region must cover this fraction of the frame
+const MIN_REGION_FRACTION = 0.15;
+const MAX_REGION_FRACTION = 0.97;
+
+// Used when no film or screen outline can be found
+const DEFAULT_INSET = 0.08;
+
+/**
+ * Quad inset from the image border, the starting point for manual
+ * adjustment when detection fails
+ */
+export function defaultQuad(): Quad {
+  const near = DEFAULT_INSET;
+  const far = 1 - DEFAULT_INSET;
+  return [
+    { x: near, y: near },
+    { x: far, y: near },
+    { x: far, y: far },
+    { x: near, y: far },
+  ];
+}
+
+function toLuma(raster: RasterImage): Uint8Array {
+  const { data } = raster;
+  const luma = new Uint8Array(raster.width * raster.height);
+  for (let i = 0; i < luma.length; i++) {
+    const o = i * 4;
+    luma[i] = 0.299 * data[o] + 0.587 * data[o + 1] + 0.114 * data[o + 2];
+  }
+  return luma;
+}
+
+/**
+ * Threshold that best separates a bimodal luma histogram (Otsu's method)
+ */
+function otsuThreshold(luma: Uint8Array): number {
+  const histogram = new Uint32Array(256);
+  for (let i = 0; i < luma.length; i++) {
+    histogram[luma[i]]++;
+  }
+
+  let total = 0;
+  for (let t = 0; t < 256; t++) total += t * histogram[t];
+
+  let backgroundWeight = 0;
+  let backgroundSum = 0;
+  let bestVariance = -1;
+  let bestThreshold = 128;
+
+  for (let t = 0; t < 256; t++) {
+    backgroundWeight += histogram[t];
+    if (!backgroundWeight) continue;
+    const foregroundWeight = luma.length - backgroundWeight;
+    if (!foregroundWeight) break;
+
+    backgroundSum += t * histogram[t];
+    const meanBackground = backgroundSum / backgroundWeight;
+    const meanForeground = (total - backgroundSum) / foregroundWeight;
+    const variance =
+      backgroundWeight *
+      foregroundWeight *
+      (meanBackground - meanForeground) ** 2;
+
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      bestThreshold = t;
+    }
+  }
+
+  return bestThreshold;
+}
+
+interface Candidate {
+  pixelCount: number;
+  touchesAllEdges: boolean;
+  corners: Quad; // in pixel coordinates
+}
+
+/**
+ * Flood-fill the 4-connected regions of a binary image and return the
+ * extreme points of each one as a rough quadrilateral
+ * The corners are the pixels minimizing or maximizing x+y and x-y,
+ * which approximates the vertices of a convex, roughly upright shape
+ */
+function findCandidates(
+  foreground: Uint8Array,
+  width: number,
+  height: number,
+): Candidate[] {
+  const visited = new Uint8Array(foreground.length);
+  const stack = new Int32Array(foreground.length);
+  const candidates: Candidate[] = [];
+
+  for (let start = 0; start < foreground.length; start++) {
+    if (!foreground[start] || visited[start]) continue;
+
+    let top = 0;
+    stack[top++] = start;
+    visited[start] = 1;
+
+    let pixelCount = 0;
+    let edges = 0;
+    const corners: Quad = [
+      { x: 0, y: 0 },
+      { x: 0, y: 0 },
+      { x: 0, y: 0 },
+      { x: 0, y: 0 },
+    ];
+    let minSum = Infinity;
+    let maxSum = -Infinity;
+    let minDiff = Infinity;
+    let maxDiff = -Infinity;
+
+    while (top > 0) {
+      const i = stack[--top];
+      const x = i % width;
+      const y = (i - x) / width;
+      pixelCount++;
+
+      if (x === 0) edges |= 1;
+      if (x === width - 1) edges |= 2;
+      if (y === 0) edges |= 4;
+      if (y === height - 1) edges |= 8;
+
+      const sum = x + y;
+      const diff = x - y;
+      if (sum < minSum) {
+        minSum = sum;
+        corners[0] = { x, y };
+      }
+      if (diff > maxDiff) {
+        maxDiff = diff;
+        corners[1] = { x, y };
+      }
+      if (sum > maxSum) {
+        maxSum = sum;
+        corners[2] = { x, y };
+      }
+      if (diff < minDiff) {
+        minDiff = diff;
+        corners[3] = { x, y };
+      }
+
+      const neighbors = [
+        x > 0 ? i - 1 : -1,
+        x < width - 1 ? i + 1 : -1,
+        y > 0 ? i - width : -1,
+        y < height - 1 ? i + width : -1,
+      ];
+      for (const n of neighbors) {
+        if (n >= 0 && foreground[n] && !visited[n]) {
+          visited[n] = 1;
+          stack[top++] = n;
+        }
+      }
+    }
+
+    candidates.push({
+      pixelCount,
+      touchesAllEdges: edges === 15,
+      corners,
+    });
+  }
+
+  return candidates;
+}
+
+function quadArea(quad: Quad): number {
+  let area = 0;
+  for (let i = 0; i < 4; i++) {
+    const a = quad[i];
+    const b = quad[(i + 1) % 4];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(area) / 2;
+}
+
+/**
+ * Whether the corners form a convex quadrilateral in clockwise order
+ */
+export function isConvexQuad(quad: Quad): boolean {
+  for (let i = 0; i < 4; i++) {
+    const a = quad[i];
+    const b = quad[(i + 1) % 4];
+    const c = quad[(i + 2) % 4];
+    const cross = (b.x - a.x) * (c.y - b.y) - (b.y - a.y) * (c.x - b.x);
+    if (cross <= 0) return false;
+  }
+  return true;
+}
+
+/**
+ * Find the outline of a film or screen in a photo
+ * Tries both polarities of an Otsu threshold, since a film on a lightbox
+ * is darker than its surroundings while a monitor is brighter, and keeps
+ * the largest plausible region. Returns null when nothing plausible is found.
+ */
+export async function detectQuad(imageUri: string): Promise<Quad | null> {
+  const { raster } = await loadRaster(imageUri, DETECTION_SIZE);
+  const { width, height } = raster;
+  const luma = toLuma(raster);
+  const threshold = otsuThreshold(luma);
+  const frameArea = width * height;
+
+  let best: Candidate | null = null;
+  for (const bright of [true, false]) {
+    const foreground = new Uint8Array(luma.length);
+    for (let i = 0; i < luma.length; i++) {
+      foreground[i] = luma[i] > threshold === bright ? 1 : 0;
+    }
+
+    for (const candidate of findCandidates(foreground, width, height)) {
+      const fraction = candidate.pixelCount / frameArea;
+      // A region touching every border is the background, not the film
+      if (
+        candidate.touchesAllEdges ||
+        fraction < MIN_REGION_FRACTION ||
+        fraction > MAX_REGION_FRACTION ||
+        !isConvexQuad(candidate.corners) ||
+        quadArea(candidate.corners) < MIN_REGION_FRACTION * frameArea
+      ) {
+        continue;
+      }
+      if (!best || candidate.pixelCount > best.pixelCount) {
+        best = candidate;
+      }
+    }
+  }
+
+  if (!best) return null;
+
+  return best.corners.map((corner) => ({
+    x: corner.x / (width - 1),
+    y: corner.y / (height - 1),
+  })) as Quad;
+}
+
+/**
+ * Solve for the 3x3 homography mapping each `from` point onto the
+ * matching `to` point, returned row-major with h[8] = 1
+ */
+export function computeHomography(from: Quad, to: Quad): number[] {
+  // Eight equations in eight unknowns, as an augmented matrix
+  const rows: number[][] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = from[i];
+    const { x: u, y: v } = to[i];
+    rows.push([x, y, 1, 0, 0, 0, -u * x, -u * y, u]);
+    rows.push([0, 0, 0, x, y, 1, -v * x, -v * y, v]);
+  }
+
+  // Gaussian elimination with partial pivoting
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < 8; row++) {
+      if (Math.abs(rows[row][col]) > Math.abs(rows[pivot][col])) {
+        pivot = row;
+      }
+    }
+    if (Math.abs(rows[pivot][col]) < 1e-12) {
+      throw new Error("Corners are degenerate");
+    }
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+
+    for (let row = 0; row < 8; row++) {
+      if (row === col) continue;
+      const factor = rows[row][col] / rows[col][col];
+      for (let k = col; k < 9; k++) {
+        rows[row][k] -= factor * rows[col][k];
+      }
+    }
+  }
+
+  const h = rows.map((row, i) => row[8] / row[i]);
+  return [...h, 1];
+}
+
+/**
+ * Resample the area inside a quad onto a width x height rectangle
+ * using bilinear interpolation
+ */
+export function warpPerspective(
+  source: RasterImage,
+  quad: Quad, // in source pixel coordinates
+  width: number,
+  height: number,
+): RasterImage {
+  const target: Quad = [
+    { x: 0, y: 0 },
+    { x: width - 1, y: 0 },
+    { x: width - 1, y: height - 1 },
+    { x: 0, y: height - 1 },
+  ];
+  // Map every output pixel back into the source
+  const h = computeHomography(target, quad);
+  const data = new Uint8ClampedArray(width * height * 4);
+  const maxX = source.width - 1;
+  const maxY = source.height - 1;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const w = h[6] * x + h[7] * y + h[8];
+      const sx = Math.min(maxX, Math.max(0, (h[0] * x + h[1] * y + h[2]) / w));
+      const sy = Math.min(maxY, Math.max(0, (h[3] * x + h[4] * y + h[5]) / w));
+
+      const x0 = Math.floor(sx);
+      const y0 = Math.floor(sy);
+      const x1 = Math.min(maxX, x0 + 1);
+      const y1 = Math.min(maxY, y0 + 1);
+      const fx = sx - x0;
+      const fy = sy - y0;
+
+      const o00 = (y0 * source.width + x0) * 4;
+      const o10 = (y0 * source.width + x1) * 4;
+      const o01 = (y1 * source.width + x0) * 4;
+      const o11 = (y1 * source.width + x1) * 4;
+      const o = (y * width + x) * 4;
+
+      for (let c = 0; c < 4; c++) {
+        const top = source.data[o00 + c] * (1 - fx) + source.data[o10 + c] * fx;
+        const bottom =
+          source.data[o01 + c] * (1 - fx) + source.data[o11 + c] * fx;
+        data[o + c] = top * (1 - fy) + bottom * fy;
+      }
+    }
+  }
+
+  return { width, height, data };
+}
+
+function distance(a: Point, b: Point): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+/**
+ * Warp the region inside a normalized quad to an upright rectangle
+ * Each output side takes the length of the longer opposite quad edge
+ */
+export async function correctPerspective(
+  imageUri: string,
+  quad: Quad,
+): Promise<string> {
+  const { raster } = await loadRaster(imageUri, MAX_OUTPUT_SIZE);
+  const corners = quad.map((point) => ({
+    x: point.x * (raster.width - 1),
+    y: point.y * (raster.height - 1),
+  })) as Quad;
+
+  const [tl, tr, br, bl] = corners;
+  const width = Math.max(
+    2,
+    Math.round(Math.max(distance(tl, tr), distance(bl, br))),
+  );
+  const height = Math.max(
+    2,
+    Math.round(Math.max(distance(tl, bl), distance(tr, br))),
+  );
+
+  const warped = warpPerspective(raster, corners, width, height);
+  return saveRaster(warped, CORRECTED_DIRECTORY);
+}
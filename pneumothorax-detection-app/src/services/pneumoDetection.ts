@@ -1,361 +1,454 @@
-import { DetectionResult, BoundingBox } from "../types";
-import * as ImageManipulator from "expo-image-manipulator";
-import { Platform } from "react-native";
-
-const API_BASE = "https://yashwanthsc-pneumopredictor.hf.space";
-const TARGET_SIZE = 256;
-const isWeb = Platform.OS === "web";
+import {
+  AnalysisFailure,
+  AnalysisProgress,
+  DetectionResult,
+  BoundingBox,
+  DiagnosisVerdict,
+  DetectionBackend,
+  DiagnosisReport,
+  EnsembleOptions,
+  EnsembleStrategy,
+  EnsembleSummary,
+  ModelOpinion,
+  PneumoAPIResponse,
+  PreprocessedImage,
+  PreprocessingConfig,
+  RetryPolicy,
+} from "../types";
+import { createBackend, DEFAULT_BACKEND_CONFIG } from "./backends";
+import { parseDiagnosis } from "./diagnosisParser";
+import { AnalysisError, toAnalysisError } from "./analysisErrors";
+import { resolveRetryPolicy, withRetry } from "./retryPolicy";
+import { isAbortError, throwIfAborted } from "../utils";
+import { extractBoundingBoxes, DEFAULT_MIN_REGION_AREA } from "./maskAnalysis";
+import {
+  deletePreprocessedImage,
+  preprocessImage,
+  removeLetterbox,
+} from "./preprocessing";
+import { getCachedResult, resultCacheKey } from "./resultCache";
+import {
+  deleteResultImages,
+  measureImageBytes,
+  persistModelInput,
+  persistResultImages,
+  RESULT_IMAGE_KINDS,
+} from "./resultImages";
+import { combineOpinions } from "./ensemble";
+import { buildProvenance, describeModel } from "./provenance";
+import {
+  combineStageTimings,
+  ModelStageTimings,
+  StageTimer,
+} from "./stageTimings";
+
+export type { PneumoAPIResponse };
+
+const VERDICT_STATUS: Record<DiagnosisVerdict, DetectionResult["status"]> = {
+  positive: "detected",
+  negative: "not_detected",
+  unparseable: "inconclusive",
+};
 
 function generateId(): string {
   return `detection-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
 }
 
 /**
- * Resize image to 256x256 using Canvas API (web only)
+ * Run the backend's preprocessing pipeline before sending to API
  */
-async function resizeImageWeb(imageUri: string): Promise<string> {
-  console.log("Resizing image on web to 256x256...");
-
-  return new Promise((resolve, reject) => {
-    const img = new Image();
-    img.crossOrigin = "anonymous";
-
-    img.onload = () => {
-      const canvas = document.createElement("canvas");
-      canvas.width = TARGET_SIZE;
-      canvas.height = TARGET_SIZE;
-
-      const ctx = canvas.getContext("2d");
-      if (!ctx) {
-        reject(new Error("Failed to get canvas context"));
-        return;
-      }
+async function prepareImage(
+  imageUri: string,
+  config: PreprocessingConfig,
+  signal?: AbortSignal,
+): Promise<PreprocessedImage> {
+  try {
+    return await preprocessImage(imageUri, config, signal);
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    throw new AnalysisError(
+      "invalid_image",
+      "The image could not be read.",
+      error instanceof Error ? error.message : undefined,
+    );
+  }
+}
 
-      ctx.drawImage(img, 0, 0, TARGET_SIZE, TARGET_SIZE);
-      const resizedUri = canvas.toDataURL("image/png", 0.8);
-      console.log("Image resized successfully on web");
-      resolve(resizedUri);
-    };
+export interface AnalyzeOptions {
+  backend?: DetectionBackend;
+  minRegionArea?: number; // percent of mask area, smaller regions are dropped
+  onProgress?: (progress: AnalysisProgress) => void;
+  signal?: AbortSignal; // aborting rejects with an AbortError instead of returning a result
+  retryPolicy?: Partial<RetryPolicy>;
+  preprocessing?: PreprocessingConfig; // defaults to backend.preprocessing
+  skipCache?: boolean; // analyze even if this image was analyzed before
+  ensemble?: EnsembleOptions; // with two or more backends, replaces backend
+}
 
-    img.onerror = () => {
-      reject(new Error("Failed to load image for resizing"));
-    };
+export interface AnalyzeOutcome {
+  result: DetectionResult;
+  apiResponse: PneumoAPIResponse;
+  fromCache: boolean; // result is an earlier analysis already in history
+}
 
-    img.src = imageUri;
-  });
+interface ModelRun {
+  apiResponse: PneumoAPIResponse;
+  report: DiagnosisReport;
+  boundingBoxes: BoundingBox[];
+  ensemble?: EnsembleSummary;
+  timings: ModelStageTimings;
 }
 
 /**
- * Resize image to 256x256 using expo-image-manipulator (native only)
+ * Map the backend's images out of the letterboxed model input so they
+ * line up with the source film
+ * An image that cannot be read is left for persistResultImages to report.
  */
-async function resizeImageNative(imageUri: string): Promise<string> {
-  console.log("Resizing image on native to 256x256...");
-
-  const result = await ImageManipulator.manipulateAsync(
-    imageUri,
-    [{ resize: { width: TARGET_SIZE, height: TARGET_SIZE } }],
-    { compress: 0.8, format: ImageManipulator.SaveFormat.PNG },
+async function unletterboxImages(
+  response: PneumoAPIResponse,
+  modelInput: PreprocessedImage,
+  signal?: AbortSignal,
+): Promise<PneumoAPIResponse> {
+  const mapped = { ...response };
+  await Promise.all(
+    RESULT_IMAGE_KINDS.filter((kind) => response[kind]).map(async (kind) => {
+      try {
+        mapped[kind] = await removeLetterbox(
+          response[kind],
+          modelInput,
+          signal,
+        );
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        console.warn(`Failed to remove letterbox from ${kind}:`, error);
+      }
+    }),
   );
-
-  console.log("Image resized successfully:", result.uri);
-  return result.uri;
+  return mapped;
 }
 
 /**
- * Resize image to 256x256 before sending to API
+ * Send a model input to one backend and read its answer
+ * Result images are saved under resultId, prefixed when several models
+ * share one result
  */
-async function resizeImage(imageUri: string): Promise<string> {
-  if (isWeb) {
-    return resizeImageWeb(imageUri);
-  }
-  return resizeImageNative(imageUri);
-}
+async function runModel(
+  backend: DetectionBackend,
+  modelInput: PreprocessedImage,
+  resultId: string,
+  namePrefix: string,
+  options: {
+    minRegionArea: number;
+    onProgress?: (progress: AnalysisProgress) => void;
+    signal?: AbortSignal;
+    retryPolicy: RetryPolicy;
+  },
+): Promise<ModelRun> {
+  const { minRegionArea, signal, retryPolicy } = options;
+  const timer = new StageTimer();
+  const onProgress = (progress: AnalysisProgress) => {
+    timer.track(progress);
+    options.onProgress?.(progress);
+  };
+
+  // Until the backend reports otherwise, time goes to sending the image
+  timer.enter("upload");
+  const remoteResponse = await withRetry(
+    () => backend.predict(modelInput.uri, { onProgress, signal, retryPolicy }),
+    {
+      policy: retryPolicy,
+      signal,
+      onRetry: (info) => onProgress({ stage: "retrying", ...info }),
+    },
+  );
+  onProgress({ stage: "postprocessing" });
+
+  // Backend URLs are temporary; history must outlive them
+  const apiResponse = await persistResultImages(
+    resultId,
+    await unletterboxImages(remoteResponse, modelInput, signal),
+    signal,
+    namePrefix,
+  );
+  const [uploadBytes, ...downloaded] = await Promise.all([
+    measureImageBytes(modelInput.uri),
+    ...RESULT_IMAGE_KINDS.filter(
+      (kind) => apiResponse[kind] && apiResponse[kind] !== remoteResponse[kind],
+    ).map((kind) => measureImageBytes(apiResponse[kind])),
+  ]);
+  const timings = timer.stop(
+    uploadBytes,
+    downloaded.some((bytes) => bytes !== null)
+      ? downloaded.reduce<number>((sum, bytes) => sum + (bytes ?? 0), 0)
+      : null,
+  );
 
-export interface PneumoAPIResponse {
-  originalImage: string;
-  maskImage: string;
-  overlayImage: string;
-  diagnosis: string;
-}
+  console.log(`Diagnosis from ${backend.label}:`, apiResponse.diagnosis);
 
-/**
- * Convert data URL to Blob (for web)
- */
-function dataURLtoBlob(dataURL: string): Blob {
-  const arr = dataURL.split(",");
-  const mime = arr[0].match(/:(.*?);/)?.[1] || "image/png";
-  const bstr = atob(arr[1]);
-  let n = bstr.length;
-  const u8arr = new Uint8Array(n);
-  while (n--) {
-    u8arr[n] = bstr.charCodeAt(n);
-  }
-  return new Blob([u8arr], { type: mime });
-}
-
-async function uploadImageToGradio(imageUri: string): Promise<string> {
-  console.log("Uploading image to Gradio...");
-
-  const formData = new FormData();
-
-  if (isWeb) {
-    // On web, convert data URL to Blob and append as File
-    const blob = imageUri.startsWith("data:")
-      ? dataURLtoBlob(imageUri)
-      : await fetch(imageUri).then((r) => r.blob());
-    const file = new File([blob], "xray.png", { type: "image/png" });
-    formData.append("files", file);
-  } else {
-    // On native, use the RN file object format
-    const imageData = {
-      uri: imageUri,
-      type: "image/png",
-      name: "xray.png",
-    } as any;
-    formData.append("files", imageData);
+  const report = parseDiagnosis(apiResponse.diagnosis);
+  if (report.verdict === "unparseable") {
+    console.warn("Could not parse a verdict from the diagnosis text");
   }
 
-  const uploadResponse = await fetch(`${API_BASE}/gradio_api/upload`, {
-    method: "POST",
-    body: formData,
-  });
-
-  if (!uploadResponse.ok) {
-    const errorText = await uploadResponse.text();
-    console.error("Upload error:", errorText);
-    throw new Error(`Upload failed: ${uploadResponse.status} - ${errorText}`);
+  let boundingBoxes: BoundingBox[] = [];
+  if (apiResponse.maskImage) {
+    try {
+      boundingBoxes = await extractBoundingBoxes(
+        apiResponse.maskImage,
+        minRegionArea,
+        signal,
+      );
+      console.log(`Found ${boundingBoxes.length} mask region(s)`);
+    } catch (maskError) {
+      if (isAbortError(maskError)) throw maskError;
+      // A missing box list should not discard an otherwise valid diagnosis
+      console.warn("Failed to derive bounding boxes from mask:", maskError);
+    }
   }
 
-  const uploadResult = await uploadResponse.json();
-  console.log("Upload result:", uploadResult);
-
-  return uploadResult[0];
+  return { apiResponse, report, boundingBoxes, timings };
 }
 
-async function predictWithGradioAPI(filePath: string): Promise<any> {
-  console.log("Making prediction with Gradio API...");
-
-  const callResponse = await fetch(`${API_BASE}/gradio_api/call/predict`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      data: [
-        {
-          path: filePath,
-          meta: {
-            _type: "gradio.FileData",
-          },
-        },
-      ],
-    }),
-  });
-
-  if (!callResponse.ok) {
-    const errorText = await callResponse.text();
-    throw new Error(
-      `Call predict failed: ${callResponse.status} - ${errorText}`,
-    );
-  }
-
-  const callResult = await callResponse.json();
-  const eventId = callResult.event_id;
-  console.log("Event ID:", eventId);
-
-  console.log("Polling for result...");
-  const resultResponse = await fetch(
-    `${API_BASE}/gradio_api/call/predict/${eventId}`,
+/**
+ * Ask every backend and combine their answers
+ * Fails only when no model answered; failed models are kept as opinions.
+ */
+async function runEnsemble(
+  backends: DetectionBackend[],
+  modelInputs: PreprocessedImage[],
+  strategy: EnsembleStrategy,
+  resultId: string,
+  options: Parameters<typeof runModel>[4],
+): Promise<ModelRun> {
+  const settled = await Promise.allSettled(
+    backends.map((backend, index) =>
+      runModel(
+        backend,
+        modelInputs[index],
+        resultId,
+        `model${index + 1}-`,
+        options,
+      ),
+    ),
   );
-
-  if (!resultResponse.ok) {
-    throw new Error(`Result fetch failed: ${resultResponse.status}`);
-  }
-
-  const resultText = await resultResponse.text();
-  console.log("Raw result:", resultText.substring(0, 200));
-
-  const lines = resultText.split("\n");
-  for (const line of lines) {
-    if (line.startsWith("data: ")) {
-      try {
-        const parsed = JSON.parse(line.slice(6));
-        if (parsed && parsed.output && parsed.output.data) {
-          return { data: parsed.output.data };
-        }
-        if (Array.isArray(parsed)) {
-          return { data: parsed };
-        }
-      } catch (e) {}
+  throwIfAborted(options.signal);
+
+  const opinions: ModelOpinion[] = settled.map((outcome, index) => {
+    const { id, label, endpoint } = backends[index];
+    const backendInfo = { backendId: id, label, endpoint };
+    if (outcome.status === "rejected") {
+      return {
+        ...backendInfo,
+        status: "error",
+        boundingBoxes: [],
+        error: toAnalysisError(outcome.reason).toFailure(),
+      };
     }
-  }
-
-  throw new Error("No valid result data found");
-}
+    return {
+      ...backendInfo,
+      status: VERDICT_STATUS[outcome.value.report.verdict],
+      report: outcome.value.report,
+      apiResponse: outcome.value.apiResponse,
+      boundingBoxes: outcome.value.boundingBoxes,
+    };
+  });
 
-async function predictWithBase64(imageUri: string): Promise<any> {
-  console.log("Trying base64 prediction...");
-
-  let base64: string;
-
-  // If already a data URL (from web resize), use directly
-  if (imageUri.startsWith("data:")) {
-    base64 = imageUri;
-  } else {
-    // Otherwise fetch and convert to base64
-    const response = await fetch(imageUri);
-    const blob = await response.blob();
-
-    base64 = await new Promise<string>((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = () => resolve(reader.result as string);
-      reader.onerror = reject;
-      reader.readAsDataURL(blob);
-    });
+  const firstAnswer = settled.findIndex((o) => o.status === "fulfilled");
+  if (firstAnswer === -1) {
+    throw (settled[0] as PromiseRejectedResult).reason;
   }
 
-  const callResponse = await fetch(`${API_BASE}/gradio_api/call/predict`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      data: [base64],
-    }),
+  const { contentRect } = modelInputs[0];
+  const combined = await combineOpinions(opinions, strategy, {
+    minRegionArea: options.minRegionArea,
+    signal: options.signal,
+    aspectRatio: contentRect.width / contentRect.height,
   });
 
-  if (!callResponse.ok) {
-    const errorText = await callResponse.text();
-    throw new Error(
-      `Base64 call failed: ${callResponse.status} - ${errorText}`,
+  // Show the images of the first model that agrees with the ensemble
+  const representative =
+    opinions.find(
+      (opinion) => opinion.report?.verdict === combined.report.verdict,
+    ) ?? opinions[firstAnswer];
+
+  let apiResponse = representative.apiResponse!;
+  if (combined.mask) {
+    apiResponse = await persistResultImages(
+      resultId,
+      { ...apiResponse, maskImage: combined.mask.uri },
+      options.signal,
     );
   }
 
-  const callResult = await callResponse.json();
-  const eventId = callResult.event_id;
-
-  const resultResponse = await fetch(
-    `${API_BASE}/gradio_api/call/predict/${eventId}`,
-  );
-
-  if (!resultResponse.ok) {
-    throw new Error(`Base64 result fetch failed: ${resultResponse.status}`);
-  }
-
-  const resultText = await resultResponse.text();
-
-  const lines = resultText.split("\n");
-  for (const line of lines) {
-    if (line.startsWith("data: ")) {
-      try {
-        const parsed = JSON.parse(line.slice(6));
-        if (parsed && parsed.output && parsed.output.data) {
-          return { data: parsed.output.data };
-        }
-        if (Array.isArray(parsed)) {
-          return { data: parsed };
-        }
-      } catch (e) {}
-    }
-  }
-
-  throw new Error("No valid base64 result found");
-}
-
-function extractImageUrl(data: any): string {
-  if (!data) return "";
-  if (typeof data === "string") {
-    if (data.startsWith("http") || data.startsWith("data:")) return data;
-    return `${API_BASE}/gradio_api/file=${data}`;
-  }
-  if (data.url) return data.url;
-  if (data.path) return `${API_BASE}/gradio_api/file=${data.path}`;
-  return "";
+  return {
+    apiResponse,
+    report: combined.report,
+    boundingBoxes: combined.mask?.boundingBoxes ?? representative.boundingBoxes,
+    timings: combineStageTimings(
+      settled
+        .filter((o) => o.status === "fulfilled")
+        .map((o) => (o as PromiseFulfilledResult<ModelRun>).value.timings),
+    ),
+    ensemble: {
+      strategy,
+      opinions,
+      disagreement: combined.disagreement,
+    },
+  };
 }
 
+/**
+ * Run pneumothorax detection on an image through the given backend
+ * Defaults to the public Gradio Space when no backend is supplied.
+ * With options.ensemble the image goes to every listed backend and the
+ * answers are combined (see EnsembleStrategy).
+ * An identical model input already analyzed by the same backend and model
+ * version returns the earlier result (fromCache) unless options.skipCache
+ * is set. New results are cached by addToHistory once saved.
+ * Rejects with an AnalysisError on failure, or with an AbortError if
+ * options.signal is aborted mid-analysis.
+ */
 export async function analyzeImage(
   imageUri: string,
-): Promise<{ result: DetectionResult; apiResponse: PneumoAPIResponse }> {
+  options: AnalyzeOptions = {},
+): Promise<AnalyzeOutcome> {
+  const {
+    backend = createBackend(DEFAULT_BACKEND_CONFIG),
+    minRegionArea = DEFAULT_MIN_REGION_AREA,
+    onProgress,
+    signal,
+    skipCache = false,
+    ensemble,
+  } = options;
+  const backends =
+    ensemble && ensemble.backends.length > 1 ? ensemble.backends : [backend];
+  const retryPolicy = resolveRetryPolicy(options.retryPolicy);
   const startTime = Date.now();
+  const id = generateId();
+  // One model input per distinct preprocessing pipeline
+  const inputsByConfig = new Map<string, PreprocessedImage>();
 
   try {
-    console.log("Starting pneumothorax analysis...");
-
-    // Resize image to 256x256 before sending to API
-    const resizedImageUri = await resizeImage(imageUri);
+    console.log(
+      `Starting pneumothorax analysis with ${backends.map((b) => b.label).join(", ")}...`,
+    );
 
-    let prediction: any;
+    onProgress?.({ stage: "preprocessing" });
+    const preprocessStart = Date.now();
+    const modelInputs: PreprocessedImage[] = [];
+    for (const model of backends) {
+      const config = options.preprocessing ?? model.preprocessing;
+      const configKey = JSON.stringify(config);
+      if (!inputsByConfig.has(configKey)) {
+        inputsByConfig.set(
+          configKey,
+          await prepareImage(imageUri, config, signal),
+        );
+      }
+      modelInputs.push(inputsByConfig.get(configKey)!);
+    }
+    const preprocessed = modelInputs[0];
+    const preprocessMs = Date.now() - preprocessStart;
+    throwIfAborted(signal);
+
+    // Read alongside the prediction; never rejects
+    const modelDescriptions = Promise.all(
+      backends.map((model, index) =>
+        describeModel(model, modelInputs[index].config, signal),
+      ),
+    );
 
-    try {
-      const filePath = await uploadImageToGradio(resizedImageUri);
-      prediction = await predictWithGradioAPI(filePath);
-    } catch (uploadError) {
-      console.log("Upload approach failed, trying base64:", uploadError);
-      prediction = await predictWithBase64(resizedImageUri);
+    if (!skipCache) {
+      // Keyed on the versions the models report now, so this waits for them
+      const cacheKey = resultCacheKey(
+        await modelDescriptions,
+        preprocessed.contentHash,
+        backends.length > 1 ? ensemble!.strategy : undefined,
+      );
+      const cached = cacheKey ? await getCachedResult(cacheKey) : null;
+      if (cached) {
+        console.log("Reusing cached result for identical image");
+        // The earlier result keeps its own copy of the model input
+        await deleteModelInputs(inputsByConfig.values());
+        return { ...cached, fromCache: true };
+      }
     }
 
+    const runOptions = { minRegionArea, onProgress, signal, retryPolicy };
+    const {
+      apiResponse,
+      report,
+      boundingBoxes,
+      ensemble: summary,
+      timings,
+    } = backends.length > 1
+      ? await runEnsemble(
+          backends,
+          modelInputs,
+          ensemble!.strategy,
+          id,
+          runOptions,
+        )
+      : await runModel(backend, preprocessed, id, "", runOptions);
+
+    const provenance = buildProvenance(await modelDescriptions);
     const processingTime = Date.now() - startTime;
-    const data = prediction.data || [];
 
-    const apiResponse: PneumoAPIResponse = {
-      originalImage: extractImageUrl(data[0]),
-      maskImage: extractImageUrl(data[1]),
-      overlayImage: extractImageUrl(data[2]),
-      diagnosis: typeof data[3] === "string" ? data[3] : String(data[3] || ""),
+    const result: DetectionResult = {
+      id,
+      imageUri,
+      timestamp: new Date(),
+      status: VERDICT_STATUS[report.verdict],
+      boundingBoxes,
+      averageConfidence: report.probability ?? 0,
+      processingTime,
+      report,
+      preprocessed: await persistModelInput(id, preprocessed),
+      ensemble: summary,
+      provenance,
+      timings: { preprocessMs, ...timings },
     };
 
-    console.log("Diagnosis:", apiResponse.diagnosis);
-
-    const diagLower = apiResponse.diagnosis.toLowerCase();
-    const hasDetection =
-      diagLower.includes("pneumothorax detected") ||
-      diagLower.includes("positive") ||
-      diagLower.includes("🔴") ||
-      (diagLower.includes("pneumothorax") &&
-        !diagLower.includes("no pneumothorax") &&
-        !diagLower.includes("not detected") &&
-        !diagLower.includes("negative") &&
-        !diagLower.includes("🟢"));
-
-    let confidence = 0;
-    const match = apiResponse.diagnosis.match(/(\d+(?:\.\d+)?)\s*%/);
-    if (match) {
-      confidence = parseFloat(match[1]) / 100;
-    }
-
-    const boundingBoxes: BoundingBox[] = [];
+    // Only the primary model's input is kept with the result
+    await deleteModelInputs(
+      [...inputsByConfig.values()].filter((input) => input !== preprocessed),
+    );
 
-    return {
-      result: {
-        id: generateId(),
-        imageUri,
-        timestamp: new Date(),
-        status: hasDetection ? "detected" : "not_detected",
-        boundingBoxes,
-        averageConfidence: confidence,
-        processingTime,
-      },
-      apiResponse,
-    };
+    return { result, apiResponse, fromCache: false };
   } catch (error) {
+    // Nothing will reference the model input of a discarded analysis
+    await deleteModelInputs(inputsByConfig.values());
+    await deleteResultImages(id);
+    // Cancellation is not a failed analysis; let the caller discard it
+    if (isAbortError(error)) throw error;
     console.error("API error:", error);
-
-    return {
-      result: {
-        id: generateId(),
-        imageUri,
-        timestamp: new Date(),
-        status: "error",
-        boundingBoxes: [],
-        averageConfidence: 0,
-        processingTime: Date.now() - startTime,
-      },
-      apiResponse: {
-        originalImage: "",
-        maskImage: "",
-        overlayImage: "",
-        diagnosis: `Error: ${error instanceof Error ? error.message : "Analysis failed. Please try again."}`,
-      },
-    };
+    throw toAnalysisError(error);
   }
 }
+
+async function deleteModelInputs(
+  inputs: Iterable<PreprocessedImage>,
+): Promise<void> {
+  await Promise.all(
+    [...inputs].map((input) => deletePreprocessedImage(input.uri)),
+  );
+}
+
+/**
+ * Build the DetectionResult recorded when the user saves a failed analysis
+ */
+export function createFailedResult(
+  imageUri: string,
+  failure: AnalysisFailure,
+): DetectionResult {
+  return {
+    id: generateId(),
+    imageUri,
+    timestamp: new Date(),
+    status: "error",
+    boundingBoxes: [],
+    averageConfidence: 0,
+    processingTime: 0,
+    error: failure,
+  };
+}
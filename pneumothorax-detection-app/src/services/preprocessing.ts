@@ -0,0 +1,494 @@
+import * as ImageManipulator from "expo-image-manipulator";
+import * as FileSystem from "expo-file-system/legacy";
+import * as Crypto from "expo-crypto";
+import { Image as RNImage, Platform } from "react-native";
+import { decode as decodePng, encode as encodePng } from "fast-png";
+import {
+  PreprocessedImage,
+  PreprocessingConfig,
+  PreprocessingStep,
+} from "../types";
+import { base64ToBytes, bytesToBase64, throwIfAborted } from "../utils";
+
+const isWeb = Platform.OS === "web";
+
+const PREPROCESSED_DIRECTORY = `${FileSystem.documentDirectory}preprocessed/`;
+const UNLETTERBOXED_DIRECTORY = `${FileSystem.cacheDirectory}unletterboxed/`;
+
+/**
+ * Pipeline used when a backend does not declare its own
+ * Chest films are letterboxed rather than stretched so the model sees
+ * undistorted anatomy
+ */
+export const DEFAULT_PREPROCESSING: PreprocessingConfig = {
+  targetSize: 256,
+  steps: [{ type: "grayscale" }, { type: "letterbox", fill: 0 }],
+};
+
+/**
+ * RGBA pixels, row-major, 8 bits per channel
+ */
+export interface RasterImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+interface PipelineState {
+  raster: RasterImage;
+  contentRect: PreprocessedImage["contentRect"];
+}
+
+/**
+ * Dimensions that fit the source inside a square of targetSize,
+ * preserving aspect ratio; without a targetSize the source size is kept
+ * A smaller image keeps its size unless upscale is set
+ */
+function fitWithin(
+  width: number,
+  height: number,
+  targetSize?: number,
+  upscale = false,
+): { width: number; height: number } {
+  if (!targetSize) return { width, height };
+  const fit = targetSize / Math.max(width, height);
+  const scale = upscale ? fit : Math.min(1, fit);
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+}
+
+/**
+ * Load and scale an image into RGBA pixels using Canvas API (web only)
+ */
+async function loadRasterWeb(
+  imageUri: string,
+  targetSize?: number,
+  upscale?: boolean,
+): Promise<{ raster: RasterImage; sourceWidth: number; sourceHeight: number }> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = "anonymous";
+
+    img.onload = () => {
+      const size = fitWithin(
+        img.naturalWidth,
+        img.naturalHeight,
+        targetSize,
+        upscale,
+      );
+      const canvas = document.createElement("canvas");
+      canvas.width = size.width;
+      canvas.height = size.height;
+
+      const ctx = canvas.getContext("2d");
+      if (!ctx) {
+        reject(new Error("Failed to get canvas context"));
+        return;
+      }
+
+      ctx.drawImage(img, 0, 0, size.width, size.height);
+      const { data } = ctx.getImageData(0, 0, size.width, size.height);
+
+      resolve({
+        raster: { width: size.width, height: size.height, data },
+        sourceWidth: img.naturalWidth,
+        sourceHeight: img.naturalHeight,
+      });
+    };
+
+    img.onerror = () => {
+      reject(new Error("Failed to load image for preprocessing"));
+    };
+
+    img.src = imageUri;
+  });
+}
+
+/**
+ * Expand decoded PNG samples of any layout into 8-bit RGBA
+ */
+function pngToRaster(png: ReturnType<typeof decodePng>): RasterImage {
+  const { width, height, channels, palette } = png;
+  const scale = png.depth === 16 ? 1 / 257 : 1;
+  const data = new Uint8ClampedArray(width * height * 4);
+
+  for (let i = 0; i < width * height; i++) {
+    const o = i * 4;
+    if (palette) {
+      const [r, g, b] = palette[png.data[i]];
+      data[o] = r;
+      data[o + 1] = g;
+      data[o + 2] = b;
+      data[o + 3] = 255;
+      continue;
+    }
+
+    const s = i * channels;
+    if (channels >= 3) {
+      data[o] = png.data[s] * scale;
+      data[o + 1] = png.data[s + 1] * scale;
+      data[o + 2] = png.data[s + 2] * scale;
+      data[o + 3] = channels === 4 ? png.data[s + 3] * scale : 255;
+    } else {
+      const gray = png.data[s] * scale;
+      data[o] = gray;
+      data[o + 1] = gray;
+      data[o + 2] = gray;
+      data[o + 3] = channels === 2 ? png.data[s + 1] * scale : 255;
+    }
+  }
+
+  return { width, height, data };
+}
+
+/**
+ * Load and scale an image into RGBA pixels (native only)
+ * expo-image-manipulator does the resampling; the PNG is decoded in JS
+ */
+async function loadRasterNative(
+  imageUri: string,
+  targetSize?: number,
+  upscale?: boolean,
+): Promise<{ raster: RasterImage; sourceWidth: number; sourceHeight: number }> {
+  let localUri = imageUri;
+  if (imageUri.startsWith("http")) {
+    const target = `${FileSystem.cacheDirectory}raster-${Date.now()}.img`;
+    const download = await FileSystem.downloadAsync(imageUri, target);
+    if (download.status !== 200) {
+      throw new Error(`Image download failed: ${download.status}`);
+    }
+    localUri = download.uri;
+  }
+
+  const source = await RNImage.getSize(localUri);
+  const size = fitWithin(source.width, source.height, targetSize, upscale);
+
+  const scaled = await ImageManipulator.manipulateAsync(
+    localUri,
+    targetSize ? [{ resize: size }] : [],
+    { format: ImageManipulator.SaveFormat.PNG, base64: true },
+  );
+
+  if (!scaled.base64) {
+    throw new Error("Failed to read image pixels");
+  }
+
+  return {
+    raster: pngToRaster(decodePng(base64ToBytes(scaled.base64))),
+    sourceWidth: source.width,
+    sourceHeight: source.height,
+  };
+}
+
+/**
+ * Decode an image into RGBA pixels scaled to fit targetSize, or at its
+ * own size when targetSize is omitted
+ * Smaller images are only enlarged when upscale is set. Also reports the
+ * source dimensions before scaling.
+ */
+export async function loadRaster(
+  imageUri: string,
+  targetSize?: number,
+  upscale?: boolean,
+): Promise<{ raster: RasterImage; sourceWidth: number; sourceHeight: number }> {
+  return isWeb
+    ? loadRasterWeb(imageUri, targetSize, upscale)
+    : loadRasterNative(imageUri, targetSize, upscale);
+}
+
+/**
+ * Replace each pixel with its luma so all three channels are equal
+ */
+export function toGrayscale(raster: RasterImage): RasterImage {
+  const data = new Uint8ClampedArray(raster.data);
+  for (let o = 0; o < data.length; o += 4) {
+    const luma = 0.299 * data[o] + 0.587 * data[o + 1] + 0.114 * data[o + 2];
+    data[o] = luma;
+    data[o + 1] = luma;
+    data[o + 2] = luma;
+  }
+  return { ...raster, data };
+}
+
+/**
+ * Linearly stretch intensities so the clipPercent darkest and brightest
+ * pixels saturate, compensating for washed-out photos of a film
+ */
+export function normalizeContrast(
+  raster: RasterImage,
+  clipPercent: number,
+): RasterImage {
+  const { data } = raster;
+  const pixelCount = data.length / 4;
+  const histogram = new Uint32Array(256);
+  for (let o = 0; o < data.length; o += 4) {
+    const luma = 0.299 * data[o] + 0.587 * data[o + 1] + 0.114 * data[o + 2];
+    histogram[Math.round(luma)]++;
+  }
+
+  const clipCount = (pixelCount * clipPercent) / 100;
+  let low = 0;
+  for (let seen = 0; low < 255; low++) {
+    seen += histogram[low];
+    if (seen > clipCount) break;
+  }
+  let high = 255;
+  for (let seen = 0; high > 0; high--) {
+    seen += histogram[high];
+    if (seen > clipCount) break;
+  }
+
+  // Flat images have no range to stretch
+  if (high <= low) return raster;
+
+  const gain = 255 / (high - low);
+  const output = new Uint8ClampedArray(data.length);
+  for (let o = 0; o < data.length; o += 4) {
+    output[o] = (data[o] - low) * gain;
+    output[o + 1] = (data[o + 1] - low) * gain;
+    output[o + 2] = (data[o + 2] - low) * gain;
+    output[o + 3] = data[o + 3];
+  }
+  return { ...raster, data: output };
+}
+
+/**
+ * Center the image on a square canvas filled with a uniform gray
+ */
+export function letterbox(
+  raster: RasterImage,
+  size: number,
+  fill: number,
+): { raster: RasterImage; offsetX: number; offsetY: number } {
+  const data = new Uint8ClampedArray(size * size * 4);
+  for (let o = 0; o < data.length; o += 4) {
+    data[o] = fill;
+    data[o + 1] = fill;
+    data[o + 2] = fill;
+    data[o + 3] = 255;
+  }
+
+  const offsetX = Math.floor((size - raster.width) / 2);
+  const offsetY = Math.floor((size - raster.height) / 2);
+  for (let y = 0; y < raster.height; y++) {
+    const sourceRow = raster.data.subarray(
+      y * raster.width * 4,
+      (y + 1) * raster.width * 4,
+    );
+    data.set(sourceRow, ((y + offsetY) * size + offsetX) * 4);
+  }
+
+  return { raster: { width: size, height: size, data }, offsetX, offsetY };
+}
+
+/**
+ * Copy out a rectangle of pixels
+ */
+export function cropRaster(
+  raster: RasterImage,
+  rect: { x: number; y: number; width: number; height: number },
+): RasterImage {
+  const data = new Uint8ClampedArray(rect.width * rect.height * 4);
+  for (let y = 0; y < rect.height; y++) {
+    const start = ((y + rect.y) * raster.width + rect.x) * 4;
+    data.set(
+      raster.data.subarray(start, start + rect.width * 4),
+      y * rect.width * 4,
+    );
+  }
+  return { width: rect.width, height: rect.height, data };
+}
+
+function applyStep(
+  state: PipelineState,
+  step: PreprocessingStep,
+  targetSize: number,
+): PipelineState {
+  switch (step.type) {
+    case "grayscale":
+      return { ...state, raster: toGrayscale(state.raster) };
+    case "normalizeContrast":
+      return {
+        ...state,
+        raster: normalizeContrast(state.raster, step.clipPercent),
+      };
+    case "letterbox": {
+      const { raster, offsetX, offsetY } = letterbox(
+        state.raster,
+        targetSize,
+        step.fill,
+      );
+      return {
+        raster,
+        contentRect: {
+          ...state.contentRect,
+          x: state.contentRect.x + offsetX,
+          y: state.contentRect.y + offsetY,
+        },
+      };
+    }
+  }
+}
+
+/**
+ * Encode pixels as a PNG file in the given directory
+ * Web has no file system, so a data URL is returned instead
+ */
+export async function saveRaster(
+  raster: RasterImage,
+  directory: string,
+): Promise<string> {
+  if (isWeb) {
+    const canvas = document.createElement("canvas");
+    canvas.width = raster.width;
+    canvas.height = raster.height;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) {
+      throw new Error("Failed to get canvas context");
+    }
+    const imageData = ctx.createImageData(raster.width, raster.height);
+    imageData.data.set(raster.data);
+    ctx.putImageData(imageData, 0, 0);
+    return canvas.toDataURL("image/png");
+  }
+
+  const png = encodePng({
+    width: raster.width,
+    height: raster.height,
+    data: raster.data,
+    channels: 4,
+    depth: 8,
+  });
+
+  await FileSystem.makeDirectoryAsync(directory, {
+    intermediates: true,
+  });
+  const uri = `${directory}image-${Date.now()}-${Math.random().toString(36).slice(2, 8)}.png`;
+  await FileSystem.writeAsStringAsync(uri, bytesToBase64(png), {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+  return uri;
+}
+
+/**
+ * Prepare an image for a backend
+ * Scales the image to fit config.targetSize without distortion, then runs
+ * the configured steps on the decoded pixels so native and web produce
+ * the same output
+ */
+export async function preprocessImage(
+  imageUri: string,
+  config: PreprocessingConfig = DEFAULT_PREPROCESSING,
+  signal?: AbortSignal,
+): Promise<PreprocessedImage> {
+  throwIfAborted(signal);
+  // Small films fill the model input rather than sitting in a wide letterbox
+  const loaded = await loadRaster(
+    imageUri,
+    config.targetSize,
+    config.upscale ?? true,
+  );
+  throwIfAborted(signal);
+
+  let state: PipelineState = {
+    raster: loaded.raster,
+    contentRect: {
+      x: 0,
+      y: 0,
+      width: loaded.raster.width,
+      height: loaded.raster.height,
+    },
+  };
+  for (const step of config.steps) {
+    state = applyStep(state, step, config.targetSize);
+  }
+
+  const contentHash = await hashRaster(state.raster);
+  // Kept in app storage, not the cache, so it stays with the result
+  const uri = await saveRaster(state.raster, PREPROCESSED_DIRECTORY);
+
+  return {
+    uri,
+    width: state.raster.width,
+    height: state.raster.height,
+    sourceWidth: loaded.sourceWidth,
+    sourceHeight: loaded.sourceHeight,
+    contentRect: state.contentRect,
+    config,
+    contentHash,
+  };
+}
+
+/**
+ * Crop an image produced from a model input (mask, overlay) back to the
+ * region the source occupied, undoing the letterbox so it lines up with
+ * the original film
+ * The model may answer at another resolution than its input, so the
+ * content rect is scaled to the image. Returns the URI unchanged when the
+ * input had no padding.
+ */
+export async function removeLetterbox(
+  imageUri: string,
+  modelInput: PreprocessedImage,
+  signal?: AbortSignal,
+): Promise<string> {
+  const { contentRect, width, height } = modelInput;
+  if (contentRect.width === width && contentRect.height === height) {
+    return imageUri;
+  }
+
+  const { raster } = await loadRaster(imageUri);
+  throwIfAborted(signal);
+
+  const scaleX = raster.width / width;
+  const scaleY = raster.height / height;
+  const x = Math.round(contentRect.x * scaleX);
+  const y = Math.round(contentRect.y * scaleY);
+  const cropped = cropRaster(raster, {
+    x,
+    y,
+    width: Math.max(
+      1,
+      Math.min(raster.width - x, Math.round(contentRect.width * scaleX)),
+    ),
+    height: Math.max(
+      1,
+      Math.min(raster.height - y, Math.round(contentRect.height * scaleY)),
+    ),
+  });
+  return saveRaster(cropped, UNLETTERBOXED_DIRECTORY);
+}
+
+/**
+ * Hex SHA-256 of a raster's dimensions and pixels
+ * Hashing decoded pixels rather than file bytes makes re-encoded copies of
+ * the same film (e.g. re-exported from the gallery) hash identically
+ */
+export async function hashRaster(raster: RasterImage): Promise<string> {
+  const header = new Uint32Array([raster.width, raster.height]);
+  const bytes = new Uint8Array(header.byteLength + raster.data.byteLength);
+  bytes.set(new Uint8Array(header.buffer), 0);
+  bytes.set(raster.data, header.byteLength);
+
+  const digest = await Crypto.digest(
+    Crypto.CryptoDigestAlgorithm.SHA256,
+    bytes,
+  );
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, "0"),
+  ).join("");
+}
+
+/**
+ * Remove a preprocessed image written by preprocessImage
+ */
+export async function deletePreprocessedImage(uri: string): Promise<void> {
+  if (isWeb || !uri.startsWith(PREPROCESSED_DIRECTORY)) return;
+  try {
+    await FileSystem.deleteAsync(uri, { idempotent: true });
+  } catch (error) {
+    console.warn("Failed to delete preprocessed image:", error);
+  }
+}
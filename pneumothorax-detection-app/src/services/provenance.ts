@@ -0,0 +1,52 @@
+import { Platform } from "react-native";
+import {
+  DetectionBackend,
+  ModelProvenance,
+  PreprocessingConfig,
+  ResultProvenance,
+} from "../types";
+import { APP_VERSION } from "../constants";
+import { isAbortError } from "../utils";
+
+/**
+ * Describe a backend and the model it reports
+ * An unreachable info endpoint leaves the model name and version null
+ * rather than failing the analysis.
+ */
+export async function describeModel(
+  backend: DetectionBackend,
+  preprocessing: PreprocessingConfig,
+  signal?: AbortSignal,
+): Promise<ModelProvenance> {
+  let modelName: string | null = null;
+  let modelVersion: string | null = backend.modelVersion ?? null;
+
+  try {
+    const info = await backend.getModelInfo({ signal });
+    modelName = info.name;
+    modelVersion = info.version ?? modelVersion;
+  } catch (error) {
+    if (!isAbortError(error)) {
+      console.warn(`Could not read model info from ${backend.label}:`, error);
+    }
+  }
+
+  return {
+    backendId: backend.id,
+    backendType: backend.type,
+    label: backend.label,
+    endpoint: backend.endpoint,
+    modelName,
+    modelVersion,
+    preprocessing,
+  };
+}
+
+export function buildProvenance(models: ModelProvenance[]): ResultProvenance {
+  return {
+    models,
+    appVersion: APP_VERSION,
+    platform: `${Platform.OS} ${Platform.Version ?? ""}`.trim(),
+    analyzedAt: new Date().toISOString(),
+  };
+}
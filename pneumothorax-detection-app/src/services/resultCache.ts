@@ -0,0 +1,135 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  DetectionResult,
+  EnsembleStrategy,
+  ModelProvenance,
+  PneumoAPIResponse,
+} from "../types";
+import { resolveResultImages, toStoredResultImages } from "./resultImages";
+
+const CACHE_STORAGE_KEY = "@pneumothorax_app_result_cache";
+// Oldest entries are dropped beyond this; history keeps the full record
+const MAX_CACHE_ENTRIES = 100;
+
+interface CacheEntry {
+  key: string;
+  result: DetectionResult;
+  apiResponse: PneumoAPIResponse;
+  cachedAt: string; // ISO date string
+}
+
+/**
+ * Cache key for a model input on the given models (several for an
+ * ensemble, combined with strategy)
+ * Keyed on the version each model reports, so a redeployed model is
+ * asked again. Null when any model reports no version: its results cannot
+ * be told apart across deployments, so they are not cached.
+ */
+export function resultCacheKey(
+  models: Pick<ModelProvenance, "backendId" | "modelVersion">[],
+  contentHash: string,
+  strategy?: EnsembleStrategy,
+): string | null {
+  if (models.some((model) => !model.modelVersion)) return null;
+  const ids = models.map((model) => model.backendId).join("+");
+  const versions = models.map((model) => model.modelVersion).join("+");
+  return `${ids}${strategy ? `#${strategy}` : ""}|${versions}|${contentHash}`;
+}
+
+/**
+ * Cache key of a finished analysis, or null when it cannot be cached
+ * (failed, or recorded without provenance)
+ */
+export function resultCacheKeyFor(result: DetectionResult): string | null {
+  if (!result.preprocessed || !result.provenance) return null;
+  return resultCacheKey(
+    result.provenance.models,
+    result.preprocessed.contentHash,
+    result.ensemble?.strategy,
+  );
+}
+
+async function loadEntries(): Promise<CacheEntry[]> {
+  try {
+    const stored = await AsyncStorage.getItem(CACHE_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as CacheEntry[]) : [];
+  } catch (error) {
+    console.warn("Failed to load result cache:", error);
+    return [];
+  }
+}
+
+// Batch runs finish analyses concurrently, so writes are applied in order
+let pendingWrite: Promise<void> = Promise.resolve();
+
+function updateEntries(
+  update: (entries: CacheEntry[]) => CacheEntry[],
+): Promise<void> {
+  const write = pendingWrite.then(async () => {
+    const entries = await loadEntries();
+    await AsyncStorage.setItem(
+      CACHE_STORAGE_KEY,
+      JSON.stringify(update(entries)),
+    );
+  });
+  pendingWrite = write.catch(() => {});
+  return write;
+}
+
+/**
+ * Look up a previous result for the same input and backend
+ */
+export async function getCachedResult(
+  key: string,
+): Promise<{ result: DetectionResult; apiResponse: PneumoAPIResponse } | null> {
+  const entry = (await loadEntries()).find((e) => e.key === key);
+  if (!entry) return null;
+
+  const { apiResponse } = await resolveResultImages(entry);
+  const result = await resolveResultImages(entry.result);
+  return {
+    // Dates come back from JSON as strings
+    result: { ...result, timestamp: new Date(result.timestamp) },
+    apiResponse: apiResponse!,
+  };
+}
+
+/**
+ * Remember a completed analysis, replacing any older entry for the key
+ * Call only once the result is saved in history; a cached result is
+ * returned as an existing history entry
+ */
+export async function cacheResult(
+  key: string,
+  result: DetectionResult,
+  apiResponse: PneumoAPIResponse,
+): Promise<void> {
+  // Web object URLs are stored as their IndexedDB references
+  const entry: CacheEntry = await toStoredResultImages({
+    key,
+    result: await toStoredResultImages(result),
+    apiResponse,
+    cachedAt: new Date().toISOString(),
+  });
+  await updateEntries((entries) =>
+    [entry, ...entries.filter((e) => e.key !== key)].slice(
+      0,
+      MAX_CACHE_ENTRIES,
+    ),
+  );
+}
+
+/**
+ * Drop cached results that belong to deleted history items
+ * A cached result is only offered while its files still exist
+ */
+export async function evictCachedResults(resultIds: string[]): Promise<void> {
+  const ids = new Set(resultIds);
+  await updateEntries((entries) =>
+    entries.filter((e) => !ids.has(e.result.id)),
+  );
+}
+
+export async function clearResultCache(): Promise<void> {
+  await updateEntries(() => []);
+}
@@ -0,0 +1,484 @@
+import * as FileSystem from "expo-file-system/legacy";
+import * as ImageManipulator from "expo-image-manipulator";
+import { Platform } from "react-native";
+import {
+  EnsembleSummary,
+  HistoryItem,
+  PneumoAPIResponse,
+  PreprocessedImage,
+  ResultImageKind,
+} from "../types";
+import { base64ToBytes, bytesToBase64, isAbortError } from "../utils";
+import { QUEUE_IMAGE_PREFIX } from "./analysisQueue";
+import { ensureOk, fetchWithTimeout, HttpError } from "./http";
+import {
+  deleteImages,
+  isStoredImageRef,
+  listStoredImages,
+  resolveImageRef,
+  storeImage,
+  toImageRef,
+} from "./webImageStore";
+
+const isWeb = Platform.OS === "web";
+
+// One folder per result, so deleting a result is a single call
+const RESULT_IMAGE_DIRECTORY = `${FileSystem.documentDirectory}results/`;
+const DOWNLOAD_TIMEOUT_MS = 30000;
+const THUMBNAIL_WIDTH = 160;
+// In-flight analyses write their images before the result reaches history
+const ORPHAN_MIN_AGE_MS = 60 * 60 * 1000;
+
+export const RESULT_IMAGE_KINDS: ResultImageKind[] = [
+  "originalImage",
+  "maskImage",
+  "overlayImage",
+];
+
+const EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+};
+
+/**
+ * Whether an image URI already lives in storage the app controls
+ * On web that is an IndexedDB blob, shown through its object URL
+ */
+export function isPersistedImage(uri: string): boolean {
+  return isWeb
+    ? isStoredImageRef(toImageRef(uri))
+    : uri.startsWith(RESULT_IMAGE_DIRECTORY);
+}
+
+// Statuses that mean the server deleted the file; anything else may recover
+const GONE_STATUSES = [404, 410];
+
+function isGoneError(error: unknown): boolean {
+  return error instanceof HttpError && GONE_STATUSES.includes(error.status);
+}
+
+function isRemoteImage(uri: string): boolean {
+  return /^https?:\/\//.test(uri);
+}
+
+function extensionFor(mimeType: string | null, uri: string): string {
+  const fromMime = mimeType && EXTENSIONS[mimeType.split(";")[0].trim()];
+  if (fromMime) return fromMime;
+  const fromPath = uri.split("?")[0].split(".").pop()?.toLowerCase();
+  return fromPath && /^(png|jpe?g|webp)$/.test(fromPath) ? fromPath : "png";
+}
+
+async function writeBytes(target: string, bytes: Uint8Array): Promise<void> {
+  await FileSystem.writeAsStringAsync(target, bytesToBase64(bytes), {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+}
+
+/**
+ * Copy one image of a result into app storage as `name`
+ * Rejects with an HttpError when the server no longer has the file
+ */
+async function persistImage(
+  uri: string,
+  resultId: string,
+  name: string,
+  signal?: AbortSignal,
+): Promise<string> {
+  if (isWeb) {
+    let response: Response;
+    if (isRemoteImage(uri)) {
+      response = await fetchWithTimeout(uri, {
+        signal,
+        timeoutMs: DOWNLOAD_TIMEOUT_MS,
+      });
+      await ensureOk(response, "Download image");
+    } else {
+      response = await fetch(uri, { signal });
+    }
+    return storeImage(`${resultId}/${name}`, await response.blob());
+  }
+
+  const directory = `${RESULT_IMAGE_DIRECTORY}${resultId}/`;
+  await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+
+  if (uri.startsWith("data:")) {
+    const mimeType = uri.slice(5, uri.indexOf(";"));
+    const target = `${directory}${name}.${extensionFor(mimeType, uri)}`;
+    await writeBytes(target, base64ToBytes(uri));
+    return target;
+  }
+
+  if (isRemoteImage(uri)) {
+    const response = await fetchWithTimeout(uri, {
+      signal,
+      timeoutMs: DOWNLOAD_TIMEOUT_MS,
+    });
+    await ensureOk(response, "Download image");
+    const mimeType = response.headers.get("Content-Type");
+    const target = `${directory}${name}.${extensionFor(mimeType, uri)}`;
+    await writeBytes(target, new Uint8Array(await response.arrayBuffer()));
+    return target;
+  }
+
+  const target = `${directory}${name}.${extensionFor(null, uri)}`;
+  await FileSystem.copyAsync({ from: uri, to: target });
+  return target;
+}
+
+/**
+ * Size in bytes of a stored image, or null when it cannot be measured
+ * (e.g. remote URLs)
+ */
+export async function measureImageBytes(uri: string): Promise<number | null> {
+  if (uri.startsWith("data:")) {
+    const payload = uri.slice(uri.indexOf(",") + 1);
+    const padding = payload.endsWith("==") ? 2 : payload.endsWith("=") ? 1 : 0;
+    return (payload.length * 3) / 4 - padding;
+  }
+  if (isRemoteImage(uri)) return null;
+
+  try {
+    if (isWeb) {
+      // Object URLs of stored images are read back from memory
+      if (!uri.startsWith("blob:")) return null;
+      return (await (await fetch(uri)).blob()).size;
+    }
+    const info = await FileSystem.getInfoAsync(uri);
+    return info.exists ? info.size : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Download the original, mask and overlay of a prediction into app storage
+ * Backend URLs (e.g. Gradio temp files) expire when the server restarts.
+ * An image that cannot be saved keeps its remote URL so the migration can
+ * try again later.
+ */
+export async function persistResultImages(
+  resultId: string,
+  apiResponse: PneumoAPIResponse,
+  signal?: AbortSignal,
+  namePrefix = "",
+): Promise<PneumoAPIResponse> {
+  const persisted = { ...apiResponse };
+
+  await Promise.all(
+    RESULT_IMAGE_KINDS.map(async (kind) => {
+      const uri = apiResponse[kind];
+      if (!uri || isPersistedImage(uri)) return;
+      try {
+        persisted[kind] = await persistImage(
+          uri,
+          resultId,
+          `${namePrefix}${kind}`,
+          signal,
+        );
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        console.warn(`Failed to save ${kind} locally:`, error);
+      }
+    }),
+  );
+
+  return persisted;
+}
+
+async function createThumbnail(
+  imageUri: string,
+  resultId: string,
+): Promise<string> {
+  const resized = await ImageManipulator.manipulateAsync(
+    imageUri,
+    [{ resize: { width: THUMBNAIL_WIDTH } }],
+    {
+      compress: 0.7,
+      format: ImageManipulator.SaveFormat.JPEG,
+    },
+  );
+  if (isWeb) return persistImage(resized.uri, resultId, "thumbnail");
+
+  const target = `${RESULT_IMAGE_DIRECTORY}${resultId}/thumbnail.jpg`;
+  await FileSystem.moveAsync({ from: resized.uri, to: target });
+  return target;
+}
+
+/**
+ * Copy an analyzed image into app storage and generate its thumbnail
+ * Picker and camera images live in caches the OS may purge. On web both
+ * go to IndexedDB and object URLs are returned for display.
+ */
+export async function persistSourceImage(
+  resultId: string,
+  imageUri: string,
+): Promise<{ imageUri: string; thumbnailUri: string }> {
+  const managedUri = await persistImage(imageUri, resultId, "source");
+
+  return {
+    imageUri: managedUri,
+    thumbnailUri: await createThumbnail(managedUri, resultId),
+  };
+}
+
+/**
+ * Copy of a model input whose image lives with the result's images
+ * Native already writes it to app storage; on web it is a data URL,
+ * too large to keep inline in history, so it moves to IndexedDB. When
+ * that fails the input is returned unchanged for the migration to retry.
+ */
+export async function persistModelInput(
+  resultId: string,
+  preprocessed: PreprocessedImage,
+): Promise<PreprocessedImage> {
+  if (!isWeb || !preprocessed.uri.startsWith("data:")) return preprocessed;
+  try {
+    return {
+      ...preprocessed,
+      uri: await persistImage(preprocessed.uri, resultId, "modelInput"),
+    };
+  } catch (error) {
+    console.warn("Failed to save model input locally:", error);
+    return preprocessed;
+  }
+}
+
+/**
+ * Display URI for a stored image (web references become object URLs)
+ */
+export async function resolveStoredImage(uri: string): Promise<string> {
+  if (!isWeb || !isStoredImageRef(uri)) return uri;
+  try {
+    return await resolveImageRef(uri);
+  } catch (error) {
+    console.warn("Failed to read stored image:", error);
+    return "";
+  }
+}
+
+/**
+ * URI to persist for an image returned by persistImage or
+ * resolveStoredImage
+ */
+export function toStoredImage(uri: string): string {
+  return isWeb ? toImageRef(uri) : uri;
+}
+
+interface ResultImageFields {
+  apiResponse?: PneumoAPIResponse;
+  ensemble?: EnsembleSummary;
+  preprocessed?: PreprocessedImage;
+}
+
+async function mapResultImages<T extends ResultImageFields>(
+  record: T,
+  map: (uri: string) => string | Promise<string>,
+): Promise<T> {
+  const mapResponse = async (apiResponse?: PneumoAPIResponse) => {
+    if (!apiResponse) return apiResponse;
+    const mapped = { ...apiResponse };
+    for (const kind of RESULT_IMAGE_KINDS) {
+      if (mapped[kind]) mapped[kind] = await map(mapped[kind]);
+    }
+    return mapped;
+  };
+
+  return {
+    ...record,
+    apiResponse: await mapResponse(record.apiResponse),
+    preprocessed: record.preprocessed && {
+      ...record.preprocessed,
+      uri: await map(record.preprocessed.uri),
+    },
+    ensemble: record.ensemble && {
+      ...record.ensemble,
+      opinions: await Promise.all(
+        record.ensemble.opinions.map(async (opinion) => ({
+          ...opinion,
+          apiResponse: await mapResponse(opinion.apiResponse),
+        })),
+      ),
+    },
+  };
+}
+
+/**
+ * Copy of a result with its images (including each model's in an
+ * ensemble, and the model input) given as the URIs to persist
+ */
+export async function toStoredResultImages<T extends ResultImageFields>(
+  record: T,
+): Promise<T> {
+  return isWeb ? mapResultImages(record, toImageRef) : record;
+}
+
+/**
+ * Copy of a stored result with its images given as display URIs
+ */
+export async function resolveResultImages<T extends ResultImageFields>(
+  record: T,
+): Promise<T> {
+  return isWeb ? mapResultImages(record, resolveStoredImage) : record;
+}
+
+/**
+ * Remove the stored images of a result
+ */
+export async function deleteResultImages(resultId: string): Promise<void> {
+  try {
+    if (isWeb) {
+      await deleteImages(`${resultId}/`);
+      return;
+    }
+    await FileSystem.deleteAsync(`${RESULT_IMAGE_DIRECTORY}${resultId}/`, {
+      idempotent: true,
+    });
+  } catch (error) {
+    console.warn("Failed to delete result images:", error);
+  }
+}
+
+/**
+ * Delete stored images that no history item references
+ * Catches files left behind by crashes or failed deletes. Images saved
+ * within the last hour are kept, as in-flight analyses write them before
+ * the result reaches history.
+ */
+export async function cleanupOrphanedImages(liveIds: string[]): Promise<void> {
+  const live = new Set(liveIds);
+
+  try {
+    if (isWeb) {
+      const images = (await listStoredImages())
+        // Queued jobs own their images until they reach history
+        .filter(({ key }) => !key.startsWith(QUEUE_IMAGE_PREFIX))
+        .map(({ key, storedAt }) => ({ id: key.split("/")[0], storedAt }));
+      // A result is kept while any of its images is recent
+      const recentIds = new Set(
+        images
+          .filter(({ storedAt }) => Date.now() - storedAt < ORPHAN_MIN_AGE_MS)
+          .map(({ id }) => id),
+      );
+      const orphanIds = new Set(
+        images
+          .map(({ id }) => id)
+          .filter((id) => !live.has(id) && !recentIds.has(id)),
+      );
+      await Promise.all([...orphanIds].map((id) => deleteImages(`${id}/`)));
+      return;
+    }
+
+    const names = await FileSystem.readDirectoryAsync(
+      RESULT_IMAGE_DIRECTORY,
+    ).catch(() => [] as string[]);
+    for (const name of names) {
+      if (live.has(name)) continue;
+      const directory = `${RESULT_IMAGE_DIRECTORY}${name}/`;
+      const info = await FileSystem.getInfoAsync(directory);
+      // modificationTime is in seconds
+      const ageMs = info.exists ? Date.now() - info.modificationTime * 1000 : 0;
+      if (ageMs >= ORPHAN_MIN_AGE_MS) {
+        await FileSystem.deleteAsync(directory, { idempotent: true });
+      }
+    }
+  } catch (error) {
+    console.warn("Failed to clean up stored images:", error);
+  }
+}
+
+/**
+ * Move images of history saved before local storage into app storage
+ * On web, images, thumbnails and model inputs inlined as data URLs move
+ * to IndexedDB.
+ * Remote images the server no longer has (404 or 410) are cleared and
+ * listed in unavailableImages; server errors, rate limits and network
+ * failures are left for the next launch. Source
+ * images still on the device are copied and given a thumbnail.
+ * Returns only the items that changed.
+ */
+export async function migrateHistoryImages(
+  items: HistoryItem[],
+): Promise<HistoryItem[]> {
+  const changed: HistoryItem[] = [];
+
+  // One item at a time to avoid flooding the Space on first launch
+  for (const item of items) {
+    let migrated = item;
+
+    if (item.imageUri && !isPersistedImage(item.imageUri)) {
+      try {
+        migrated = {
+          ...migrated,
+          ...(await persistSourceImage(item.id, item.imageUri)),
+        };
+      } catch (error) {
+        // The OS may already have purged it; the entry keeps the old path
+        console.warn(`Could not copy source image of ${item.id}:`, error);
+      }
+    } else if (isWeb && item.thumbnailUri.startsWith("data:")) {
+      try {
+        migrated = {
+          ...migrated,
+          thumbnailUri: await persistImage(
+            item.thumbnailUri,
+            item.id,
+            "thumbnail",
+          ),
+        };
+      } catch (error) {
+        console.warn(`Could not move thumbnail of ${item.id}:`, error);
+      }
+    }
+
+    if (item.preprocessed) {
+      const preprocessed = await persistModelInput(item.id, item.preprocessed);
+      if (preprocessed !== item.preprocessed) {
+        migrated = { ...migrated, preprocessed };
+      }
+    }
+
+    // Earlier web builds inlined images as data URLs in the history entry
+    const pendingKinds = RESULT_IMAGE_KINDS.filter((kind) => {
+      const uri = item.apiResponse?.[kind] ?? "";
+      return isRemoteImage(uri) || (isWeb && uri.startsWith("data:"));
+    });
+    if (!item.apiResponse || !pendingKinds.length) {
+      if (migrated !== item) changed.push(migrated);
+      continue;
+    }
+
+    const apiResponse = { ...item.apiResponse };
+    const unavailable = new Set(item.unavailableImages ?? []);
+    let updated = migrated !== item;
+
+    for (const kind of pendingKinds) {
+      try {
+        apiResponse[kind] = await persistImage(
+          apiResponse[kind],
+          item.id,
+          kind,
+        );
+        updated = true;
+      } catch (error) {
+        if (isGoneError(error)) {
+          apiResponse[kind] = "";
+          unavailable.add(kind);
+          updated = true;
+        } else {
+          console.warn(`Could not migrate ${kind} of ${item.id}:`, error);
+        }
+      }
+    }
+
+    if (updated) {
+      changed.push({
+        ...migrated,
+        apiResponse,
+        unavailableImages: unavailable.size ? [...unavailable] : undefined,
+      });
+    }
+  }
+
+  return changed;
+}
@@ -0,0 +1,108 @@
+import { RetryPolicy } from "../types";
+import { abortableDelay, isAbortError } from "../utils";
+import { HttpError, isNetworkError, isTimeoutError } from "./http";
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 4,
+  requestTimeoutMs: 30_000,
+  streamIdleTimeoutMs: 60_000,
+  baseDelayMs: 1_000,
+  maxDelayMs: 15_000,
+  jitter: 0.5,
+  wakeUpTimeoutMs: 180_000,
+  wakeUpPollMs: 5_000,
+};
+
+export function resolveRetryPolicy(
+  overrides?: Partial<RetryPolicy>,
+): RetryPolicy {
+  return { ...DEFAULT_RETRY_POLICY, ...overrides };
+}
+
+/**
+ * Transient failures worth another attempt: 5xx, 429, timeouts and
+ * network errors
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (isAbortError(error)) return false;
+  if (error instanceof HttpError) {
+    return error.status >= 500 || error.status === 429;
+  }
+  if (isTimeoutError(error)) return true;
+  return isNetworkError(error);
+}
+
+/**
+ * Short reason shown to the user while waiting to retry
+ */
+export function describeRetryReason(error: unknown): string {
+  if (error instanceof HttpError) {
+    if (error.status === 429) return "Server is rate limiting requests";
+    return `Server returned ${error.status}`;
+  }
+  if (isTimeoutError(error)) return "Request timed out";
+  if (isNetworkError(error)) return "Network unavailable";
+  return error instanceof Error ? error.message : "Request failed";
+}
+
+/**
+ * Exponential backoff for the given 1-based attempt, with jitter applied
+ * as a random reduction of up to `jitter` of the delay
+ */
+export function computeBackoffDelay(
+  attempt: number,
+  policy: RetryPolicy,
+): number {
+  const exponential = policy.baseDelayMs * Math.pow(2, attempt - 1);
+  const capped = Math.min(exponential, policy.maxDelayMs);
+  return Math.round(capped * (1 - policy.jitter * Math.random()));
+}
+
+export interface RetryAttemptInfo {
+  attempt: number; // the attempt about to start
+  maxAttempts: number;
+  reason: string;
+  delayMs: number;
+}
+
+interface RetryOptions {
+  policy: RetryPolicy;
+  signal?: AbortSignal;
+  onRetry?: (info: RetryAttemptInfo) => void;
+}
+
+/**
+ * Run a task, retrying transient failures with exponential backoff
+ */
+export async function withRetry<T>(
+  task: (attempt: number) => Promise<T>,
+  { policy, signal, onRetry }: RetryOptions,
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task(attempt);
+    } catch (error) {
+      if (attempt >= policy.maxAttempts || !isRetryableError(error)) {
+        throw error;
+      }
+
+      const retryAfter = error instanceof HttpError ? error.retryAfterMs : null;
+      const delayMs = Math.min(
+        retryAfter ?? computeBackoffDelay(attempt, policy),
+        policy.maxDelayMs,
+      );
+
+      console.log(
+        `Attempt ${attempt} failed, retrying in ${delayMs}ms:`,
+        error,
+      );
+      onRetry?.({
+        attempt: attempt + 1,
+        maxAttempts: policy.maxAttempts,
+        reason: describeRetryReason(error),
+        delayMs,
+      });
+      await abortableDelay(delayMs, signal);
+    }
+  }
+}
@@ -0,0 +1,126 @@
+import { AnalysisProgress, StageTimings } from "../types";
+
+type TimedStage = "upload" | "queue" | "inference" | "download";
+
+// Progress stages a backend reports, by the stage they are timed under
+const TIMED_STAGES: Partial<Record<AnalysisProgress["stage"], TimedStage>> = {
+  waking: "queue",
+  uploading: "upload",
+  queued: "queue",
+  processing: "inference",
+  postprocessing: "download",
+};
+
+export type ModelStageTimings = Omit<StageTimings, "preprocessMs">;
+
+/**
+ * Splits one model's round trip into stages from its progress events
+ * A retry stays in the stage that failed until the backend reports the
+ * next one.
+ */
+export class StageTimer {
+  private durations: Record<TimedStage, number> = {
+    upload: 0,
+    queue: 0,
+    inference: 0,
+    download: 0,
+  };
+  private current: TimedStage | null = null;
+  private enteredAt = 0;
+
+  enter(stage: TimedStage | null): void {
+    const now = Date.now();
+    if (this.current) this.durations[this.current] += now - this.enteredAt;
+    this.current = stage;
+    this.enteredAt = now;
+  }
+
+  track(progress: AnalysisProgress): void {
+    const stage = TIMED_STAGES[progress.stage];
+    if (stage && stage !== this.current) this.enter(stage);
+  }
+
+  stop(
+    uploadBytes: number | null,
+    downloadBytes: number | null,
+  ): ModelStageTimings {
+    this.enter(null);
+    return {
+      uploadMs: this.durations.upload,
+      queueMs: this.durations.queue,
+      inferenceMs: this.durations.inference,
+      downloadMs: this.durations.download,
+      uploadBytes,
+      downloadBytes,
+    };
+  }
+}
+
+function sumBytes(values: (number | null)[]): number | null {
+  const known = values.filter((v): v is number => v !== null);
+  return known.length ? known.reduce((sum, v) => sum + v, 0) : null;
+}
+
+/**
+ * Timings of models that ran side by side
+ * Each stage takes the slowest model, since that is what the user waited
+ * for; payload sizes add up.
+ */
+export function combineStageTimings(
+  timings: ModelStageTimings[],
+): ModelStageTimings {
+  const slowest = (pick: (t: ModelStageTimings) => number) =>
+    Math.max(0, ...timings.map(pick));
+  return {
+    uploadMs: slowest((t) => t.uploadMs),
+    queueMs: slowest((t) => t.queueMs),
+    inferenceMs: slowest((t) => t.inferenceMs),
+    downloadMs: slowest((t) => t.downloadMs),
+    uploadBytes: sumBytes(timings.map((t) => t.uploadBytes)),
+    downloadBytes: sumBytes(timings.map((t) => t.downloadBytes)),
+  };
+}
+
+export interface TimingSummary {
+  count: number; // analyses with recorded timings
+  // Medians in milliseconds
+  deviceMs: number; // preprocessing on the phone
+  networkMs: number; // upload and download
+  queueMs: number;
+  inferenceMs: number;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Median time per stage over history, or null when nothing was timed
+ * Medians keep one stalled analysis from dominating the picture
+ */
+export function summarizeTimings(timed: StageTimings[]): TimingSummary | null {
+  if (!timed.length) return null;
+
+  return {
+    count: timed.length,
+    deviceMs: median(timed.map((t) => t.preprocessMs)),
+    networkMs: median(timed.map((t) => t.uploadMs + t.downloadMs)),
+    queueMs: median(timed.map((t) => t.queueMs)),
+    inferenceMs: median(timed.map((t) => t.inferenceMs)),
+  };
+}
+
+export function formatDuration(ms: number): string {
+  return ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+export function formatBytes(bytes: number | null): string {
+  if (bytes === null) return "Not measured";
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+}
@@ -0,0 +1,147 @@
+/**
+ * IndexedDB-backed image storage for the web build
+ * Full-size images are too large for AsyncStorage (localStorage), so history
+ * stores an `idb:` reference and the blob is resolved to an object URL when
+ * history is loaded.
+ */
+
+const DB_NAME = "pneumothorax-images";
+const STORE_NAME = "images";
+const REF_PREFIX = "idb:";
+
+// Object URLs handed out this session, in both directions
+const urlsByRef = new Map<string, string>();
+const refsByUrl = new Map<string, string>();
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry after a failed open
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+function runRequest<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  return openDatabase().then(
+    (db) =>
+      new Promise<T>((resolve, reject) => {
+        const request = operation(
+          db.transaction(STORE_NAME, mode).objectStore(STORE_NAME),
+        );
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      }),
+  );
+}
+
+export function isStoredImageRef(uri: string): boolean {
+  return uri.startsWith(REF_PREFIX);
+}
+
+function remember(ref: string, blob: Blob): string {
+  const url = URL.createObjectURL(blob);
+  urlsByRef.set(ref, url);
+  refsByUrl.set(url, ref);
+  return url;
+}
+
+/**
+ * Save a blob and return an object URL for display this session
+ * Stored as a File so its lastModified records when it was saved
+ */
+export async function storeImage(key: string, blob: Blob): Promise<string> {
+  const file = new File([blob], key, { type: blob.type });
+  await runRequest("readwrite", (store) => store.put(file, key));
+  return remember(`${REF_PREFIX}${key}`, blob);
+}
+
+/**
+ * Object URL for a stored reference, or "" when the blob is gone
+ */
+export async function resolveImageRef(ref: string): Promise<string> {
+  const known = urlsByRef.get(ref);
+  if (known) return known;
+
+  const blob = await runRequest<Blob | undefined>("readonly", (store) =>
+    store.get(ref.slice(REF_PREFIX.length)),
+  );
+  return blob ? remember(ref, blob) : "";
+}
+
+/**
+ * Reference to persist for a URI returned by storeImage or resolveImageRef
+ * Other URIs are returned unchanged
+ */
+export function toImageRef(uri: string): string {
+  return refsByUrl.get(uri) ?? uri;
+}
+
+export async function listImageKeys(): Promise<string[]> {
+  const keys = await runRequest("readonly", (store) => store.getAllKeys());
+  return keys.map(String);
+}
+
+/**
+ * Every stored image with the time it was saved (0 when stored before
+ * that was recorded)
+ */
+export async function listStoredImages(): Promise<
+  { key: string; storedAt: number }[]
+> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const images: { key: string; storedAt: number }[] = [];
+    const request = db
+      .transaction(STORE_NAME, "readonly")
+      .objectStore(STORE_NAME)
+      .openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve(images);
+        return;
+      }
+      const value: unknown = cursor.value;
+      images.push({
+        key: String(cursor.key),
+        storedAt: value instanceof File ? value.lastModified : 0,
+      });
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Delete every stored image whose key starts with the prefix
+ */
+export async function deleteImages(prefix: string): Promise<void> {
+  const keys = (await listImageKeys()).filter((key) => key.startsWith(prefix));
+  await Promise.all(
+    keys.map((key) => runRequest("readwrite", (store) => store.delete(key))),
+  );
+
+  for (const key of keys) {
+    const url = urlsByRef.get(`${REF_PREFIX}${key}`);
+    if (url) {
+      URL.revokeObjectURL(url);
+      refsByUrl.delete(url);
+      urlsByRef.delete(`${REF_PREFIX}${key}`);
+    }
+  }
+}
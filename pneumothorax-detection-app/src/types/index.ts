@@ -5,6 +5,60 @@ export interface BoundingBox {
   width: number; // percentage 0-100
   height: number; // percentage 0-100
   confidence: number; // 0-1
+  area?: number; // percentage of image area covered by the region
+}
+
+/**
+ * Outcome stated by the model's diagnosis text
+ * "unparseable" means the text could not be classified with confidence
+ */
+export type DiagnosisVerdict = "positive" | "negative" | "unparseable";
+
+export type DiagnosisSide = "left" | "right" | "bilateral";
+
+/**
+ * Structured form of the markdown diagnosis returned by the model
+ */
+export interface DiagnosisReport {
+  verdict: DiagnosisVerdict;
+  probability: number | null; // P(pneumothorax), 0-1; null when not stated
+  side: DiagnosisSide | null;
+  notes: string[];
+  rawMarkdown: string;
+}
+
+/**
+ * Category of analysis failure, each with its own recovery actions
+ */
+export type AnalysisErrorKind =
+  | "network"
+  | "upload_rejected"
+  | "model_error"
+  | "parse_error"
+  | "invalid_image";
+
+/**
+ * Serializable description of a failed analysis
+ */
+export interface AnalysisFailure {
+  kind: AnalysisErrorKind;
+  message: string; // user-facing summary
+  detail?: string; // underlying error text, e.g. the server's response
+}
+
+/**
+ * Where the time of an analysis went, in milliseconds
+ * A stage a backend does not report separately is counted in the next one
+ * it does (a REST request's upload is counted as inference)
+ */
+export interface StageTimings {
+  preprocessMs: number;
+  uploadMs: number;
+  queueMs: number; // server queue, cold start and retry backoff
+  inferenceMs: number;
+  downloadMs: number; // saving the output images locally
+  uploadBytes: number | null; // model input sent to the backend
+  downloadBytes: number | null; // output images fetched from the backend
 }
 
 /**
@@ -15,10 +69,18 @@ export interface DetectionResult {
   id: string;
   imageUri: string;
   timestamp: Date;
-  status: "detected" | "not_detected" | "error";
+  status: "detected" | "not_detected" | "inconclusive" | "error";
   boundingBoxes: BoundingBox[];
   averageConfidence: number;
   processingTime: number; // milliseconds
+  report?: DiagnosisReport;
+  error?: AnalysisFailure; // set only when status is "error"
+  preprocessed?: PreprocessedImage; // exactly what was sent to the model
+  dicom?: DicomMetadata; // set when the image was imported from a DICOM file
+  notes?: string; // free-text clinician notes
+  ensemble?: EnsembleSummary; // set when several models were consulted
+  provenance?: ResultProvenance; // missing on results saved before it was recorded
+  timings?: StageTimings; // for ensembles, the slowest model per stage
 }
 
 /**
@@ -34,6 +96,72 @@ export interface HistoryItem {
   averageConfidence: number;
   boundingBoxes: BoundingBox[];
   apiResponse?: PneumoAPIResponse; // Include API response with mask and overlay images
+  status?: DetectionResult["status"];
+  report?: DiagnosisReport;
+  error?: AnalysisFailure;
+  preprocessed?: PreprocessedImage;
+  dicom?: DicomMetadata;
+  notes?: string;
+  ensemble?: EnsembleSummary;
+  provenance?: ResultProvenance;
+  timings?: StageTimings;
+  unavailableImages?: ResultImageKind[]; // expired on the server before they were saved locally
+}
+
+/**
+ * One page of history, newest first
+ */
+export interface HistoryPage {
+  items: HistoryItem[];
+  nextCursor: string | null; // null on the last page
+}
+
+/**
+ * Persistent store of analysis history
+ * Items are stored as given; callers translate image URIs for display
+ */
+export interface HistoryRepository {
+  getPage: (limit: number, cursor?: string | null) => Promise<HistoryPage>;
+  getItem: (id: string) => Promise<HistoryItem | null>;
+  count: () => Promise<number>;
+  listIds: () => Promise<string[]>;
+  duplicateHashes: () => Promise<string[]>; // content hashes analyzed more than once
+  listTimings: () => Promise<StageTimings[]>;
+  insert: (items: HistoryItem[]) => Promise<void>; // existing ids are left alone
+  update: (items: HistoryItem[]) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+/**
+ * Linear VOI window applied when converting DICOM pixel values to 8 bits
+ */
+export interface WindowLevel {
+  center: number;
+  width: number;
+}
+
+/**
+ * Tags kept from an imported DICOM file
+ */
+export interface DicomMetadata {
+  modality?: string;
+  studyDate?: string; // YYYYMMDD as stored in the file
+  studyTime?: string; // HHMMSS.FFFFFF as stored in the file
+  studyId?: string;
+  accessionNumber?: string;
+  // Carried over so exports can be filed back with the source study
+  patientName?: string;
+  patientId?: string;
+  patientBirthDate?: string;
+  patientSex?: string;
+  viewPosition?: string;
+  bodyPartExamined?: string;
+  studyDescription?: string;
+  studyInstanceUid?: string;
+  seriesInstanceUid?: string;
+  sopInstanceUid?: string;
+  window?: WindowLevel; // window used to render the analyzed image
 }
 
 /**
@@ -90,9 +218,11 @@ export interface HistoryCardProps {
   thumbnailUri: string;
   date: Date;
   detectionsCount: number;
+  status?: DetectionResult["status"];
   onPress: () => void;
   onDelete: () => void;
   apiResponse?: PneumoAPIResponse;
+  isDuplicate?: boolean; // another history entry analyzed the same image
 }
 
 /**
@@ -123,3 +253,274 @@ export interface PneumoAPIResponse {
   overlayImage: string; // URL to overlay visualization
   diagnosis: string; // Markdown diagnosis text
 }
+
+/**
+ * Image fields of a PneumoAPIResponse
+ */
+export type ResultImageKind = "originalImage" | "maskImage" | "overlayImage";
+
+/**
+ * Kind of inference service a DetectionBackend talks to
+ */
+export type BackendType = "gradio" | "rest" | "mock" | "demo";
+
+/**
+ * Persisted selection of the detection backend
+ */
+export interface BackendConfig {
+  type: BackendType;
+  baseUrl: string; // Ignored by the mock backend
+  preprocessing?: PreprocessingConfig; // Overrides the backend's default
+}
+
+/**
+ * One operation of the image preprocessing pipeline
+ * Steps run in order on the image after it is scaled to fit the target size
+ */
+export type PreprocessingStep =
+  | { type: "grayscale" }
+  | { type: "normalizeContrast"; clipPercent: number } // percent clipped at each end of the histogram
+  | { type: "letterbox"; fill: number }; // pad to a square of targetSize, fill is 0-255 gray
+
+/**
+ * How a backend wants images prepared before upload
+ */
+export interface PreprocessingConfig {
+  targetSize: number; // longest side after scaling, and the letterbox size
+  upscale?: boolean; // scale smaller images up to targetSize (default true)
+  steps: PreprocessingStep[];
+}
+
+/**
+ * Image produced by the preprocessing pipeline and sent to the model
+ */
+export interface PreprocessedImage {
+  uri: string;
+  width: number;
+  height: number;
+  sourceWidth: number;
+  sourceHeight: number;
+  // Region of the output occupied by the source image, in output pixels
+  contentRect: { x: number; y: number; width: number; height: number };
+  config: PreprocessingConfig;
+  contentHash: string; // SHA-256 of the output pixels, identifies repeat analyses
+}
+
+/**
+ * Point in normalized image coordinates (0-1 from the top-left corner)
+ */
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * Corners of a photographed film or screen, in the order
+ * top-left, top-right, bottom-right, bottom-left
+ */
+export type Quad = [Point, Point, Point, Point];
+
+/**
+ * Outcome of a single image quality check
+ * "fail" blocks the analysis, "warn" only informs the user
+ */
+export type QualityVerdict = "pass" | "warn" | "fail";
+
+export type QualityCriterion =
+  "resolution" | "sharpness" | "glare" | "exposure";
+
+export interface QualityCheck {
+  criterion: QualityCriterion;
+  verdict: QualityVerdict;
+  value: number; // the measured metric, units depend on the criterion
+  message: string;
+}
+
+/**
+ * On-device assessment of whether an image is fit to upload
+ */
+export interface QualityReport {
+  verdict: QualityVerdict; // worst verdict across all checks
+  checks: QualityCheck[];
+}
+
+/**
+ * Progress reported while an analysis is in flight
+ */
+export type AnalysisProgress =
+  | { stage: "preprocessing" }
+  | { stage: "uploading" }
+  | {
+      stage: "queued";
+      position: number | null; // 1-based position in the server queue
+      queueSize: number | null;
+      eta: number | null; // seconds
+    }
+  | { stage: "processing"; progress: number | null; message?: string }
+  | { stage: "postprocessing" }
+  | { stage: "waking"; elapsedMs: number; timeoutMs: number }
+  | {
+      stage: "retrying";
+      attempt: number; // the attempt about to start, 1-based
+      maxAttempts: number;
+      reason: string;
+      delayMs: number;
+    };
+
+/**
+ * Timeouts, backoff and cold-start handling for detection requests
+ */
+export interface RetryPolicy {
+  maxAttempts: number;
+  requestTimeoutMs: number; // per HTTP request
+  streamIdleTimeoutMs: number; // max silence on a result stream
+  baseDelayMs: number;
+  maxDelayMs: number;
+  jitter: number; // 0-1, fraction of each delay that is randomized
+  wakeUpTimeoutMs: number; // how long to wait for a sleeping Space
+  wakeUpPollMs: number;
+}
+
+/**
+ * Per-call options passed from analyzeImage to a backend
+ */
+export interface PredictOptions {
+  onProgress?: (progress: AnalysisProgress) => void;
+  signal?: AbortSignal;
+  retryPolicy?: RetryPolicy;
+}
+
+/**
+ * Adapter around a pneumothorax inference service
+ * Every backend returns the same PneumoAPIResponse shape so analyzeImage
+ * can build a DetectionResult without knowing where the prediction came from
+ */
+export interface DetectionBackend {
+  id: string;
+  type: BackendType;
+  label: string;
+  endpoint: string;
+  modelVersion?: string; // bump to invalidate cached results for this backend
+  offline?: boolean; // predicts on the device, so connectivity is not needed
+  preprocessing: PreprocessingConfig;
+  predict: (
+    imageUri: string,
+    options?: PredictOptions,
+  ) => Promise<PneumoAPIResponse>;
+  getModelInfo: (options?: { signal?: AbortSignal }) => Promise<ModelInfo>;
+}
+
+/**
+ * Bundled chest film that demo mode can analyze without a network
+ */
+export interface DemoSample {
+  id: string;
+  title: string;
+  description: string;
+  expectedVerdict: DiagnosisVerdict;
+}
+
+/**
+ * Model identity reported by a backend's info endpoint
+ */
+export interface ModelInfo {
+  name: string | null;
+  version: string | null; // e.g. the Space's git revision
+}
+
+/**
+ * One model that contributed to a result
+ */
+export interface ModelProvenance {
+  backendId: string;
+  backendType: BackendType;
+  label: string;
+  endpoint: string;
+  modelName: string | null; // null when the backend did not report it
+  modelVersion: string | null;
+  preprocessing: PreprocessingConfig;
+}
+
+/**
+ * What produced a result, so entries can be traced after a model update
+ */
+export interface ResultProvenance {
+  models: ModelProvenance[]; // primary first; several for ensemble analyses
+  appVersion: string;
+  platform: string;
+  analyzedAt: string; // ISO date string
+}
+
+/**
+ * How the verdicts of several models are combined
+ * Mask strategies derive the verdict from the combined mask
+ */
+export type EnsembleStrategy =
+  "majority" | "meanProbability" | "maskUnion" | "maskIntersection";
+
+/**
+ * Persisted ensemble settings; the selected backend is always the first model
+ */
+export interface EnsembleConfig {
+  enabled: boolean;
+  strategy: EnsembleStrategy;
+  additionalBackends: BackendConfig[];
+}
+
+/**
+ * Backends an analysis fans out to, primary first
+ */
+export interface EnsembleOptions {
+  backends: DetectionBackend[];
+  strategy: EnsembleStrategy;
+}
+
+/**
+ * One model's answer within an ensemble analysis
+ */
+export interface ModelOpinion {
+  backendId: string;
+  label: string;
+  endpoint: string;
+  status: DetectionResult["status"];
+  report?: DiagnosisReport;
+  apiResponse?: PneumoAPIResponse;
+  boundingBoxes: BoundingBox[];
+  error?: AnalysisFailure; // set only when status is "error"
+}
+
+/**
+ * Per-model results and how they were combined
+ */
+export interface EnsembleSummary {
+  strategy: EnsembleStrategy;
+  opinions: ModelOpinion[];
+  disagreement: boolean; // successful models reached different verdicts
+}
+
+/**
+ * Analysis waiting in the offline queue
+ */
+export interface QueuedAnalysis {
+  id: string;
+  imageUri: string; // copy in app storage, owned by the queue
+  createdAt: string; // ISO date string
+  status: "queued" | "running" | "failed";
+  attempts: number;
+  lastError?: AnalysisFailure;
+  nextAttemptAt?: string; // ISO date string; backoff after a server failure
+  dicom?: DicomMetadata; // set when the image was imported from a DICOM file
+}
+
+/**
+ * One image in a batch analysis run
+ */
+export interface BatchItem {
+  index: number;
+  imageUri: string;
+  state: "pending" | "running" | "done" | "failed";
+  result?: DetectionResult;
+  apiResponse?: PneumoAPIResponse;
+  fromCache?: boolean;
+  error?: AnalysisFailure;
+}
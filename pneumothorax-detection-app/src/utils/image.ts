@@ -0,0 +1,63 @@
+/**
+ * Convert data URL to Blob (for web)
+ */
+export function dataURLtoBlob(dataURL: string): Blob {
+  const arr = dataURL.split(",");
+  const mime = arr[0].match(/:(.*?);/)?.[1] || "image/png";
+  const bstr = atob(arr[1]);
+  let n = bstr.length;
+  const u8arr = new Uint8Array(n);
+  while (n--) {
+    u8arr[n] = bstr.charCodeAt(n);
+  }
+  return new Blob([u8arr], { type: mime });
+}
+
+/**
+ * Read an image URI into a base64 data URL
+ */
+export async function uriToDataURL(
+  imageUri: string,
+  signal?: AbortSignal,
+): Promise<string> {
+  // If already a data URL (from web resize), use directly
+  if (imageUri.startsWith("data:")) {
+    return imageUri;
+  }
+
+  const response = await fetch(imageUri, { signal });
+  const blob = await response.blob();
+
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Decode a base64 string (with or without data URL prefix) into bytes
+ */
+export function base64ToBytes(base64: string): Uint8Array {
+  const payload = base64.includes(",") ? base64.split(",")[1] : base64;
+  const bstr = atob(payload);
+  const bytes = new Uint8Array(bstr.length);
+  for (let i = 0; i < bstr.length; i++) {
+    bytes[i] = bstr.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Encode bytes as a base64 string (no data URL prefix)
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  // Chunked to stay under the argument limit of String.fromCharCode
+  const chunkSize = 0x8000;
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
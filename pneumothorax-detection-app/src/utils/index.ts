@@ -1,2 +1,3 @@
 // Utility functions barrel export
-// Helper functions will be added as they are implemented
+export * from "./image";
+export * from "./abort";